@@ -0,0 +1,116 @@
+// Load environment variables first, before any other imports
+import dotenv from 'dotenv';
+dotenv.config();
+
+import path from 'path';
+import { createDatabaseClient, DatabaseConfig, loadDatabaseConfig } from '../db/database';
+import { copyCollections, DEFAULT_COPY_BATCH_SIZE } from '../db/copy';
+import { COLLECTIONS } from '../config/collections';
+
+const USAGE = `Usage: npm run copy-data -- --to <database> [--from <database>] [options]
+
+Copy the decks and the events and questions collections, with their draw state, from one database to another.
+Run the same command again to resume an interrupted copy.
+
+Databases:
+  sqlite:<file>                 A SQLite file
+  mongodb://host/<database>     A MongoDB database (also mongodb+srv://)
+--from defaults to the database configured with DB_TYPE, MONGODB_URI and SQLITE_FILE.
+
+Options:
+  --batch-size <n>      Items per batch, ${DEFAULT_COPY_BATCH_SIZE} by default
+  --collections <list>  Comma separated collections, ${Object.keys(COLLECTIONS).join(',')} by default`;
+
+/**
+ * Turn a sqlite:<file> or mongodb:// argument into a database configuration
+ */
+function parseDatabase(spec: string): DatabaseConfig {
+    if (spec.startsWith('sqlite:')) {
+        const file = spec.slice('sqlite:'.length);
+        if (!file) {
+            throw new Error('sqlite: needs a file name');
+        }
+        return { type: 'sqlite', sqliteFile: path.resolve(file) };
+    }
+    if (spec.startsWith('mongodb://') || spec.startsWith('mongodb+srv://')) {
+        const dbName = new URL(spec).pathname.slice(1);
+        return { type: 'mongodb', mongoUri: spec, ...(dbName && { mongoDbName: dbName }) };
+    }
+    throw new Error(`Database must be sqlite:<file> or a mongodb:// URI, got ${spec}`);
+}
+
+function describe(config: DatabaseConfig): string {
+    return config.type === 'sqlite' ? `sqlite:${config.sqliteFile}` : `mongodb (${config.mongoDbName || process.env.MONGODB_DB || 'events_db'})`;
+}
+
+function parseArgs(args: string[]): Record<string, string> {
+    const flags: Record<string, string> = {};
+    for (let index = 0; index < args.length; index++) {
+        const arg = args[index];
+        const value = args[index + 1];
+        if (!arg.startsWith('--') || value === undefined) {
+            throw new Error(`Unexpected argument ${arg}`);
+        }
+        flags[arg.slice(2)] = value;
+        index++;
+    }
+    return flags;
+}
+
+async function main(args: string[]): Promise<void> {
+    if (args.length === 0 || args.includes('--help')) {
+        console.log(USAGE);
+        return;
+    }
+
+    const flags = parseArgs(args);
+    if (!flags.to) {
+        throw new Error('--to is required');
+    }
+    const sourceConfig = flags.from ? parseDatabase(flags.from) : loadDatabaseConfig();
+    const targetConfig = parseDatabase(flags.to);
+    if (describe(sourceConfig) === describe(targetConfig) && sourceConfig.mongoUri === targetConfig.mongoUri) {
+        throw new Error('Source and target are the same database');
+    }
+
+    const collections = flags.collections
+        ? flags.collections.split(',').map(name => name.trim()).filter(Boolean)
+        : Object.values(COLLECTIONS).map(collection => collection.name);
+    const batchSize = flags['batch-size'] ? Number(flags['batch-size']) : undefined;
+
+    const source = createDatabaseClient(sourceConfig);
+    const target = createDatabaseClient(targetConfig);
+    await source.connect();
+    try {
+        await target.connect();
+        try {
+            console.log(`Copying ${collections.join(', ')} from ${describe(sourceConfig)} to ${describe(targetConfig)}`);
+            const reports = await copyCollections(source, target, collections, {
+                batchSize,
+                onProgress: ({ collection, copied, total }) => {
+                    const percent = total === 0 ? 100 : Math.floor(copied / total * 100);
+                    console.log(`${collection}: ${copied}/${total} (${percent}%)`);
+                }
+            });
+
+            for (const report of reports) {
+                console.log(`${report.collection}: ${report.verified ? 'verified' : 'MISMATCH'}` +
+                    ` (source ${report.sourceCount} items, checksum ${report.sourceChecksum.slice(0, 12)};` +
+                    ` target ${report.targetCount} items, checksum ${report.targetChecksum.slice(0, 12)})` +
+                    (report.resumedAt > 0 ? `, resumed after ${report.resumedAt} items` : ''));
+            }
+            if (reports.some(report => !report.verified)) {
+                process.exitCode = 1;
+            }
+        } finally {
+            await target.disconnect();
+        }
+    } finally {
+        await source.disconnect();
+    }
+}
+
+main(process.argv.slice(2)).catch(error => {
+    console.error('Copy failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,146 @@
+// Load environment variables first, before any other imports
+import dotenv from 'dotenv';
+dotenv.config();
+
+import fs from 'fs';
+import path from 'path';
+import { createDatabaseClient, DatabaseConfig, loadDatabaseConfig } from '../db/database';
+import {
+    DECK_COLLECTIONS,
+    DECK_FORMATS,
+    DeckFormat,
+    exportDeck,
+    importDeck,
+    IMPORT_MODES,
+    ImportMode
+} from '../services/deckTransfer';
+
+const USAGE = `Usage: npm run deck -- <command> <collection> [options]
+
+Commands:
+  export <collection>          Write a deck to stdout or --out
+  import <collection> <file>   Read a deck from a file and store it
+
+Collections: ${DECK_COLLECTIONS.join(', ')}
+
+Options:
+  --db <file>         SQLite file to use instead of the DB_TYPE/MONGODB_URI/SQLITE_FILE settings
+  --format <format>   ${DECK_FORMATS.join(' or ')}, taken from the file extension by default
+  --out <file>        export: file to write instead of stdout
+  --created-by <id>   export: only items created by this user
+  --user <id>         import: user the items are created by (required)
+  --mode <mode>       import: ${IMPORT_MODES.join(' or ')}, append by default
+  --dry-run           import: validate and report without storing anything`;
+
+interface CliOptions {
+    positional: string[];
+    flags: Record<string, string | true>;
+}
+
+const VALUE_FLAGS = ['db', 'format', 'out', 'created-by', 'user', 'mode'];
+
+function parseArgs(args: string[]): CliOptions {
+    const options: CliOptions = { positional: [], flags: {} };
+    for (let index = 0; index < args.length; index++) {
+        const arg = args[index];
+        if (!arg.startsWith('--')) {
+            options.positional.push(arg);
+            continue;
+        }
+        const name = arg.slice(2);
+        if (VALUE_FLAGS.includes(name)) {
+            const value = args[++index];
+            if (value === undefined) {
+                throw new Error(`--${name} needs a value`);
+            }
+            options.flags[name] = value;
+        } else {
+            options.flags[name] = true;
+        }
+    }
+    return options;
+}
+
+function stringFlag(options: CliOptions, name: string): string | undefined {
+    const value = options.flags[name];
+    return typeof value === 'string' ? value : undefined;
+}
+
+function resolveFormat(explicit: string | undefined, file: string | undefined): DeckFormat {
+    const format = explicit ?? (file ? path.extname(file).slice(1).toLowerCase() : 'json');
+    if (!DECK_FORMATS.includes(format as DeckFormat)) {
+        throw new Error(`Format must be one of ${DECK_FORMATS.join(', ')}, got ${format || 'none'}`);
+    }
+    return format as DeckFormat;
+}
+
+async function main(args: string[]): Promise<void> {
+    const options = parseArgs(args);
+    const [command, collection, file] = options.positional;
+    if (!command || !['export', 'import'].includes(command) || !collection) {
+        console.log(USAGE);
+        process.exitCode = command ? 1 : 0;
+        return;
+    }
+    if (!DECK_COLLECTIONS.includes(collection)) {
+        throw new Error(`Collection must be one of ${DECK_COLLECTIONS.join(', ')}, got ${collection}`);
+    }
+
+    if (command === 'export' && !stringFlag(options, 'out')) {
+        // stdout carries the exported deck, so messages such as applied migrations go to stderr
+        console.log = console.error;
+    }
+
+    const dbFile = stringFlag(options, 'db');
+    const config: DatabaseConfig = dbFile ? { type: 'sqlite', sqliteFile: path.resolve(dbFile) } : loadDatabaseConfig();
+    const client = createDatabaseClient(config);
+    await client.connect();
+
+    try {
+        if (command === 'export') {
+            const out = stringFlag(options, 'out');
+            const content = await exportDeck(client, collection, {
+                format: resolveFormat(stringFlag(options, 'format'), out),
+                createdBy: stringFlag(options, 'created-by')
+            });
+            if (out) {
+                fs.writeFileSync(out, content);
+                console.error(`Exported ${collection} to ${out}`);
+            } else {
+                process.stdout.write(content);
+            }
+            return;
+        }
+
+        const userId = stringFlag(options, 'user');
+        if (!file || !userId) {
+            throw new Error('import needs a file and --user');
+        }
+        const mode = (stringFlag(options, 'mode') ?? 'append') as ImportMode;
+        if (!IMPORT_MODES.includes(mode)) {
+            throw new Error(`Mode must be one of ${IMPORT_MODES.join(', ')}, got ${mode}`);
+        }
+
+        const result = await importDeck(client, collection, userId, fs.readFileSync(file, 'utf8'), {
+            format: resolveFormat(stringFlag(options, 'format'), file),
+            mode,
+            dryRun: options.flags['dry-run'] === true
+        });
+
+        const { error, rejected = [], ...report } = result.data;
+        console.log(JSON.stringify(report, null, 2));
+        for (const { row, errors } of rejected) {
+            console.error(`Row ${row}: ${errors.join('; ')}`);
+        }
+        if (!result.success) {
+            throw new Error(error);
+        }
+    } finally {
+        await client.disconnect();
+    }
+}
+
+main(process.argv.slice(2)).catch(error => {
+    console.error('Deck command failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
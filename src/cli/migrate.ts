@@ -0,0 +1,77 @@
+// Load environment variables first, before any other imports
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { createDatabaseClient, loadDatabaseConfig } from '../db/database';
+
+const USAGE = `Usage: npm run migrate -- <command> [version]
+
+Commands:
+  status            Show the current and latest schema version and pending migrations
+  up [version]      Migrate up to a version, the latest version by default
+  down [version]    Migrate down to a version, one version below the current one by default
+
+The database is selected with DB_TYPE, MONGODB_URI and SQLITE_FILE, as for the server.`;
+
+function parseVersion(value: string | undefined): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const version = Number(value);
+    if (!Number.isInteger(version) || version < 0) {
+        throw new Error(`Version must be a non-negative integer, got ${value}`);
+    }
+    return version;
+}
+
+async function main(args: string[]): Promise<void> {
+    const [command, versionArg] = args;
+    if (!command || !['status', 'up', 'down'].includes(command)) {
+        console.log(USAGE);
+        process.exitCode = command ? 1 : 0;
+        return;
+    }
+
+    const config = loadDatabaseConfig();
+    const client = createDatabaseClient({ ...config, autoMigrate: false });
+    await client.connect();
+
+    try {
+        const status = await client.getMigrationStatus();
+        const version = parseVersion(versionArg);
+
+        if (command === 'status') {
+            console.log(`Database: ${config.type}`);
+            console.log(`Current version: ${status.current}`);
+            console.log(`Latest version: ${status.latest}`);
+            if (status.pending.length === 0) {
+                console.log('No pending migrations');
+            } else {
+                console.log('Pending migrations:');
+                status.pending.forEach(({ version, name }) => console.log(`  ${version} ${name}`));
+            }
+            return;
+        }
+
+        if (command === 'up' && version !== undefined && version < status.current) {
+            throw new Error(`Version ${version} is below the current version ${status.current}, use down`);
+        }
+        if (command === 'down' && version !== undefined && version > status.current) {
+            throw new Error(`Version ${version} is above the current version ${status.current}, use up`);
+        }
+
+        const target = command === 'up' ? version : version ?? Math.max(status.current - 1, 0);
+        const steps = await client.migrate(target);
+        const { current } = await client.getMigrationStatus();
+        console.log(steps.length === 0
+            ? `Already at version ${current}`
+            : `Applied ${steps.length} migration(s), now at version ${current}`);
+    } finally {
+        await client.disconnect();
+    }
+}
+
+main(process.argv.slice(2)).catch(error => {
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
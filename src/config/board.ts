@@ -0,0 +1,98 @@
+import fs from 'fs';
+import { Board, OWNABLE_SPACE_KINDS, SPACE_KINDS } from '../models/board';
+
+/**
+ * The classic board, with prices and rents at ten times the printed values to match STARTING_BALANCE
+ */
+export const CLASSIC_BOARD: Board = {
+    name: 'Classic',
+    spaces: [
+        { name: 'GO', kind: 'go' },
+        { name: 'Mediterranean Avenue', kind: 'property', group: 'brown', price: 600, houseCost: 500, rents: [20, 100, 300, 900, 1600, 2500] },
+        { name: 'Community Chest', kind: 'community_chest' },
+        { name: 'Baltic Avenue', kind: 'property', group: 'brown', price: 600, houseCost: 500, rents: [40, 200, 600, 1800, 3200, 4500] },
+        { name: 'Income Tax', kind: 'tax', price: 2000 },
+        { name: 'Reading Railroad', kind: 'railroad', price: 2000, rents: [250, 500, 1000, 2000] },
+        { name: 'Oriental Avenue', kind: 'property', group: 'light_blue', price: 1000, houseCost: 500, rents: [60, 300, 900, 2700, 4000, 5500] },
+        { name: 'Chance', kind: 'chance' },
+        { name: 'Vermont Avenue', kind: 'property', group: 'light_blue', price: 1000, houseCost: 500, rents: [60, 300, 900, 2700, 4000, 5500] },
+        { name: 'Connecticut Avenue', kind: 'property', group: 'light_blue', price: 1200, houseCost: 500, rents: [80, 400, 1000, 3000, 4500, 6000] },
+        { name: 'Jail', kind: 'jail' },
+        { name: 'St. Charles Place', kind: 'property', group: 'pink', price: 1400, houseCost: 1000, rents: [100, 500, 1500, 4500, 6250, 7500] },
+        { name: 'Electric Company', kind: 'utility', price: 1500, rents: [4, 10] },
+        { name: 'States Avenue', kind: 'property', group: 'pink', price: 1400, houseCost: 1000, rents: [100, 500, 1500, 4500, 6250, 7500] },
+        { name: 'Virginia Avenue', kind: 'property', group: 'pink', price: 1600, houseCost: 1000, rents: [120, 600, 1800, 5000, 7000, 9000] },
+        { name: 'Pennsylvania Railroad', kind: 'railroad', price: 2000, rents: [250, 500, 1000, 2000] },
+        { name: 'St. James Place', kind: 'property', group: 'orange', price: 1800, houseCost: 1000, rents: [140, 700, 2000, 5500, 7500, 9500] },
+        { name: 'Community Chest', kind: 'community_chest' },
+        { name: 'Tennessee Avenue', kind: 'property', group: 'orange', price: 1800, houseCost: 1000, rents: [140, 700, 2000, 5500, 7500, 9500] },
+        { name: 'New York Avenue', kind: 'property', group: 'orange', price: 2000, houseCost: 1000, rents: [160, 800, 2200, 6000, 8000, 10000] },
+        { name: 'Free Parking', kind: 'free_parking' },
+        { name: 'Kentucky Avenue', kind: 'property', group: 'red', price: 2200, houseCost: 1500, rents: [180, 900, 2500, 7000, 8750, 10500] },
+        { name: 'Chance', kind: 'chance' },
+        { name: 'Indiana Avenue', kind: 'property', group: 'red', price: 2200, houseCost: 1500, rents: [180, 900, 2500, 7000, 8750, 10500] },
+        { name: 'Illinois Avenue', kind: 'property', group: 'red', price: 2400, houseCost: 1500, rents: [200, 1000, 3000, 7500, 9250, 11000] },
+        { name: 'B. & O. Railroad', kind: 'railroad', price: 2000, rents: [250, 500, 1000, 2000] },
+        { name: 'Atlantic Avenue', kind: 'property', group: 'yellow', price: 2600, houseCost: 1500, rents: [220, 1100, 3300, 8000, 9750, 11500] },
+        { name: 'Ventnor Avenue', kind: 'property', group: 'yellow', price: 2600, houseCost: 1500, rents: [220, 1100, 3300, 8000, 9750, 11500] },
+        { name: 'Water Works', kind: 'utility', price: 1500, rents: [4, 10] },
+        { name: 'Marvin Gardens', kind: 'property', group: 'yellow', price: 2800, houseCost: 1500, rents: [240, 1200, 3600, 8500, 10250, 12000] },
+        { name: 'Go To Jail', kind: 'go_to_jail' },
+        { name: 'Pacific Avenue', kind: 'property', group: 'green', price: 3000, houseCost: 2000, rents: [260, 1300, 3900, 9000, 11000, 12750] },
+        { name: 'North Carolina Avenue', kind: 'property', group: 'green', price: 3000, houseCost: 2000, rents: [260, 1300, 3900, 9000, 11000, 12750] },
+        { name: 'Community Chest', kind: 'community_chest' },
+        { name: 'Pennsylvania Avenue', kind: 'property', group: 'green', price: 3200, houseCost: 2000, rents: [280, 1500, 4500, 10000, 12000, 14000] },
+        { name: 'Short Line', kind: 'railroad', price: 2000, rents: [250, 500, 1000, 2000] },
+        { name: 'Chance', kind: 'chance' },
+        { name: 'Park Place', kind: 'property', group: 'dark_blue', price: 3500, houseCost: 2000, rents: [350, 1750, 5000, 11000, 13000, 15000] },
+        { name: 'Luxury Tax', kind: 'tax', price: 1000 },
+        { name: 'Boardwalk', kind: 'property', group: 'dark_blue', price: 4000, houseCost: 2000, rents: [500, 2000, 6000, 14000, 17000, 20000] }
+    ]
+};
+
+let board: Board | null = null;
+
+/**
+ * Load the board definition from the JSON file named by BOARD_FILE, or the classic board if it is not set
+ * @throws Error if the file cannot be read or does not describe a valid board
+ */
+export function loadBoard(): Board {
+    if (!process.env.BOARD_FILE) {
+        return CLASSIC_BOARD;
+    }
+    const loaded = JSON.parse(fs.readFileSync(process.env.BOARD_FILE, 'utf8')) as Board;
+
+    if (typeof loaded.name !== 'string' || !Array.isArray(loaded.spaces)) {
+        throw new Error(`Board file ${process.env.BOARD_FILE} needs a name and a spaces array`);
+    }
+    const names = new Set<string>();
+    for (const [index, space] of loaded.spaces.entries()) {
+        if (typeof space?.name !== 'string' || !space.name.trim()) {
+            throw new Error(`Board space ${index} needs a name`);
+        }
+        if (!SPACE_KINDS.includes(space.kind)) {
+            throw new Error(`Board space "${space.name}" has kind "${space.kind}", expected one of ${SPACE_KINDS.join(', ')}`);
+        }
+        if (OWNABLE_SPACE_KINDS.includes(space.kind)) {
+            if (names.has(space.name)) {
+                throw new Error(`Board has more than one space named "${space.name}"`);
+            }
+            if (!(typeof space.price === 'number' && space.price >= 0)) {
+                throw new Error(`Board space "${space.name}" needs a price`);
+            }
+            names.add(space.name);
+        }
+    }
+    if (names.size === 0) {
+        throw new Error('Board needs at least one property, railroad or utility');
+    }
+    return loaded;
+}
+
+/**
+ * The board in use, loaded on first use
+ */
+export function getBoard(): Board {
+    board ??= loadBoard();
+    return board;
+}
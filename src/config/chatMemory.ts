@@ -0,0 +1,3 @@
+// How many earlier prompts and generated events of a game are fed back into event generation
+export const MEMORY_PROMPTS = parseInt(process.env.CHAT_MEMORY_PROMPTS || '', 10) || 5;
+export const MEMORY_EVENTS = parseInt(process.env.CHAT_MEMORY_EVENTS || '', 10) || 30;
@@ -5,10 +5,33 @@ import { questionSampleData } from '../models/question';
 export const COLLECTIONS: Record<string, CollectionConfig> = {
     events: {
         name: 'events',
-        sampleData: eventSampleData
+        sampleData: eventSampleData,
+        // Keep every kind of event in play however lopsided a generated deck is
+        drawPolicy: {
+            typeRatios: { chance: 3, community_chest: 3, property: 2, trade: 1, auction: 1 },
+            cardWeights: true,
+            noRepeatType: false
+        }
     },
     questions: {
         name: 'questions',
         sampleData: questionSampleData
     }
 } as const;
+
+// Collections holding game play and deck state rather than the cards themselves
+export const GAME_COLLECTIONS = {
+    games: 'games',
+    gameDraws: 'game_draws',
+    questionDeals: 'question_deals',
+    deckVersions: 'deck_versions',
+    decks: 'decks',
+    history: 'history',
+    balances: 'balances',
+    transactions: 'transactions',
+    playerStates: 'player_states',
+    holdings: 'holdings',
+    auctions: 'auctions',
+    trades: 'trades',
+    chatMemory: 'chat_memory'
+} as const;
@@ -0,0 +1,68 @@
+import { GameEventType } from '../models/event';
+import { QuestionDifficulty } from '../models/question';
+
+export interface AmountLimits {
+    min?: number;
+    max?: number;
+}
+
+export interface AmountVariationPolicy {
+    multipliers: number[];
+    weights?: number[];  // Relative weight per multiplier, equal weights when omitted
+    roundTo: number;  // Amounts are rounded to a multiple of this step
+    defaultBaseAmount: number;  // Used when the message shows an amount but the model gave no baseAmount
+    limits: Partial<Record<GameEventType, AmountLimits>>;
+}
+
+export const DEFAULT_AMOUNT_VARIATION: AmountVariationPolicy = {
+    multipliers: [0.6, 0.8, 1.0, 1.2, 1.4],
+    roundTo: 1,
+    defaultBaseAmount: 2000,
+    limits: {}
+};
+
+/**
+ * Load the amount variation policy, merging AMOUNT_VARIATION_POLICY (JSON) over the defaults
+ * @throws Error if the configured policy is invalid
+ */
+export function loadAmountVariationPolicy(): AmountVariationPolicy {
+    const policy: AmountVariationPolicy = process.env.AMOUNT_VARIATION_POLICY
+        ? { ...DEFAULT_AMOUNT_VARIATION, ...JSON.parse(process.env.AMOUNT_VARIATION_POLICY) }
+        : DEFAULT_AMOUNT_VARIATION;
+
+    if (!Array.isArray(policy.multipliers) || policy.multipliers.length === 0) {
+        throw new Error('Amount variation policy needs at least one multiplier');
+    }
+    if (policy.weights && policy.weights.length !== policy.multipliers.length) {
+        throw new Error('Amount variation policy needs one weight per multiplier');
+    }
+    if (!(policy.roundTo > 0)) {
+        throw new Error('Amount variation policy roundTo must be positive');
+    }
+    return policy;
+}
+
+export interface QuestionPayout {
+    reward: number;
+    penalty: number;
+}
+
+// Reward for a correct answer and penalty for a wrong one, by question difficulty
+export const QUESTION_PAYOUTS: Record<QuestionDifficulty, QuestionPayout> = {
+    easy: { reward: 100, penalty: 50 },
+    medium: { reward: 200, penalty: 100 },
+    hard: { reward: 300, penalty: 150 }
+};
+
+// Balance every player starts a game with, unless the game sets its own
+export const STARTING_BALANCE = 15000;
+
+// Collected by a player whose move passes or lands on the first space of the board
+export const GO_SALARY = 2000;
+
+// How long an auction runs, and how long a late bid keeps it open for others to answer
+export const AUCTION_SECONDS = parseInt(process.env.AUCTION_SECONDS || '', 10) || 60;
+export const AUCTION_EXTENSION_SECONDS = 10;
+
+// How long to wait before closing an auction again after settling it failed
+export const AUCTION_RETRY_SECONDS = 30;
@@ -0,0 +1,326 @@
+import { MongoServerError, ObjectId, WithId } from 'mongodb';
+import { DatabaseClient } from './database';
+import { runTransaction } from './transaction';
+import { Posting, postInTransaction, readBalance } from './ledger';
+import { transferHoldingInTransaction } from './gameState';
+import { Auction } from '../models/auction';
+import { COLLECTIONS, GAME_COLLECTIONS } from '../config/collections';
+
+// MongoDB error code for a unique index violation
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Auction as returned to API callers, with the backend specific id normalized to a string
+ */
+export interface AuctionView extends Omit<Auction, '_id'> {
+    id: string;
+}
+
+/**
+ * A closed auction and the ledger postings that paid for it, empty if it closed unsold
+ */
+export interface AuctionSettlement {
+    auction: AuctionView;
+    ledger: Posting[];
+}
+
+export type NewAuction = Omit<Auction, '_id' | 'highBid' | 'highBidder' | 'bidCount' | 'status' | 'createdAt' | 'closedAt'>;
+
+/**
+ * Open an auction, unless one for the same property is still open in the game.
+ * A unique index on the open auctions of a game and property guards against concurrent opens.
+ * @param client Database client
+ * @param auction Game, property, seller, starting bid and closing time of the auction
+ * @returns The opened auction, or the one already open with opened false
+ */
+export async function openAuction(
+    client: DatabaseClient,
+    auction: NewAuction
+): Promise<{ auction: AuctionView; opened: boolean }> {
+    try {
+        const backend = client.backend();
+        const opened: Auction = { ...stripUndefined(auction), bidCount: 0, status: 'open', createdAt: new Date() };
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<Auction>(GAME_COLLECTIONS.auctions);
+            try {
+                const result = await collection.insertOne(opened);
+                return { auction: toAuctionView({ ...opened, _id: result.insertedId }), opened: true };
+            } catch (error) {
+                if (!(error instanceof MongoServerError && error.code === DUPLICATE_KEY_ERROR)) {
+                    throw error;
+                }
+            }
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const result = await db.run(
+                `INSERT INTO ${GAME_COLLECTIONS.auctions}
+                (gameId, property, openedBy, itemId, sellerId, startingBid, bidCount, status, endsAt, createdAt)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                ON CONFLICT DO NOTHING`,
+                [
+                    opened.gameId,
+                    opened.property,
+                    opened.openedBy,
+                    opened.itemId,
+                    opened.sellerId ?? null,
+                    opened.startingBid,
+                    opened.bidCount,
+                    opened.status,
+                    opened.endsAt.toISOString(),
+                    opened.createdAt.toISOString()
+                ]
+            );
+            if (result.changes === 1) {
+                return { auction: { id: String(result.lastID), ...opened }, opened: true };
+            }
+        }
+
+        const existing = await findOpenAuction(client, auction.gameId, auction.property);
+        if (!existing) {
+            throw new Error(`The open auction for ${auction.property} closed while opening another, try again`);
+        }
+        return { auction: existing, opened: false };
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.auctions}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Find the auction still open for a property in a game
+ * @returns The auction, or null if none is open
+ */
+export async function findOpenAuction(
+    client: DatabaseClient,
+    gameId: string,
+    property: string
+): Promise<AuctionView | null> {
+    const backend = client.backend();
+
+    if (backend.type === 'mongodb') {
+        // MongoDB operations
+        const collection = backend.db.collection<Auction>(GAME_COLLECTIONS.auctions);
+        const auction = await collection.findOne({ gameId, property, status: 'open' });
+        return auction ? toAuctionView(auction) : null;
+    } else {
+        // SQLite operations
+        const db = backend.db;
+        const row = await db.get(
+            `SELECT * FROM ${GAME_COLLECTIONS.auctions} WHERE gameId = ? AND property = ? AND status = 'open'`,
+            [gameId, property]
+        );
+        return row ? fromRow(row) : null;
+    }
+}
+
+/**
+ * Find an auction by id
+ * @returns The auction, or null if no auction exists with this id
+ */
+export async function findAuction(
+    client: DatabaseClient,
+    auctionId: string
+): Promise<AuctionView | null> {
+    const backend = client.backend();
+
+    if (backend.type === 'mongodb') {
+        // MongoDB operations
+        const collection = backend.db.collection<Auction>(GAME_COLLECTIONS.auctions);
+        if (!ObjectId.isValid(auctionId)) {
+            return null;
+        }
+        const auction = await collection.findOne({ _id: new ObjectId(auctionId) });
+        return auction ? toAuctionView(auction) : null;
+    } else {
+        // SQLite operations
+        const db = backend.db;
+        const row = await db.get(`SELECT * FROM ${GAME_COLLECTIONS.auctions} WHERE id = ?`, [auctionId]);
+        return row ? fromRow(row) : null;
+    }
+}
+
+/**
+ * List the auctions that have not been closed yet, e.g. to restart their countdowns
+ */
+export async function listOpenAuctions(client: DatabaseClient): Promise<AuctionView[]> {
+    const backend = client.backend();
+
+    if (backend.type === 'mongodb') {
+        // MongoDB operations
+        const collection = backend.db.collection<Auction>(GAME_COLLECTIONS.auctions);
+        const auctions = await collection.find({ status: 'open' }).toArray();
+        return auctions.map(toAuctionView);
+    } else {
+        // SQLite operations
+        const db = backend.db;
+        const rows = await db.all(`SELECT * FROM ${GAME_COLLECTIONS.auctions} WHERE status = 'open'`);
+        return rows.map(fromRow);
+    }
+}
+
+/**
+ * Record a bid if it beats the current high bid while the auction is still running
+ * @param client Database client
+ * @param auctionId Auction to bid on
+ * @param userId Bidding player
+ * @param amount Bid, at least the starting bid and more than the current high bid
+ * @param extendTo The auction stays open at least until then
+ * @returns The auction with the new high bid, or null if the bid came too late or was beaten by another
+ */
+export async function placeBid(
+    client: DatabaseClient,
+    auctionId: string,
+    userId: string,
+    amount: number,
+    extendTo: Date
+): Promise<AuctionView | null> {
+    try {
+        const backend = client.backend();
+        const now = new Date();
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<Auction>(GAME_COLLECTIONS.auctions);
+            const auction = await collection.findOneAndUpdate(
+                {
+                    _id: new ObjectId(auctionId),
+                    status: 'open',
+                    endsAt: { $gt: now },
+                    $or: [
+                        { highBid: { $exists: false }, startingBid: { $lte: amount } },
+                        { highBid: { $lt: amount } }
+                    ]
+                },
+                {
+                    $set: { highBid: amount, highBidder: userId },
+                    $max: { endsAt: extendTo },
+                    $inc: { bidCount: 1 }
+                },
+                { returnDocument: 'after' }
+            );
+            return auction ? toAuctionView(auction) : null;
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            // Times are ISO strings, which compare in time order
+            const result = await db.run(
+                `UPDATE ${GAME_COLLECTIONS.auctions}
+                SET highBid = ?, highBidder = ?, bidCount = bidCount + 1, endsAt = MAX(endsAt, ?)
+                WHERE id = ? AND status = 'open' AND endsAt > ?
+                AND ((highBid IS NULL AND startingBid <= ?) OR highBid < ?)`,
+                [amount, userId, extendTo.toISOString(), auctionId, now.toISOString(), amount, amount]
+            );
+            return result.changes ? findAuction(client, auctionId) : null;
+        }
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.auctions}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Close an auction whose time is up and settle it in the same transaction: the high bidder pays,
+ * the seller if any is paid and the property changes hands. Without bids, or when the high bidder
+ * can no longer pay, the auction closes unsold. If settling fails nothing is written and the auction stays open.
+ * @param client Database client
+ * @param auctionId Auction to close
+ * @returns The closed auction and its ledger postings, or null if it is still running or was already closed
+ */
+export async function closeAuction(
+    client: DatabaseClient,
+    auctionId: string
+): Promise<AuctionSettlement | null> {
+    try {
+        const auction = await findAuction(client, auctionId);
+        if (!auction || auction.status !== 'open' || auction.endsAt > new Date()) {
+            return null;
+        }
+
+        return await runTransaction(client, async scope => {
+            const now = new Date();
+            // No bid can land after endsAt, so the high bidder read above is final
+            const { highBidder, highBid } = auction;
+            const sold = highBidder !== undefined && highBid !== undefined
+                && await readBalance(scope, auction.gameId, highBidder) >= highBid;
+            const status = sold ? 'sold' : 'unsold';
+            let closed: boolean;
+
+            if (scope.type === 'mongodb') {
+                // MongoDB operations
+                const auctions = scope.db.collection<Auction>(GAME_COLLECTIONS.auctions);
+                const result = await auctions.updateOne(
+                    { _id: new ObjectId(auctionId), status: 'open' },
+                    { $set: { status, closedAt: now } },
+                    { session: scope.session }
+                );
+                closed = result.modifiedCount === 1;
+            } else {
+                // SQLite operations
+                const result = await scope.db.run(
+                    `UPDATE ${GAME_COLLECTIONS.auctions} SET status = ?, closedAt = ? WHERE id = ? AND status = 'open'`,
+                    [status, now.toISOString(), auctionId]
+                );
+                closed = Boolean(result.changes);
+            }
+            if (!closed) {
+                return null;
+            }
+
+            const ledger: Posting[] = [];
+            if (sold) {
+                const entry = { gameId: auction.gameId, collection: COLLECTIONS.events.name, itemId: auction.itemId };
+                ledger.push(await postInTransaction(scope, {
+                    ...entry,
+                    userId: highBidder,
+                    type: 'auction_pay',
+                    amount: -highBid,
+                    description: `Won the auction of ${auction.property}`
+                }));
+                if (auction.sellerId) {
+                    ledger.push(await postInTransaction(scope, {
+                        ...entry,
+                        userId: auction.sellerId,
+                        type: 'auction_collect',
+                        amount: highBid,
+                        description: `Sold ${auction.property} at auction`
+                    }));
+                }
+                await transferHoldingInTransaction(scope, auction.gameId, auction.property, highBidder);
+            }
+            return { auction: { ...auction, status, closedAt: now }, ledger };
+        });
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.auctions}:`, error);
+        throw error;
+    }
+}
+
+function toAuctionView({ _id, ...auction }: WithId<Auction> | Auction): AuctionView {
+    return { id: _id!.toHexString(), ...auction };
+}
+
+function stripUndefined<T extends object>(entry: T): T {
+    return Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)) as T;
+}
+
+function fromRow(row: any): AuctionView {
+    return {
+        id: String(row.id),
+        gameId: row.gameId,
+        property: row.property,
+        openedBy: row.openedBy,
+        itemId: row.itemId,
+        ...(row.sellerId !== null && { sellerId: row.sellerId }),
+        startingBid: row.startingBid,
+        ...(row.highBid !== null && { highBid: row.highBid }),
+        ...(row.highBidder !== null && { highBidder: row.highBidder }),
+        bidCount: row.bidCount,
+        status: row.status,
+        endsAt: new Date(row.endsAt),
+        createdAt: new Date(row.createdAt),
+        ...(row.closedAt !== null && { closedAt: new Date(row.closedAt) })
+    };
+}
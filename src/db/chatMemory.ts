@@ -0,0 +1,113 @@
+import { DatabaseClient } from './database';
+import { withTransaction } from './transaction';
+import { ChatMemory, GameMemory } from '../models/chatMemory';
+import { GAME_COLLECTIONS } from '../config/collections';
+import { MEMORY_EVENTS, MEMORY_PROMPTS } from '../config/chatMemory';
+
+/**
+ * One event generation to remember
+ */
+export interface Generation {
+    prompt: string;
+    events: string[];  // Summary line per generated event
+    state?: string;  // Game state the events were generated for
+}
+
+/**
+ * Load what event generation remembers of a game
+ * @param client Database client
+ * @param gameId Game ID as returned by createGame
+ * @returns The memory, empty for a game without generations yet
+ */
+export async function loadChatMemory(
+    client: DatabaseClient,
+    gameId: string
+): Promise<GameMemory> {
+    try {
+        const backend = client.backend();
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<ChatMemory>(GAME_COLLECTIONS.chatMemory);
+            const memory = await collection.findOne({ gameId });
+            return memory
+                ? { prompts: memory.prompts, events: memory.events, ...(memory.state !== undefined && { state: memory.state }) }
+                : { prompts: [], events: [] };
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const row = await db.get(`SELECT * FROM ${GAME_COLLECTIONS.chatMemory} WHERE gameId = ?`, [gameId]);
+            return row ? fromRow(row) : { prompts: [], events: [] };
+        }
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.chatMemory}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Add a generation to a game's memory, dropping the oldest prompts and events beyond MEMORY_PROMPTS and MEMORY_EVENTS
+ * @param client Database client
+ * @param gameId Game ID as returned by createGame
+ * @param generation Prompt, generated events and game state to remember
+ */
+export async function rememberGeneration(
+    client: DatabaseClient,
+    gameId: string,
+    generation: Generation
+): Promise<void> {
+    try {
+        const backend = client.backend();
+        const updatedAt = new Date();
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<ChatMemory>(GAME_COLLECTIONS.chatMemory);
+            await collection.updateOne(
+                { gameId },
+                {
+                    $push: {
+                        prompts: { $each: [generation.prompt], $slice: -MEMORY_PROMPTS },
+                        events: { $each: generation.events, $slice: -MEMORY_EVENTS }
+                    },
+                    $set: { updatedAt, ...(generation.state !== undefined && { state: generation.state }) }
+                },
+                { upsert: true }
+            );
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            await withTransaction(db, async () => {
+                const row = await db.get(`SELECT * FROM ${GAME_COLLECTIONS.chatMemory} WHERE gameId = ?`, [gameId]);
+                const memory = row ? fromRow(row) : { prompts: [], events: [] };
+                await db.run(
+                    `INSERT INTO ${GAME_COLLECTIONS.chatMemory} (gameId, prompts, events, state, updatedAt)
+                    VALUES (?, ?, ?, ?, ?)
+                    ON CONFLICT (gameId) DO UPDATE SET
+                        prompts = excluded.prompts,
+                        events = excluded.events,
+                        state = excluded.state,
+                        updatedAt = excluded.updatedAt`,
+                    [
+                        gameId,
+                        JSON.stringify([...memory.prompts, generation.prompt].slice(-MEMORY_PROMPTS)),
+                        JSON.stringify([...memory.events, ...generation.events].slice(-MEMORY_EVENTS)),
+                        generation.state ?? memory.state ?? null,
+                        updatedAt.toISOString()
+                    ]
+                );
+            });
+        }
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.chatMemory}:`, error);
+        throw error;
+    }
+}
+
+function fromRow(row: any): GameMemory {
+    return {
+        prompts: JSON.parse(row.prompts),
+        events: JSON.parse(row.events),
+        ...(row.state !== null && { state: row.state })
+    };
+}
@@ -0,0 +1,253 @@
+import { createHash } from 'crypto';
+import { DatabaseClient } from './database';
+import { DeckView, insertDeckSnapshot, scanDecks } from './decks';
+import { ItemRepository, ItemSnapshot, ItemView } from './repositories/itemRepository';
+import { GAME_COLLECTIONS } from '../config/collections';
+
+export const DEFAULT_COPY_BATCH_SIZE = 500;
+
+export interface CopyProgress {
+    collection: string;
+    copied: number;
+    total: number;
+}
+
+export interface CopyOptions {
+    batchSize?: number;
+    onProgress?: (progress: CopyProgress) => void;
+}
+
+export interface CollectionCopyReport {
+    collection: string;
+    sourceCount: number;
+    targetCount: number;
+    resumedAt: number;  // Items already in the target when the copy started
+    copied: number;
+    sourceChecksum: string;
+    targetChecksum: string;
+    verified: boolean;
+}
+
+/**
+ * Copy item collections from one database to another, keeping each item's draw state and origin.
+ *
+ * The decks are copied first, since the target gives them new ids; items get the new id of their deck.
+ * Decks and items are copied in source id order, so the ones already in the target are always a prefix of the
+ * source. An interrupted copy is resumed by running it again: it continues after the target's count.
+ * At the end, counts and checksums of both sides are compared.
+ * The source must not change while copying and the target collections must start out empty.
+ * @param source Database to copy from
+ * @param target Database to copy to
+ * @param collectionNames Collections to copy
+ * @param options Batch size and progress callback
+ * @returns One report for the decks, then one per collection
+ */
+export async function copyCollections(
+    source: DatabaseClient,
+    target: DatabaseClient,
+    collectionNames: ReadonlyArray<string>,
+    options: CopyOptions = {}
+): Promise<CollectionCopyReport[]> {
+    const batchSize = options.batchSize ?? DEFAULT_COPY_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+        throw new Error(`Batch size must be a positive integer, got ${batchSize}`);
+    }
+
+    const reports: CollectionCopyReport[] = [];
+    let deckIds: Map<string, string>;
+    try {
+        const decks = await copyDecks(source, target, options.onProgress);
+        reports.push(decks.report);
+        deckIds = decks.deckIds;
+    } catch (error) {
+        console.error(`Copy failed for ${GAME_COLLECTIONS.decks}:`, error);
+        throw error;
+    }
+
+    for (const name of collectionNames) {
+        try {
+            reports.push(await copyCollection(
+                source.getItemRepository(name),
+                target.getItemRepository(name),
+                deckIds,
+                batchSize,
+                options.onProgress
+            ));
+        } catch (error) {
+            console.error(`Copy failed for ${name}:`, error);
+            throw error;
+        }
+    }
+    return reports;
+}
+
+/**
+ * Copy every deck, resuming after the decks already in the target
+ * @returns The copy report and the target id of each source deck id
+ */
+async function copyDecks(
+    source: DatabaseClient,
+    target: DatabaseClient,
+    onProgress?: (progress: CopyProgress) => void
+): Promise<{ report: CollectionCopyReport; deckIds: Map<string, string> }> {
+    const collection = GAME_COLLECTIONS.decks;
+    const sourceDecks = await scanDecks(source);
+    const resumed = await scanDecks(target);
+    const total = sourceDecks.length;
+    if (resumed.length > total) {
+        throw new Error(`Target ${collection} has ${resumed.length} decks but the source only ${total}; the target must start empty`);
+    }
+
+    // The decks already in the target are copies of the first source decks
+    const deckIds = new Map(resumed.map((deck, index) => [sourceDecks[index].id, deck.id]));
+    onProgress?.({ collection, copied: deckIds.size, total });
+    for (const { id, ...deck } of sourceDecks.slice(resumed.length)) {
+        deckIds.set(id, await insertDeckSnapshot(target, deck));
+        onProgress?.({ collection, copied: deckIds.size, total });
+    }
+
+    const targetDecks = await scanDecks(target);
+    const sourceChecksum = checksumDecks(sourceDecks);
+    const targetChecksum = checksumDecks(targetDecks);
+    return {
+        report: {
+            collection,
+            sourceCount: total,
+            targetCount: targetDecks.length,
+            resumedAt: resumed.length,
+            copied: total - resumed.length,
+            sourceChecksum,
+            targetChecksum,
+            verified: total === targetDecks.length && sourceChecksum === targetChecksum
+        },
+        deckIds
+    };
+}
+
+async function copyCollection(
+    source: ItemRepository,
+    target: ItemRepository,
+    deckIds: ReadonlyMap<string, string>,
+    batchSize: number,
+    onProgress?: (progress: CopyProgress) => void
+): Promise<CollectionCopyReport> {
+    const collection = source.collectionName;
+    const total = await source.count();
+    const resumedAt = await target.count();
+    if (resumedAt > total) {
+        throw new Error(`Target ${collection} has ${resumedAt} items but the source only ${total}; the target must start empty`);
+    }
+
+    let copied = resumedAt;
+    onProgress?.({ collection, copied, total });
+    while (copied < total) {
+        const batch = await source.scan(copied, batchSize);
+        if (batch.length === 0) {
+            break;
+        }
+        await target.insertSnapshots(batch.map(item => toSnapshot(item, deckIds)));
+        copied += batch.length;
+        onProgress?.({ collection, copied, total });
+    }
+
+    const [sourceChecksum, targetChecksum, targetCount] = await Promise.all([
+        checksumCollection(source, batchSize, deckIds),
+        checksumCollection(target, batchSize),
+        target.count()
+    ]);
+
+    return {
+        collection,
+        sourceCount: total,
+        targetCount,
+        resumedAt,
+        copied: copied - resumedAt,
+        sourceChecksum,
+        targetChecksum,
+        verified: total === targetCount && sourceChecksum === targetChecksum
+    };
+}
+
+/**
+ * SHA-256 over the content of every item, independent of item ids and order.
+ * Timestamps are compared to the second, the precision SQLite stores.
+ * @param deckIds Deck ids to hash in place of the stored ones, to compare with a copy whose decks have new ids
+ */
+export async function checksumCollection(
+    repository: ItemRepository,
+    batchSize: number = DEFAULT_COPY_BATCH_SIZE,
+    deckIds?: ReadonlyMap<string, string>
+): Promise<string> {
+    const itemHashes: string[] = [];
+    for (let offset = 0; ; offset += batchSize) {
+        const batch = await repository.scan(offset, batchSize);
+        itemHashes.push(...batch.map(item => sha256(canonicalJSON({
+            data: item.data,
+            used: item.used,
+            assignedTo: item.assignedTo ?? null,
+            createdBy: item.createdBy ?? null,
+            deckId: item.deckId !== undefined ? deckIds?.get(item.deckId) ?? item.deckId : null,
+            createdAt: item.createdAt ? toTimestamp(item.createdAt).toISOString().slice(0, 19) : null
+        }))));
+        if (batch.length < batchSize) {
+            break;
+        }
+    }
+    return sha256(itemHashes.sort().join('\n'));
+}
+
+/**
+ * SHA-256 over the content of every deck, independent of deck ids
+ */
+function checksumDecks(decks: ReadonlyArray<DeckView>): string {
+    return sha256(decks
+        .map(({ id, ...deck }) => sha256(canonicalJSON({
+            ...deck,
+            createdAt: deck.createdAt ? toTimestamp(deck.createdAt).toISOString().slice(0, 19) : null
+        })))
+        .sort()
+        .join('\n'));
+}
+
+/**
+ * The item without its id, moved to its deck's id in the target
+ */
+function toSnapshot(item: ItemView, deckIds: ReadonlyMap<string, string>): ItemSnapshot {
+    const { id, ...snapshot } = item;
+    if (item.deckId !== undefined && !deckIds.has(item.deckId)) {
+        throw new Error(`Item ${id} belongs to deck ${item.deckId}, which does not exist in the source`);
+    }
+    return {
+        ...snapshot,
+        ...(item.createdAt && { createdAt: toTimestamp(item.createdAt) }),
+        ...(item.deckId !== undefined && { deckId: deckIds.get(item.deckId) })
+    };
+}
+
+/**
+ * Read a stored timestamp. SQLite returns CURRENT_TIMESTAMP values as "YYYY-MM-DD HH:MM:SS" in UTC,
+ * which Date would otherwise parse as local time.
+ */
+function toTimestamp(value: Date | string): Date {
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)) {
+        return new Date(`${value.replace(' ', 'T')}Z`);
+    }
+    return new Date(value);
+}
+
+function canonicalJSON(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJSON).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, entry]) => entry !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJSON(entry)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function sha256(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+}
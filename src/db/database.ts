@@ -1,19 +1,53 @@
-import { Collection, MongoClient, ObjectId } from 'mongodb';
+import path from 'path';
+import { Db, MongoClient } from 'mongodb';
 import { Database } from 'sqlite';
 import { BaseItem } from '../models/base';
+import { ItemRepository } from './repositories/itemRepository';
+import { MongoItemRepository } from './repositories/mongoItemRepository';
+import { SQLiteItemRepository } from './repositories/sqliteItemRepository';
+import { getMigrationStatus, MigrationStatus, MigrationStep, runMigrations } from './migrations/migration';
+import { MONGO_MIGRATIONS, MongoMigrationStore } from './migrations/mongoMigrations';
+import { SQLITE_MIGRATIONS, SQLiteMigrationStore } from './migrations/sqliteMigrations';
+import { serializeStatements } from './transaction';
 
 export type DatabaseType = 'mongodb' | 'sqlite';
 
 export interface DatabaseConfig {
     type: DatabaseType;
     mongoUri?: string;
+    mongoDbName?: string;  // Defaults to MONGODB_DB, then events_db
     sqliteFile?: string;
+    autoMigrate?: boolean;  // Apply pending migrations on connect, defaults to true
 }
 
+/**
+ * Native handle of a connected database, for the stores that are not item repositories.
+ * Stores switch on type to run the MongoDB or the SQLite version of an operation.
+ */
+export type DatabaseBackend =
+    | { type: 'mongodb'; client: MongoClient; db: Db }
+    | { type: 'sqlite'; db: Database };
+
 export interface DatabaseClient {
+    /**
+     * Connect and, unless disabled, migrate the schema to the latest version
+     */
     connect(): Promise<void>;
     disconnect(): Promise<void>;
-    getCollection<T extends BaseItem>(name: string): Promise<Collection<T> | Database>;
+    /**
+     * Get the native handle of the database
+     * @throws Error if the client is not connected
+     */
+    backend(): DatabaseBackend;
+    /**
+     * Get the backend independent storage for an item collection (events, questions)
+     */
+    getItemRepository<T extends BaseItem = BaseItem>(name: string): ItemRepository<T>;
+    /**
+     * Migrate the schema up or down to a version, the latest version if none is given
+     */
+    migrate(targetVersion?: number): Promise<MigrationStep[]>;
+    getMigrationStatus(): Promise<MigrationStatus>;
     isConnected(): boolean;
 }
 
@@ -22,7 +56,7 @@ export class MongoDBClient implements DatabaseClient {
     private dbName: string;
     private isConnectedFlag: boolean = false;
 
-    constructor(mongoUri: string, dbName: string) {
+    constructor(mongoUri: string, dbName: string, private readonly autoMigrate: boolean = true) {
         this.client = new MongoClient(mongoUri);
         this.dbName = dbName;
     }
@@ -30,6 +64,9 @@ export class MongoDBClient implements DatabaseClient {
     async connect(): Promise<void> {
         await this.client.connect();
         this.isConnectedFlag = true;
+        if (this.autoMigrate) {
+            await this.migrate();
+        }
     }
 
     async disconnect(): Promise<void> {
@@ -37,8 +74,20 @@ export class MongoDBClient implements DatabaseClient {
         this.isConnectedFlag = false;
     }
 
-    async getCollection<T extends BaseItem>(name: string): Promise<Collection<T>> {
-        return this.client.db(this.dbName).collection<T>(name);
+    backend(): DatabaseBackend {
+        return { type: 'mongodb', client: this.client, db: this.client.db(this.dbName) };
+    }
+
+    getItemRepository<T extends BaseItem = BaseItem>(name: string): ItemRepository<T> {
+        return new MongoItemRepository<T>(this.client, this.client.db(this.dbName), name);
+    }
+
+    async migrate(targetVersion?: number): Promise<MigrationStep[]> {
+        return runMigrations(new MongoMigrationStore(this.client.db(this.dbName)), MONGO_MIGRATIONS, targetVersion);
+    }
+
+    async getMigrationStatus(): Promise<MigrationStatus> {
+        return getMigrationStatus(new MongoMigrationStore(this.client.db(this.dbName)), MONGO_MIGRATIONS);
     }
 
     isConnected(): boolean {
@@ -50,7 +99,7 @@ export class SQLiteClient implements DatabaseClient {
     private db: Database | null = null;
     private dbFile: string;
 
-    constructor(dbFile: string) {
+    constructor(dbFile: string, private readonly autoMigrate: boolean = true) {
         if (!dbFile) {
             throw new Error('sqlite: filename cannot be null / undefined');
         }
@@ -61,32 +110,13 @@ export class SQLiteClient implements DatabaseClient {
         const sqlite3 = require('sqlite3');
         const { open } = require('sqlite');
         
-        this.db = await open({
+        this.db = serializeStatements(await open({
             filename: this.dbFile,
             driver: sqlite3.Database
-        });
+        }));
         
-        // Create tables if they don't exist
-        if (this.db) {
-            await this.db.exec(`
-                CREATE TABLE IF NOT EXISTS events (
-                    id INTEGER PRIMARY KEY AUTOINCREMENT,
-                    data TEXT NOT NULL,
-                    used BOOLEAN DEFAULT FALSE,
-                    assignedTo TEXT,
-                    createdBy TEXT,
-                    createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
-                );
-                
-                CREATE TABLE IF NOT EXISTS questions (
-                    id INTEGER PRIMARY KEY AUTOINCREMENT,
-                    data TEXT NOT NULL,
-                    used BOOLEAN DEFAULT FALSE,
-                    assignedTo TEXT,
-                    createdBy TEXT,
-                    createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
-                );
-            `);
+        if (this.autoMigrate) {
+            await this.migrate();
         }
     }
 
@@ -97,11 +127,32 @@ export class SQLiteClient implements DatabaseClient {
         }
     }
 
-    async getCollection<T extends BaseItem>(name: string): Promise<Database> {
+    backend(): DatabaseBackend {
+        if (!this.db) {
+            throw new Error('Database not connected');
+        }
+        return { type: 'sqlite', db: this.db };
+    }
+
+    getItemRepository<T extends BaseItem = BaseItem>(name: string): ItemRepository<T> {
         if (!this.db) {
             throw new Error('Database not connected');
         }
-        return this.db;
+        return new SQLiteItemRepository<T>(this.db, name);
+    }
+
+    async migrate(targetVersion?: number): Promise<MigrationStep[]> {
+        if (!this.db) {
+            throw new Error('Database not connected');
+        }
+        return runMigrations(new SQLiteMigrationStore(this.db), SQLITE_MIGRATIONS, targetVersion);
+    }
+
+    async getMigrationStatus(): Promise<MigrationStatus> {
+        if (!this.db) {
+            throw new Error('Database not connected');
+        }
+        return getMigrationStatus(new SQLiteMigrationStore(this.db), SQLITE_MIGRATIONS);
     }
 
     isConnected(): boolean {
@@ -109,19 +160,40 @@ export class SQLiteClient implements DatabaseClient {
     }
 }
 
+/**
+ * Read the database configuration from DB_TYPE, MONGODB_URI and SQLITE_FILE
+ * @throws Error if a setting required by the selected database is missing
+ */
+export function loadDatabaseConfig(): DatabaseConfig {
+    const type = (process.env.DB_TYPE || 'mongodb') as DatabaseType;
+    const config: DatabaseConfig = {
+        type,
+        mongoUri: process.env.MONGODB_URI,
+        sqliteFile: type === 'sqlite' ? path.resolve(process.env.SQLITE_FILE || './data.db') : undefined
+    };
+
+    if (type === 'mongodb' && !config.mongoUri) {
+        throw new Error('Missing required MONGODB_URI environment variable');
+    }
+    if (type === 'sqlite' && !config.sqliteFile) {
+        throw new Error('Missing required SQLITE_FILE environment variable');
+    }
+    return config;
+}
+
 export function createDatabaseClient(config: DatabaseConfig): DatabaseClient {
     switch (config.type) {
         case 'mongodb':
             if (!config.mongoUri) {
                 throw new Error('MongoDB URI is required for MongoDB client');
             }
-            return new MongoDBClient(config.mongoUri, process.env.MONGODB_DB || 'events_db');
+            return new MongoDBClient(config.mongoUri, config.mongoDbName || process.env.MONGODB_DB || 'events_db', config.autoMigrate);
             
         case 'sqlite':
             if (!config.sqliteFile) {
                 throw new Error('SQLite file path is required for SQLite client');
             }
-            return new SQLiteClient(config.sqliteFile);
+            return new SQLiteClient(config.sqliteFile, config.autoMigrate);
             
         default:
             throw new Error(`Unsupported database type: ${config.type}`);
@@ -0,0 +1,233 @@
+import { ObjectId } from 'mongodb';
+import { DatabaseClient } from './database';
+import { Deck } from '../models/deck';
+import { GAME_COLLECTIONS } from '../config/collections';
+
+/**
+ * Deck as returned to API callers, with the backend specific id normalized to a string
+ */
+export interface DeckView {
+    id: string;
+    name: string;
+    theme?: string;
+    language?: string;
+    owner: string;
+    baseRatio: number;
+    createdAt?: Date;
+}
+
+export type NewDeck = Pick<Deck, 'name' | 'theme' | 'language'> & { baseRatio?: number };
+
+/**
+ * Create a new deck
+ * @param client Database client
+ * @param owner User ID creating and owning the deck
+ * @param deck Name, theme, language and base deck ratio of the deck
+ * @returns Object containing success status and the created deck
+ */
+export async function createDeck(
+    client: DatabaseClient,
+    owner: string,
+    deck: NewDeck
+): Promise<{ success: boolean; data: any }> {
+    try {
+        const backend = client.backend();
+        const created: Deck = {
+            name: deck.name,
+            ...(deck.theme !== undefined && { theme: deck.theme }),
+            ...(deck.language !== undefined && { language: deck.language }),
+            owner,
+            baseRatio: deck.baseRatio ?? 0,
+            createdAt: new Date()
+        };
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<Deck>(GAME_COLLECTIONS.decks);
+            const result = await collection.insertOne(created);
+
+            return {
+                success: true,
+                data: toDeckView({ ...created, _id: result.insertedId })
+            };
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const result = await db.run(
+                `INSERT INTO ${GAME_COLLECTIONS.decks} (name, theme, language, owner, baseRatio, createdAt) VALUES (?, ?, ?, ?, ?, ?)`,
+                [created.name, created.theme ?? null, created.language ?? null, owner, created.baseRatio, created.createdAt!.toISOString()]
+            );
+
+            const { _id, ...fields } = created;
+            return {
+                success: true,
+                data: { id: String(result.lastID), ...fields }
+            };
+        }
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.decks}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Find a deck by id
+ * @param client Database client
+ * @param deckId Deck ID as returned by createDeck
+ * @returns The deck, or null if no deck exists with this id
+ */
+export async function findDeck(
+    client: DatabaseClient,
+    deckId: string
+): Promise<DeckView | null> {
+    const backend = client.backend();
+
+    if (backend.type === 'mongodb') {
+        // MongoDB operations
+        const collection = backend.db.collection<Deck>(GAME_COLLECTIONS.decks);
+        if (!ObjectId.isValid(deckId)) {
+            return null;
+        }
+        const deck = await collection.findOne({ _id: new ObjectId(deckId) });
+        return deck ? toDeckView(deck) : null;
+    } else {
+        // SQLite operations
+        const db = backend.db;
+        const row = await db.get(
+            `SELECT * FROM ${GAME_COLLECTIONS.decks} WHERE id = ?`,
+            [deckId]
+        );
+        return row ? rowToDeckView(row) : null;
+    }
+}
+
+/**
+ * List decks, newest first
+ * @param client Database client
+ * @param owner Only list the decks of this user
+ * @returns Object containing success status and the decks
+ */
+export async function listDecks(
+    client: DatabaseClient,
+    owner?: string
+): Promise<{ success: boolean; data: any }> {
+    try {
+        const backend = client.backend();
+        let decks: DeckView[];
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<Deck>(GAME_COLLECTIONS.decks);
+            const documents = await collection
+                .find(owner !== undefined ? { owner } : {})
+                .sort({ createdAt: -1, _id: -1 })
+                .toArray();
+            decks = documents.map(toDeckView);
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const rows = owner !== undefined
+                ? await db.all(`SELECT * FROM ${GAME_COLLECTIONS.decks} WHERE owner = ? ORDER BY createdAt DESC, id DESC`, [owner])
+                : await db.all(`SELECT * FROM ${GAME_COLLECTIONS.decks} ORDER BY createdAt DESC, id DESC`);
+            decks = rows.map(rowToDeckView);
+        }
+
+        return {
+            success: true,
+            data: decks
+        };
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.decks}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Every deck in ascending id order, used to copy decks between databases
+ * @param client Database client
+ */
+export async function scanDecks(client: DatabaseClient): Promise<DeckView[]> {
+    try {
+        const backend = client.backend();
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<Deck>(GAME_COLLECTIONS.decks);
+            const documents = await collection.find().sort({ _id: 1 }).toArray();
+            return documents.map(toDeckView);
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const rows = await db.all(`SELECT * FROM ${GAME_COLLECTIONS.decks} ORDER BY id`);
+            return rows.map(rowToDeckView);
+        }
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.decks}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Insert a deck copied from another database, keeping its owner and creation time
+ * @param client Database client
+ * @param deck Deck without its id
+ * @returns Id of the inserted deck
+ */
+export async function insertDeckSnapshot(
+    client: DatabaseClient,
+    deck: Omit<DeckView, 'id'>
+): Promise<string> {
+    try {
+        const backend = client.backend();
+        const createdAt = deck.createdAt ? new Date(deck.createdAt) : new Date();
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<Deck>(GAME_COLLECTIONS.decks);
+            const result = await collection.insertOne({
+                name: deck.name,
+                ...(deck.theme !== undefined && { theme: deck.theme }),
+                ...(deck.language !== undefined && { language: deck.language }),
+                owner: deck.owner,
+                baseRatio: deck.baseRatio,
+                createdAt
+            });
+            return result.insertedId.toHexString();
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const result = await db.run(
+                `INSERT INTO ${GAME_COLLECTIONS.decks} (name, theme, language, owner, baseRatio, createdAt) VALUES (?, ?, ?, ?, ?, ?)`,
+                [deck.name, deck.theme ?? null, deck.language ?? null, deck.owner, deck.baseRatio, createdAt.toISOString()]
+            );
+            return String(result.lastID);
+        }
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.decks}:`, error);
+        throw error;
+    }
+}
+
+function toDeckView(deck: Deck): DeckView {
+    return {
+        id: deck._id!.toHexString(),
+        name: deck.name,
+        ...(deck.theme !== undefined && { theme: deck.theme }),
+        ...(deck.language !== undefined && { language: deck.language }),
+        owner: deck.owner,
+        baseRatio: deck.baseRatio,
+        createdAt: deck.createdAt
+    };
+}
+
+function rowToDeckView(row: any): DeckView {
+    return {
+        id: String(row.id),
+        name: row.name,
+        ...(row.theme !== null && { theme: row.theme }),
+        ...(row.language !== null && { language: row.language }),
+        owner: row.owner,
+        baseRatio: row.baseRatio,
+        createdAt: new Date(row.createdAt)
+    };
+}
@@ -0,0 +1,201 @@
+import { DatabaseClient } from './database';
+import { runTransaction, TransactionScope, withTransaction } from './transaction';
+import { Holding, PlayerPosition, PlayerState } from '../models/game';
+import { GAME_COLLECTIONS } from '../config/collections';
+
+export type HoldingView = Pick<Holding, 'space' | 'ownerId' | 'houses'>;
+
+/**
+ * Positions and holdings of a game's players
+ */
+export interface GameStateView {
+    players: PlayerPosition[];
+    holdings: HoldingView[];
+}
+
+/**
+ * Load where a game's players are and what they own.
+ * Players that have not moved yet are on the first space.
+ * @param client Database client
+ * @param gameId Game ID as returned by createGame
+ * @param players Player user IDs of the game
+ */
+export async function loadGameState(
+    client: DatabaseClient,
+    gameId: string,
+    players: ReadonlyArray<string>
+): Promise<GameStateView> {
+    try {
+        const backend = client.backend();
+        let stored: PlayerPosition[];
+        let holdings: HoldingView[];
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const states = backend.db.collection<PlayerState>(GAME_COLLECTIONS.playerStates);
+            const documents = await states.find({ gameId }).toArray();
+            stored = documents.map(({ userId, position, inJail, jailCards }) => ({ userId, position, inJail, jailCards }));
+
+            const holdingCollection = backend.db.collection<Holding>(GAME_COLLECTIONS.holdings);
+            const owned = await holdingCollection.find({ gameId }).sort({ space: 1 }).toArray();
+            holdings = owned.map(({ space, ownerId, houses }) => ({ space, ownerId, houses }));
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const rows = await db.all(
+                `SELECT userId, position, inJail, jailCards FROM ${GAME_COLLECTIONS.playerStates} WHERE gameId = ?`,
+                [gameId]
+            );
+            stored = rows.map(row => ({
+                userId: row.userId,
+                position: row.position,
+                inJail: Boolean(row.inJail),
+                jailCards: row.jailCards
+            }));
+            holdings = await db.all(
+                `SELECT space, ownerId, houses FROM ${GAME_COLLECTIONS.holdings} WHERE gameId = ? ORDER BY space`,
+                [gameId]
+            );
+        }
+
+        const byUser = new Map(stored.map(state => [state.userId, state]));
+        return {
+            players: players.map(userId => byUser.get(userId) ?? { userId, position: 0, inJail: false, jailCards: 0 }),
+            holdings
+        };
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.playerStates}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Store new positions and jail states of players
+ * @param client Database client
+ * @param gameId Game ID as returned by createGame
+ * @param players Players whose state changed
+ */
+export async function savePlayerStates(
+    client: DatabaseClient,
+    gameId: string,
+    players: ReadonlyArray<PlayerPosition>
+): Promise<void> {
+    if (players.length === 0) {
+        return;
+    }
+    try {
+        const backend = client.backend();
+        const updatedAt = new Date();
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<PlayerState>(GAME_COLLECTIONS.playerStates);
+            await collection.bulkWrite(players.map(({ userId, position, inJail, jailCards }) => ({
+                updateOne: {
+                    filter: { gameId, userId },
+                    update: { $set: { position, inJail, jailCards, updatedAt } },
+                    upsert: true
+                }
+            })));
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            await withTransaction(db, async () => {
+                for (const { userId, position, inJail, jailCards } of players) {
+                    await db.run(
+                        `INSERT INTO ${GAME_COLLECTIONS.playerStates} (gameId, userId, position, inJail, jailCards, updatedAt)
+                        VALUES (?, ?, ?, ?, ?, ?)
+                        ON CONFLICT (gameId, userId) DO UPDATE SET
+                            position = excluded.position,
+                            inJail = excluded.inJail,
+                            jailCards = excluded.jailCards,
+                            updatedAt = excluded.updatedAt`,
+                        [gameId, userId, position, inJail, jailCards, updatedAt.toISOString()]
+                    );
+                }
+            });
+        }
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.playerStates}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Find who owns a space in a game
+ * @returns The holding, or null if nobody owns the space
+ */
+export async function findHolding(
+    client: DatabaseClient,
+    gameId: string,
+    space: string
+): Promise<HoldingView | null> {
+    const backend = client.backend();
+
+    if (backend.type === 'mongodb') {
+        // MongoDB operations
+        const collection = backend.db.collection<Holding>(GAME_COLLECTIONS.holdings);
+        const holding = await collection.findOne({ gameId, space });
+        return holding ? { space: holding.space, ownerId: holding.ownerId, houses: holding.houses } : null;
+    } else {
+        // SQLite operations
+        const db = backend.db;
+        const row = await db.get(
+            `SELECT space, ownerId, houses FROM ${GAME_COLLECTIONS.holdings} WHERE gameId = ? AND space = ?`,
+            [gameId, space]
+        );
+        return row ?? null;
+    }
+}
+
+/**
+ * Give a space to a player. Buildings on the space stay with it.
+ * @param client Database client
+ * @param gameId Game ID as returned by createGame
+ * @param space Name of the board space
+ * @param ownerId New owner
+ */
+export async function transferHolding(
+    client: DatabaseClient,
+    gameId: string,
+    space: string,
+    ownerId: string
+): Promise<void> {
+    try {
+        await runTransaction(client, scope => transferHoldingInTransaction(scope, gameId, space, ownerId));
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.holdings}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Give a space to a player as part of a larger transaction, e.g. together with the payment for it
+ * @param scope Transaction to write in, as given by runTransaction
+ */
+export async function transferHoldingInTransaction(
+    scope: TransactionScope,
+    gameId: string,
+    space: string,
+    ownerId: string
+): Promise<void> {
+    const updatedAt = new Date();
+
+    if (scope.type === 'mongodb') {
+        // MongoDB operations
+        const collection = scope.db.collection<Holding>(GAME_COLLECTIONS.holdings);
+        await collection.updateOne(
+            { gameId, space },
+            { $set: { ownerId, updatedAt }, $setOnInsert: { houses: 0 } },
+            { upsert: true, session: scope.session }
+        );
+    } else {
+        // SQLite operations
+        await scope.db.run(
+            `INSERT INTO ${GAME_COLLECTIONS.holdings} (gameId, space, ownerId, houses, updatedAt)
+            VALUES (?, ?, ?, 0, ?)
+            ON CONFLICT (gameId, space) DO UPDATE SET ownerId = excluded.ownerId, updatedAt = excluded.updatedAt`,
+            [gameId, space, ownerId, updatedAt.toISOString()]
+        );
+    }
+}
@@ -0,0 +1,184 @@
+import { ObjectId } from 'mongodb';
+import { DatabaseClient } from './database';
+import { Game, GameDraw } from '../models/game';
+import { GAME_COLLECTIONS } from '../config/collections';
+
+/**
+ * Game as returned to API callers, with the backend specific id normalized to a string
+ */
+export interface GameView {
+    id: string;
+    name?: string;
+    players: string[];
+    seed?: string;
+    createdBy?: string;
+    createdAt?: Date;
+}
+
+/**
+ * Create a new game session
+ * @param client Database client
+ * @param userId User ID creating the game
+ * @param players Player user IDs taking part in the game
+ * @param name Optional display name of the game
+ * @param seed Optional seed that makes every draw in the game reproducible
+ * @returns Object containing success status and the created game
+ */
+export async function createGame(
+    client: DatabaseClient,
+    userId: string,
+    players: string[],
+    name?: string,
+    seed?: string
+): Promise<{ success: boolean; data: any }> {
+    try {
+        const backend = client.backend();
+        const createdAt = new Date();
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<Game>(GAME_COLLECTIONS.games);
+            const game: Game = {
+                ...(name !== undefined && { name }),
+                players,
+                ...(seed !== undefined && { seed }),
+                createdBy: userId,
+                createdAt
+            };
+            const result = await collection.insertOne(game);
+
+            return {
+                success: true,
+                data: toGameView({ ...game, _id: result.insertedId })
+            };
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const result = await db.run(
+                `INSERT INTO ${GAME_COLLECTIONS.games} (name, players, seed, createdBy, createdAt) VALUES (?, ?, ?, ?, ?)`,
+                [name ?? null, JSON.stringify(players), seed ?? null, userId, createdAt.toISOString()]
+            );
+
+            return {
+                success: true,
+                data: {
+                    id: String(result.lastID),
+                    ...(name !== undefined && { name }),
+                    players,
+                    ...(seed !== undefined && { seed }),
+                    createdBy: userId,
+                    createdAt
+                }
+            };
+        }
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.games}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Find a game by id
+ * @param client Database client
+ * @param gameId Game ID as returned by createGame
+ * @returns The game, or null if no game exists with this id
+ */
+export async function findGame(
+    client: DatabaseClient,
+    gameId: string
+): Promise<GameView | null> {
+    const backend = client.backend();
+
+    if (backend.type === 'mongodb') {
+        // MongoDB operations
+        const collection = backend.db.collection<Game>(GAME_COLLECTIONS.games);
+        if (!ObjectId.isValid(gameId)) {
+            return null;
+        }
+        const game = await collection.findOne({ _id: new ObjectId(gameId) });
+        return game ? toGameView(game) : null;
+    } else {
+        // SQLite operations
+        const db = backend.db;
+        const row = await db.get(
+            `SELECT * FROM ${GAME_COLLECTIONS.games} WHERE id = ?`,
+            [gameId]
+        );
+        if (!row) {
+            return null;
+        }
+        return {
+            id: String(row.id),
+            ...(row.name !== null && { name: row.name }),
+            players: JSON.parse(row.players),
+            ...(row.seed != null && { seed: row.seed }),
+            createdBy: row.createdBy ?? undefined,
+            createdAt: new Date(row.createdAt)
+        };
+    }
+}
+
+/**
+ * Get a game together with how many items it has drawn per collection
+ * @param client Database client
+ * @param gameId Game ID as returned by createGame
+ * @returns Object containing success status and game data/error message
+ */
+export async function getGame(
+    client: DatabaseClient,
+    gameId: string
+): Promise<{ success: boolean; data: any }> {
+    try {
+        const game = await findGame(client, gameId);
+        if (!game) {
+            return {
+                success: false,
+                data: { error: `Game ${gameId} not found` }
+            };
+        }
+
+        const backend = client.backend();
+        const draws: Record<string, number> = {};
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<GameDraw>(GAME_COLLECTIONS.gameDraws);
+            const counts = await collection.aggregate<{ _id: string; count: number }>([
+                { $match: { gameId: game.id } },
+                { $group: { _id: '$collection', count: { $sum: 1 } } }
+            ]).toArray();
+            for (const { _id, count } of counts) {
+                draws[_id] = count;
+            }
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const rows = await db.all(
+                `SELECT collection, COUNT(*) as count FROM ${GAME_COLLECTIONS.gameDraws} WHERE gameId = ? GROUP BY collection`,
+                [game.id]
+            );
+            for (const row of rows) {
+                draws[row.collection] = row.count;
+            }
+        }
+
+        return {
+            success: true,
+            data: { ...game, draws }
+        };
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.games}:`, error);
+        throw error;
+    }
+}
+
+function toGameView(game: Game): GameView {
+    return {
+        id: game._id!.toHexString(),
+        ...(game.name !== undefined && { name: game.name }),
+        players: game.players,
+        ...(game.seed !== undefined && { seed: game.seed }),
+        createdBy: game.createdBy,
+        createdAt: game.createdAt
+    };
+}
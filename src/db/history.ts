@@ -0,0 +1,169 @@
+import { Filter } from 'mongodb';
+import { DatabaseClient } from './database';
+import { pageBounds } from './repositories/itemRepository';
+import { HistoryAction, HistoryEntry } from '../models/history';
+import { GAME_COLLECTIONS } from '../config/collections';
+
+/**
+ * History entry as returned to API callers, with the backend specific id normalized to a string
+ */
+export interface HistoryView extends Omit<HistoryEntry, '_id'> {
+    id: string;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, '_id' | 'createdAt'>;
+
+export interface HistoryFilter {
+    userId?: string;
+    gameId?: string;
+    collection?: string;
+    action?: HistoryAction;
+    from?: Date;  // Inclusive
+    to?: Date;  // Exclusive
+    page?: number;  // 1-based
+    limit?: number;
+}
+
+/**
+ * Append entries to the history. Entries are never changed or removed afterwards.
+ * @param client Database client
+ * @param entries What happened, to which item, by whom and through which route
+ */
+export async function appendHistory(
+    client: DatabaseClient,
+    entries: ReadonlyArray<NewHistoryEntry>
+): Promise<void> {
+    if (entries.length === 0) {
+        return;
+    }
+    try {
+        const backend = client.backend();
+        const createdAt = new Date();
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<HistoryEntry>(GAME_COLLECTIONS.history);
+            await collection.insertMany(entries.map(entry => ({ ...stripUndefined(entry), createdAt })));
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            for (const entry of entries) {
+                await db.run(
+                    `INSERT INTO ${GAME_COLLECTIONS.history}
+                    (action, collection, itemId, userId, gameId, deckId, route, data, createdAt)
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    [
+                        entry.action,
+                        entry.collection,
+                        entry.itemId,
+                        entry.userId ?? null,
+                        entry.gameId ?? null,
+                        entry.deckId ?? null,
+                        entry.route,
+                        entry.data !== undefined ? JSON.stringify(entry.data) : null,
+                        createdAt.toISOString()
+                    ]
+                );
+            }
+        }
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.history}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * List history entries, newest first
+ * @param client Database client
+ * @param filter User, game, collection, action and time range to filter by, and the page to return
+ * @returns Object containing success status and the page of entries with the total count
+ */
+export async function listHistory(
+    client: DatabaseClient,
+    filter: HistoryFilter = {}
+): Promise<{ success: boolean; data: any }> {
+    try {
+        const backend = client.backend();
+        const { page, limit } = pageBounds(filter);
+        let entries: HistoryView[];
+        let total: number;
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<HistoryEntry>(GAME_COLLECTIONS.history);
+            const query: Filter<HistoryEntry> = {
+                ...(filter.userId !== undefined && { userId: filter.userId }),
+                ...(filter.gameId !== undefined && { gameId: filter.gameId }),
+                ...(filter.collection !== undefined && { collection: filter.collection }),
+                ...(filter.action !== undefined && { action: filter.action }),
+                ...((filter.from || filter.to) && {
+                    createdAt: {
+                        ...(filter.from && { $gte: filter.from }),
+                        ...(filter.to && { $lt: filter.to })
+                    }
+                })
+            };
+            total = await collection.countDocuments(query);
+            const documents = await collection.find(query)
+                .sort({ createdAt: -1, _id: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .toArray();
+            entries = documents.map(({ _id, ...entry }) => ({ id: _id!.toHexString(), ...entry }));
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const conditions: string[] = [];
+            const params: any[] = [];
+            for (const field of ['userId', 'gameId', 'collection', 'action'] as const) {
+                if (filter[field] !== undefined) {
+                    conditions.push(`${field} = ?`);
+                    params.push(filter[field]);
+                }
+            }
+            // Timestamps are stored as ISO strings, which sort in time order
+            if (filter.from) {
+                conditions.push('createdAt >= ?');
+                params.push(filter.from.toISOString());
+            }
+            if (filter.to) {
+                conditions.push('createdAt < ?');
+                params.push(filter.to.toISOString());
+            }
+            const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+            const count = await db.get(`SELECT COUNT(*) as count FROM ${GAME_COLLECTIONS.history} ${where}`, params);
+            total = count.count;
+            const rows = await db.all(
+                `SELECT * FROM ${GAME_COLLECTIONS.history} ${where}
+                ORDER BY createdAt DESC, id DESC
+                LIMIT ? OFFSET ?`,
+                [...params, limit, (page - 1) * limit]
+            );
+            entries = rows.map(row => ({
+                id: String(row.id),
+                action: row.action,
+                collection: row.collection,
+                itemId: row.itemId,
+                ...(row.userId !== null && { userId: row.userId }),
+                ...(row.gameId !== null && { gameId: row.gameId }),
+                ...(row.deckId !== null && { deckId: row.deckId }),
+                route: row.route,
+                ...(row.data !== null && { data: JSON.parse(row.data) }),
+                createdAt: new Date(row.createdAt)
+            }));
+        }
+
+        return {
+            success: true,
+            data: { entries, total, page, limit }
+        };
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.history}:`, error);
+        throw error;
+    }
+}
+
+function stripUndefined<T extends object>(entry: T): T {
+    return Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)) as T;
+}
@@ -0,0 +1,363 @@
+import { Database } from 'sqlite';
+import { DatabaseClient } from './database';
+import { runTransaction, TransactionScope } from './transaction';
+import { pageBounds } from './repositories/itemRepository';
+import { LedgerTransaction, PlayerBalance } from '../models/ledger';
+import { GAME_COLLECTIONS } from '../config/collections';
+import { STARTING_BALANCE } from '../config/economy';
+
+/**
+ * Balance as returned to API callers
+ */
+export interface BalanceView {
+    userId: string;
+    balance: number;
+    bankrupt: boolean;
+    updatedAt?: Date;
+}
+
+/**
+ * Ledger transaction as returned to API callers, with the backend specific id normalized to a string
+ */
+export interface TransactionView extends Omit<LedgerTransaction, '_id'> {
+    id: string;
+}
+
+export type NewTransaction = Omit<LedgerTransaction, '_id' | 'balanceAfter' | 'createdAt'>;
+
+/**
+ * Outcome of posting a transaction
+ */
+export interface Posting {
+    transaction: TransactionView;
+    balance: BalanceView;
+    bankrupted: boolean;  // The transaction made the player bankrupt
+}
+
+export interface TransactionFilter {
+    userId?: string;
+    page?: number;  // 1-based
+    limit?: number;
+}
+
+/**
+ * Give players their opening balance in a game. Players that already have a balance are left as they are.
+ * @param client Database client
+ * @param gameId Game ID as returned by createGame
+ * @param players Player user IDs of the game
+ * @param startingBalance Opening balance of every player
+ */
+export async function openBalances(
+    client: DatabaseClient,
+    gameId: string,
+    players: ReadonlyArray<string>,
+    startingBalance: number = STARTING_BALANCE
+): Promise<void> {
+    try {
+        for (const userId of players) {
+            await runTransaction(client, scope => openBalance(scope, gameId, userId, startingBalance));
+        }
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.balances}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Apply a transaction to a player's balance and add it to the game's ledger.
+ * A player without a balance yet, e.g. in a game created before the ledger existed, opens with STARTING_BALANCE.
+ * @param client Database client
+ * @param entry Game, player, type and signed amount of the transaction
+ * @returns The stored transaction, the new balance and whether the player just went bankrupt
+ */
+export async function postTransaction(
+    client: DatabaseClient,
+    entry: NewTransaction
+): Promise<Posting> {
+    try {
+        return await runTransaction(client, scope => postInTransaction(scope, entry));
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.transactions}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Post a transaction as part of a larger one, so the balance, the bankrupt flag and the ledger
+ * change together with the caller's other writes
+ * @param scope Transaction to write in, as given by runTransaction
+ * @param entry Game, player, type and signed amount of the transaction
+ */
+export async function postInTransaction(
+    scope: TransactionScope,
+    entry: NewTransaction
+): Promise<Posting> {
+    await openBalance(scope, entry.gameId, entry.userId, STARTING_BALANCE);
+    const createdAt = new Date();
+
+    if (scope.type === 'mongodb') {
+        // MongoDB operations
+        const { session } = scope;
+        const balances = scope.db.collection<PlayerBalance>(GAME_COLLECTIONS.balances);
+        const current = await balances.findOne({ gameId: entry.gameId, userId: entry.userId }, { session });
+        if (!current) {
+            throw new Error(`No balance for user ${entry.userId} in game ${entry.gameId}`);
+        }
+        const balance = current.balance + entry.amount;
+        const bankrupted = balance < 0 && !current.bankrupt;
+
+        await balances.updateOne(
+            { gameId: entry.gameId, userId: entry.userId },
+            { $set: { balance, bankrupt: current.bankrupt || bankrupted, updatedAt: createdAt } },
+            { session }
+        );
+        const transactions = scope.db.collection<LedgerTransaction>(GAME_COLLECTIONS.transactions);
+        const transaction: LedgerTransaction = { ...stripUndefined(entry), balanceAfter: balance, createdAt };
+        const result = await transactions.insertOne(transaction, { session });
+
+        return {
+            transaction: { id: result.insertedId.toHexString(), ...stripUndefined(entry), balanceAfter: balance, createdAt },
+            balance: {
+                userId: entry.userId,
+                balance,
+                bankrupt: current.bankrupt || bankrupted,
+                updatedAt: createdAt
+            },
+            bankrupted
+        };
+    } else {
+        // SQLite operations
+        const db = scope.db;
+        const current = await db.get(
+            `SELECT balance, bankrupt FROM ${GAME_COLLECTIONS.balances} WHERE gameId = ? AND userId = ?`,
+            [entry.gameId, entry.userId]
+        );
+        const balance = current.balance + entry.amount;
+        const bankrupted = balance < 0 && !current.bankrupt;
+
+        await db.run(
+            `UPDATE ${GAME_COLLECTIONS.balances} SET balance = ?, bankrupt = ?, updatedAt = ?
+            WHERE gameId = ? AND userId = ?`,
+            [balance, Boolean(current.bankrupt) || bankrupted, createdAt.toISOString(), entry.gameId, entry.userId]
+        );
+        const id = await insertSqliteTransaction(db, entry, balance, createdAt);
+
+        return {
+            transaction: { id, ...stripUndefined(entry), balanceAfter: balance, createdAt },
+            balance: {
+                userId: entry.userId,
+                balance,
+                bankrupt: Boolean(current.bankrupt) || bankrupted,
+                updatedAt: createdAt
+            },
+            bankrupted
+        };
+    }
+}
+
+/**
+ * A player's balance as the transaction sees it, STARTING_BALANCE for a player without one yet
+ * @param scope Transaction to read in, as given by runTransaction
+ */
+export async function readBalance(
+    scope: TransactionScope,
+    gameId: string,
+    userId: string
+): Promise<number> {
+    if (scope.type === 'mongodb') {
+        // MongoDB operations
+        const balances = scope.db.collection<PlayerBalance>(GAME_COLLECTIONS.balances);
+        const balance = await balances.findOne({ gameId, userId }, { session: scope.session });
+        return balance?.balance ?? STARTING_BALANCE;
+    } else {
+        // SQLite operations
+        const row = await scope.db.get(
+            `SELECT balance FROM ${GAME_COLLECTIONS.balances} WHERE gameId = ? AND userId = ?`,
+            [gameId, userId]
+        );
+        return row?.balance ?? STARTING_BALANCE;
+    }
+}
+
+/**
+ * List the balances of a game's players
+ * @param client Database client
+ * @param gameId Game ID as returned by createGame
+ * @param players Player user IDs of the game; players without a ledger entry yet are shown with STARTING_BALANCE
+ * @returns Object containing success status and one balance per player, in player order
+ */
+export async function listBalances(
+    client: DatabaseClient,
+    gameId: string,
+    players: ReadonlyArray<string>
+): Promise<{ success: boolean; data: any }> {
+    try {
+        const backend = client.backend();
+        let stored: BalanceView[];
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<PlayerBalance>(GAME_COLLECTIONS.balances);
+            const documents = await collection.find({ gameId }).toArray();
+            stored = documents.map(({ userId, balance, bankrupt, updatedAt }) => ({ userId, balance, bankrupt, updatedAt }));
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const rows = await db.all(
+                `SELECT userId, balance, bankrupt, updatedAt FROM ${GAME_COLLECTIONS.balances} WHERE gameId = ?`,
+                [gameId]
+            );
+            stored = rows.map(row => ({
+                userId: row.userId,
+                balance: row.balance,
+                bankrupt: Boolean(row.bankrupt),
+                updatedAt: new Date(row.updatedAt)
+            }));
+        }
+
+        const byUser = new Map(stored.map(balance => [balance.userId, balance]));
+        return {
+            success: true,
+            data: {
+                gameId,
+                balances: players.map(userId => byUser.get(userId) ?? { userId, balance: STARTING_BALANCE, bankrupt: false })
+            }
+        };
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.balances}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * List a game's ledger, oldest transaction first
+ * @param client Database client
+ * @param gameId Game ID as returned by createGame
+ * @param filter Player to filter by, and the page to return
+ * @returns Object containing success status and the page of transactions with the total count
+ */
+export async function listTransactions(
+    client: DatabaseClient,
+    gameId: string,
+    filter: TransactionFilter = {}
+): Promise<{ success: boolean; data: any }> {
+    try {
+        const backend = client.backend();
+        const { page, limit } = pageBounds(filter);
+        let transactions: TransactionView[];
+        let total: number;
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<LedgerTransaction>(GAME_COLLECTIONS.transactions);
+            const query = { gameId, ...(filter.userId !== undefined && { userId: filter.userId }) };
+            total = await collection.countDocuments(query);
+            const documents = await collection.find(query)
+                .sort({ createdAt: 1, _id: 1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .toArray();
+            transactions = documents.map(({ _id, ...transaction }) => ({ id: _id!.toHexString(), ...transaction }));
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const where = filter.userId !== undefined ? 'WHERE gameId = ? AND userId = ?' : 'WHERE gameId = ?';
+            const params = filter.userId !== undefined ? [gameId, filter.userId] : [gameId];
+
+            const count = await db.get(`SELECT COUNT(*) as count FROM ${GAME_COLLECTIONS.transactions} ${where}`, params);
+            total = count.count;
+            const rows = await db.all(
+                `SELECT * FROM ${GAME_COLLECTIONS.transactions} ${where} ORDER BY id LIMIT ? OFFSET ?`,
+                [...params, limit, (page - 1) * limit]
+            );
+            transactions = rows.map(row => ({
+                id: String(row.id),
+                gameId: row.gameId,
+                userId: row.userId,
+                type: row.type,
+                amount: row.amount,
+                balanceAfter: row.balanceAfter,
+                ...(row.collection !== null && { collection: row.collection }),
+                ...(row.itemId !== null && { itemId: row.itemId }),
+                ...(row.description !== null && { description: row.description }),
+                createdAt: new Date(row.createdAt)
+            }));
+        }
+
+        return {
+            success: true,
+            data: { gameId, transactions, total, page, limit }
+        };
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.transactions}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Create a player's balance with an opening transaction, unless the player already has one
+ */
+async function openBalance(
+    scope: TransactionScope,
+    gameId: string,
+    userId: string,
+    startingBalance: number
+): Promise<void> {
+    const opening: NewTransaction = { gameId, userId, type: 'opening', amount: startingBalance };
+    const createdAt = new Date();
+
+    if (scope.type === 'mongodb') {
+        // MongoDB operations
+        const { session } = scope;
+        const balances = scope.db.collection<PlayerBalance>(GAME_COLLECTIONS.balances);
+        const result = await balances.updateOne(
+            { gameId, userId },
+            { $setOnInsert: { balance: startingBalance, bankrupt: false, updatedAt: createdAt } },
+            { upsert: true, session }
+        );
+        if (result.upsertedCount === 1) {
+            const transactions = scope.db.collection<LedgerTransaction>(GAME_COLLECTIONS.transactions);
+            await transactions.insertOne({ ...opening, balanceAfter: startingBalance, createdAt }, { session });
+        }
+    } else {
+        // SQLite operations
+        const db = scope.db;
+        const result = await db.run(
+            `INSERT OR IGNORE INTO ${GAME_COLLECTIONS.balances} (gameId, userId, balance, bankrupt, updatedAt)
+            VALUES (?, ?, ?, ?, ?)`,
+            [gameId, userId, startingBalance, false, createdAt.toISOString()]
+        );
+        if (result.changes) {
+            await insertSqliteTransaction(db, opening, startingBalance, createdAt);
+        }
+    }
+}
+
+async function insertSqliteTransaction(
+    db: Database,
+    entry: NewTransaction,
+    balanceAfter: number,
+    createdAt: Date
+): Promise<string> {
+    const result = await db.run(
+        `INSERT INTO ${GAME_COLLECTIONS.transactions}
+        (gameId, userId, type, amount, balanceAfter, collection, itemId, description, createdAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            entry.gameId,
+            entry.userId,
+            entry.type,
+            entry.amount,
+            balanceAfter,
+            entry.collection ?? null,
+            entry.itemId ?? null,
+            entry.description ?? null,
+            createdAt.toISOString()
+        ]
+    );
+    return String(result.lastID);
+}
+
+function stripUndefined<T extends object>(entry: T): T {
+    return Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)) as T;
+}
@@ -0,0 +1,109 @@
+export type MigrationDirection = 'up' | 'down';
+
+/**
+ * One numbered schema change. Versions start at 1 and are applied in ascending order.
+ */
+export interface Migration<C> {
+    version: number;
+    name: string;
+    up(context: C): Promise<void>;
+    down(context: C): Promise<void>;
+}
+
+export interface MigrationStep {
+    version: number;
+    name: string;
+    direction: MigrationDirection;
+}
+
+export interface MigrationStatus {
+    current: number;
+    latest: number;
+    pending: Array<{ version: number; name: string }>;
+}
+
+/**
+ * Backend specific bookkeeping of which migrations have been applied
+ */
+export interface MigrationStore<C> {
+    currentVersion(): Promise<number>;
+    /**
+     * Run one migration in the given direction and record the resulting version
+     */
+    apply(migration: Migration<C>, direction: MigrationDirection): Promise<void>;
+}
+
+/**
+ * Highest version in a migration list, 0 for an empty list
+ */
+export function latestVersion<C>(migrations: ReadonlyArray<Migration<C>>): number {
+    return migrations.reduce((latest, migration) => Math.max(latest, migration.version), 0);
+}
+
+/**
+ * Get the current and latest version of a schema and the migrations not applied yet
+ */
+export async function getMigrationStatus<C>(
+    store: MigrationStore<C>,
+    migrations: ReadonlyArray<Migration<C>>
+): Promise<MigrationStatus> {
+    const current = await store.currentVersion();
+    return {
+        current,
+        latest: latestVersion(migrations),
+        pending: migrations
+            .filter(migration => migration.version > current)
+            .map(({ version, name }) => ({ version, name }))
+    };
+}
+
+/**
+ * Migrate a schema up or down to the target version, one migration at a time
+ * @param store Bookkeeping for the backend being migrated
+ * @param migrations All migrations of the backend
+ * @param target Version to end at, defaults to the latest version
+ * @returns The steps that were applied, in order
+ */
+export async function runMigrations<C>(
+    store: MigrationStore<C>,
+    migrations: ReadonlyArray<Migration<C>>,
+    target: number = latestVersion(migrations)
+): Promise<MigrationStep[]> {
+    checkMigrations(migrations);
+    const latest = latestVersion(migrations);
+    if (!Number.isInteger(target) || target < 0 || target > latest) {
+        throw new Error(`Migration target must be a version between 0 and ${latest}, got ${target}`);
+    }
+
+    const current = await store.currentVersion();
+    const plan: Array<{ migration: Migration<C>; direction: MigrationDirection }> = target >= current
+        ? migrations
+            .filter(migration => migration.version > current && migration.version <= target)
+            .sort((a, b) => a.version - b.version)
+            .map(migration => ({ migration, direction: 'up' as const }))
+        : migrations
+            .filter(migration => migration.version <= current && migration.version > target)
+            .sort((a, b) => b.version - a.version)
+            .map(migration => ({ migration, direction: 'down' as const }));
+
+    const steps: MigrationStep[] = [];
+    for (const { migration, direction } of plan) {
+        await store.apply(migration, direction);
+        console.log(`Migrated ${direction} ${migration.version} ${migration.name}`);
+        steps.push({ version: migration.version, name: migration.name, direction });
+    }
+    return steps;
+}
+
+function checkMigrations<C>(migrations: ReadonlyArray<Migration<C>>): void {
+    const seen = new Set<number>();
+    for (const { version, name } of migrations) {
+        if (!Number.isInteger(version) || version < 1) {
+            throw new Error(`Migration ${name} must have a positive integer version, got ${version}`);
+        }
+        if (seen.has(version)) {
+            throw new Error(`Duplicate migration version ${version}`);
+        }
+        seen.add(version);
+    }
+}
@@ -0,0 +1,252 @@
+import { Db, MongoServerError, ObjectId } from 'mongodb';
+import { COLLECTIONS, GAME_COLLECTIONS } from '../../config/collections';
+import { Migration, MigrationDirection, MigrationStore } from './migration';
+
+export const SCHEMA_VERSION_COLLECTION = 'schema_version';
+
+// MongoDB error code for dropping an index that does not exist
+const INDEX_NOT_FOUND_ERROR = 27;
+
+interface SchemaVersion {
+    version: number;
+    name: string;
+    appliedAt: Date;
+}
+
+const ITEM_COLLECTIONS = Object.values(COLLECTIONS).map(collection => collection.name);
+
+/**
+ * MongoDB creates collections on first write, so its migrations only manage indexes.
+ * Never edit a migration that has been released, add a new one instead.
+ */
+export const MONGO_MIGRATIONS: ReadonlyArray<Migration<Db>> = [
+    {
+        version: 1,
+        name: 'unique_game_draws',
+        up: async db => {
+            // A game may draw each item only once per round
+            await db.collection(GAME_COLLECTIONS.gameDraws).createIndex(
+                { gameId: 1, collection: 1, itemId: 1 },
+                { unique: true }
+            );
+        },
+        down: async db => {
+            await dropIndex(db, GAME_COLLECTIONS.gameDraws, 'gameId_1_collection_1_itemId_1');
+        }
+    },
+    {
+        version: 2,
+        name: 'unique_deck_versions',
+        up: async db => {
+            await db.collection(GAME_COLLECTIONS.deckVersions).createIndex(
+                { collection: 1, userId: 1 },
+                { unique: true }
+            );
+        },
+        down: async db => {
+            await dropIndex(db, GAME_COLLECTIONS.deckVersions, 'collection_1_userId_1');
+        }
+    },
+    {
+        version: 3,
+        name: 'add_lookup_indexes',
+        up: async db => {
+            for (const name of ITEM_COLLECTIONS) {
+                await db.collection(name).createIndex({ used: 1, assignedTo: 1 });
+                await db.collection(name).createIndex({ createdBy: 1 });
+            }
+            await db.collection(GAME_COLLECTIONS.questionDeals).createIndex({ userId: 1, questionId: 1 });
+        },
+        down: async db => {
+            for (const name of ITEM_COLLECTIONS) {
+                await dropIndex(db, name, 'used_1_assignedTo_1');
+                await dropIndex(db, name, 'createdBy_1');
+            }
+            await dropIndex(db, GAME_COLLECTIONS.questionDeals, 'userId_1_questionId_1');
+        }
+    },
+    {
+        version: 4,
+        name: 'add_decks',
+        up: async db => {
+            for (const name of ITEM_COLLECTIONS) {
+                await db.collection(name).createIndex({ deckId: 1, used: 1 });
+            }
+            await db.collection(GAME_COLLECTIONS.decks).createIndex({ owner: 1 });
+        },
+        down: async db => {
+            for (const name of ITEM_COLLECTIONS) {
+                await dropIndex(db, name, 'deckId_1_used_1');
+            }
+            await dropIndex(db, GAME_COLLECTIONS.decks, 'owner_1');
+        }
+    },
+    {
+        version: 5,
+        name: 'add_item_drawn_at',
+        up: async db => {
+            for (const name of ITEM_COLLECTIONS) {
+                await db.collection(name).createIndex({ assignedTo: 1, drawnAt: -1 });
+            }
+        },
+        down: async db => {
+            for (const name of ITEM_COLLECTIONS) {
+                await dropIndex(db, name, 'assignedTo_1_drawnAt_-1');
+            }
+        }
+    },
+    {
+        version: 6,
+        name: 'add_history_indexes',
+        up: async db => {
+            const history = db.collection(GAME_COLLECTIONS.history);
+            await history.createIndex({ userId: 1, createdAt: -1 });
+            await history.createIndex({ gameId: 1, createdAt: -1 });
+            await history.createIndex({ collection: 1, createdAt: -1 });
+        },
+        down: async db => {
+            await dropIndex(db, GAME_COLLECTIONS.history, 'userId_1_createdAt_-1');
+            await dropIndex(db, GAME_COLLECTIONS.history, 'gameId_1_createdAt_-1');
+            await dropIndex(db, GAME_COLLECTIONS.history, 'collection_1_createdAt_-1');
+        }
+    },
+    {
+        version: 7,
+        name: 'add_ledger_indexes',
+        up: async db => {
+            await db.collection(GAME_COLLECTIONS.balances).createIndex({ gameId: 1, userId: 1 }, { unique: true });
+            await db.collection(GAME_COLLECTIONS.transactions).createIndex({ gameId: 1, userId: 1, createdAt: 1 });
+        },
+        down: async db => {
+            await dropIndex(db, GAME_COLLECTIONS.balances, 'gameId_1_userId_1');
+            await dropIndex(db, GAME_COLLECTIONS.transactions, 'gameId_1_userId_1_createdAt_1');
+        }
+    },
+    {
+        version: 8,
+        name: 'add_game_state_indexes',
+        up: async db => {
+            await db.collection(GAME_COLLECTIONS.playerStates).createIndex({ gameId: 1, userId: 1 }, { unique: true });
+            await db.collection(GAME_COLLECTIONS.holdings).createIndex({ gameId: 1, space: 1 }, { unique: true });
+        },
+        down: async db => {
+            await dropIndex(db, GAME_COLLECTIONS.playerStates, 'gameId_1_userId_1');
+            await dropIndex(db, GAME_COLLECTIONS.holdings, 'gameId_1_space_1');
+        }
+    },
+    {
+        version: 9,
+        name: 'add_auction_trade_indexes',
+        up: async db => {
+            await db.collection(GAME_COLLECTIONS.auctions).createIndex({ status: 1 });
+            await db.collection(GAME_COLLECTIONS.auctions).createIndex({ gameId: 1 });
+            await db.collection(GAME_COLLECTIONS.trades).createIndex({ gameId: 1 });
+        },
+        down: async db => {
+            await dropIndex(db, GAME_COLLECTIONS.auctions, 'status_1');
+            await dropIndex(db, GAME_COLLECTIONS.auctions, 'gameId_1');
+            await dropIndex(db, GAME_COLLECTIONS.trades, 'gameId_1');
+        }
+    },
+    {
+        version: 10,
+        name: 'add_chat_memory_index',
+        up: async db => {
+            await db.collection(GAME_COLLECTIONS.chatMemory).createIndex({ gameId: 1 }, { unique: true });
+        },
+        down: async db => {
+            await dropIndex(db, GAME_COLLECTIONS.chatMemory, 'gameId_1');
+        }
+    },
+    {
+        version: 11,
+        name: 'unique_open_auctions',
+        up: async db => {
+            const auctions = db.collection(GAME_COLLECTIONS.auctions);
+            // Of several auctions open for one property, only the first stays open
+            const duplicates = await auctions.aggregate<{ ids: ObjectId[] }>([
+                { $match: { status: 'open' } },
+                { $sort: { _id: 1 } },
+                { $group: { _id: { gameId: '$gameId', property: '$property' }, ids: { $push: '$_id' } } },
+                { $match: { 'ids.1': { $exists: true } } }
+            ]).toArray();
+            const closed = duplicates.flatMap(({ ids }) => ids.slice(1));
+            if (closed.length > 0) {
+                await auctions.updateMany({ _id: { $in: closed } }, { $set: { status: 'unsold', closedAt: new Date() } });
+            }
+            await auctions.createIndex(
+                { gameId: 1, property: 1 },
+                { name: 'open_auction_property', unique: true, partialFilterExpression: { status: 'open' } }
+            );
+        },
+        down: async db => {
+            await dropIndex(db, GAME_COLLECTIONS.auctions, 'open_auction_property');
+        }
+    },
+    {
+        version: 12,
+        name: 'deck_versions_per_deck',
+        up: async db => {
+            await dropIndex(db, GAME_COLLECTIONS.deckVersions, 'collection_1_userId_1');
+            // A missing deckId indexes as null, so the base deck of a user has one version too
+            await db.collection(GAME_COLLECTIONS.deckVersions).createIndex(
+                { collection: 1, userId: 1, deckId: 1 },
+                { unique: true }
+            );
+        },
+        down: async db => {
+            const versions = db.collection(GAME_COLLECTIONS.deckVersions);
+            // Only the most recently replaced deck of each user keeps its previous version
+            const older = await versions.aggregate<{ ids: ObjectId[] }>([
+                { $sort: { replacedAt: -1, _id: -1 } },
+                { $group: { _id: { collection: '$collection', userId: '$userId' }, ids: { $push: '$_id' } } },
+                { $match: { 'ids.1': { $exists: true } } }
+            ]).toArray();
+            const dropped = older.flatMap(({ ids }) => ids.slice(1));
+            if (dropped.length > 0) {
+                await versions.deleteMany({ _id: { $in: dropped } });
+            }
+            await dropIndex(db, GAME_COLLECTIONS.deckVersions, 'collection_1_userId_1_deckId_1');
+            await versions.createIndex({ collection: 1, userId: 1 }, { unique: true });
+        }
+    }
+];
+
+/**
+ * Track applied migrations in the schema_version collection, one document per applied version
+ */
+export class MongoMigrationStore implements MigrationStore<Db> {
+    constructor(private readonly db: Db) {}
+
+    async currentVersion(): Promise<number> {
+        const [latest] = await this.db.collection<SchemaVersion>(SCHEMA_VERSION_COLLECTION)
+            .find()
+            .sort({ version: -1 })
+            .limit(1)
+            .toArray();
+        return latest?.version ?? 0;
+    }
+
+    async apply(migration: Migration<Db>, direction: MigrationDirection): Promise<void> {
+        // Index builds cannot run inside a transaction; migrations are written so they can be re-run
+        const versions = this.db.collection<SchemaVersion>(SCHEMA_VERSION_COLLECTION);
+        if (direction === 'up') {
+            await migration.up(this.db);
+            await versions.insertOne({ version: migration.version, name: migration.name, appliedAt: new Date() });
+        } else {
+            await migration.down(this.db);
+            await versions.deleteOne({ version: migration.version });
+        }
+    }
+}
+
+async function dropIndex(db: Db, collectionName: string, indexName: string): Promise<void> {
+    try {
+        await db.collection(collectionName).dropIndex(indexName);
+    } catch (error) {
+        // Dropping is idempotent; the index or the whole collection may not exist
+        if (!(error instanceof MongoServerError && (error.code === INDEX_NOT_FOUND_ERROR || error.codeName === 'NamespaceNotFound'))) {
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,479 @@
+import { Database } from 'sqlite';
+import { COLLECTIONS, GAME_COLLECTIONS } from '../../config/collections';
+import { withTransaction } from '../transaction';
+import { Migration, MigrationDirection, MigrationStore } from './migration';
+
+export const SCHEMA_VERSION_TABLE = 'schema_version';
+
+const ITEM_TABLES = Object.values(COLLECTIONS).map(collection => collection.name);
+
+/**
+ * SQLite schema history. Never edit a migration that has been released, add a new one instead.
+ * Tables are created with IF NOT EXISTS so databases created before versioning are adopted as they are.
+ */
+export const SQLITE_MIGRATIONS: ReadonlyArray<Migration<Database>> = [
+    {
+        version: 1,
+        name: 'create_item_tables',
+        up: async db => {
+            for (const table of ITEM_TABLES) {
+                await db.exec(`
+                    CREATE TABLE IF NOT EXISTS ${table} (
+                        id INTEGER PRIMARY KEY AUTOINCREMENT,
+                        data TEXT NOT NULL,
+                        used BOOLEAN DEFAULT FALSE,
+                        assignedTo TEXT,
+                        createdBy TEXT,
+                        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+                    );
+                `);
+            }
+        },
+        down: async db => {
+            for (const table of ITEM_TABLES) {
+                await db.exec(`DROP TABLE IF EXISTS ${table}`);
+            }
+        }
+    },
+    {
+        version: 2,
+        name: 'create_games',
+        up: async db => {
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS ${GAME_COLLECTIONS.games} (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    name TEXT,
+                    players TEXT NOT NULL,
+                    createdBy TEXT,
+                    createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+                );
+
+                CREATE TABLE IF NOT EXISTS ${GAME_COLLECTIONS.gameDraws} (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    gameId TEXT NOT NULL,
+                    collection TEXT NOT NULL,
+                    itemId INTEGER NOT NULL,
+                    assignedTo TEXT,
+                    drawnAt DATETIME DEFAULT CURRENT_TIMESTAMP
+                );
+
+                CREATE UNIQUE INDEX IF NOT EXISTS idx_game_draws_item
+                    ON ${GAME_COLLECTIONS.gameDraws} (gameId, collection, itemId);
+            `);
+        },
+        down: async db => {
+            await db.exec(`
+                DROP TABLE IF EXISTS ${GAME_COLLECTIONS.gameDraws};
+                DROP TABLE IF EXISTS ${GAME_COLLECTIONS.games};
+            `);
+        }
+    },
+    {
+        version: 3,
+        name: 'create_deck_versions',
+        up: async db => {
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS ${GAME_COLLECTIONS.deckVersions} (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    collection TEXT NOT NULL,
+                    userId TEXT NOT NULL,
+                    items TEXT NOT NULL,
+                    replacedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    UNIQUE (collection, userId)
+                );
+            `);
+        },
+        down: async db => {
+            await db.exec(`DROP TABLE IF EXISTS ${GAME_COLLECTIONS.deckVersions}`);
+        }
+    },
+    {
+        version: 4,
+        name: 'create_question_deals',
+        up: async db => {
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS ${GAME_COLLECTIONS.questionDeals} (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    userId TEXT NOT NULL,
+                    gameId TEXT,
+                    questionId INTEGER NOT NULL,
+                    dealtAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    answeredAt DATETIME,
+                    answer INTEGER,
+                    correct BOOLEAN
+                );
+            `);
+        },
+        down: async db => {
+            await db.exec(`DROP TABLE IF EXISTS ${GAME_COLLECTIONS.questionDeals}`);
+        }
+    },
+    {
+        version: 5,
+        name: 'add_lookup_indexes',
+        up: async db => {
+            for (const table of ITEM_TABLES) {
+                await db.exec(`
+                    CREATE INDEX IF NOT EXISTS idx_${table}_used ON ${table} (used, assignedTo);
+                    CREATE INDEX IF NOT EXISTS idx_${table}_created_by ON ${table} (createdBy);
+                `);
+            }
+            await db.exec(`
+                CREATE INDEX IF NOT EXISTS idx_question_deals_user
+                    ON ${GAME_COLLECTIONS.questionDeals} (userId, questionId);
+            `);
+        },
+        down: async db => {
+            for (const table of ITEM_TABLES) {
+                await db.exec(`
+                    DROP INDEX IF EXISTS idx_${table}_used;
+                    DROP INDEX IF EXISTS idx_${table}_created_by;
+                `);
+            }
+            await db.exec(`DROP INDEX IF EXISTS idx_question_deals_user`);
+        }
+    },
+    {
+        version: 6,
+        name: 'add_decks',
+        up: async db => {
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS ${GAME_COLLECTIONS.decks} (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    name TEXT NOT NULL,
+                    theme TEXT,
+                    language TEXT,
+                    owner TEXT NOT NULL,
+                    baseRatio REAL NOT NULL DEFAULT 0,
+                    createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_decks_owner ON ${GAME_COLLECTIONS.decks} (owner);
+
+                ALTER TABLE ${GAME_COLLECTIONS.deckVersions} ADD COLUMN deckId TEXT;
+            `);
+            for (const table of ITEM_TABLES) {
+                await db.exec(`
+                    ALTER TABLE ${table} ADD COLUMN deckId TEXT;
+                    CREATE INDEX IF NOT EXISTS idx_${table}_deck ON ${table} (deckId, used);
+                `);
+            }
+        },
+        down: async db => {
+            for (const table of ITEM_TABLES) {
+                await db.exec(`
+                    DROP INDEX IF EXISTS idx_${table}_deck;
+                    ALTER TABLE ${table} DROP COLUMN deckId;
+                `);
+            }
+            await db.exec(`
+                ALTER TABLE ${GAME_COLLECTIONS.deckVersions} DROP COLUMN deckId;
+                DROP TABLE IF EXISTS ${GAME_COLLECTIONS.decks};
+            `);
+        }
+    },
+    {
+        version: 7,
+        name: 'add_item_drawn_at',
+        up: async db => {
+            for (const table of ITEM_TABLES) {
+                await db.exec(`
+                    ALTER TABLE ${table} ADD COLUMN drawnAt DATETIME;
+                    CREATE INDEX IF NOT EXISTS idx_${table}_drawn ON ${table} (assignedTo, drawnAt);
+                `);
+            }
+        },
+        down: async db => {
+            for (const table of ITEM_TABLES) {
+                await db.exec(`
+                    DROP INDEX IF EXISTS idx_${table}_drawn;
+                    ALTER TABLE ${table} DROP COLUMN drawnAt;
+                `);
+            }
+        }
+    },
+    {
+        version: 8,
+        name: 'add_game_seed',
+        up: async db => {
+            await db.exec(`ALTER TABLE ${GAME_COLLECTIONS.games} ADD COLUMN seed TEXT`);
+        },
+        down: async db => {
+            await db.exec(`ALTER TABLE ${GAME_COLLECTIONS.games} DROP COLUMN seed`);
+        }
+    },
+    {
+        version: 9,
+        name: 'create_history',
+        up: async db => {
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS ${GAME_COLLECTIONS.history} (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    action TEXT NOT NULL,
+                    collection TEXT NOT NULL,
+                    itemId TEXT NOT NULL,
+                    userId TEXT,
+                    gameId TEXT,
+                    deckId TEXT,
+                    route TEXT NOT NULL,
+                    data TEXT,
+                    createdAt TEXT NOT NULL
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_history_user ON ${GAME_COLLECTIONS.history} (userId, createdAt);
+                CREATE INDEX IF NOT EXISTS idx_history_game ON ${GAME_COLLECTIONS.history} (gameId, createdAt);
+                CREATE INDEX IF NOT EXISTS idx_history_collection ON ${GAME_COLLECTIONS.history} (collection, createdAt);
+            `);
+        },
+        down: async db => {
+            await db.exec(`DROP TABLE IF EXISTS ${GAME_COLLECTIONS.history}`);
+        }
+    },
+    {
+        version: 10,
+        name: 'create_ledger',
+        up: async db => {
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS ${GAME_COLLECTIONS.balances} (
+                    gameId TEXT NOT NULL,
+                    userId TEXT NOT NULL,
+                    balance REAL NOT NULL,
+                    bankrupt BOOLEAN NOT NULL DEFAULT FALSE,
+                    updatedAt TEXT NOT NULL,
+                    PRIMARY KEY (gameId, userId)
+                );
+
+                CREATE TABLE IF NOT EXISTS ${GAME_COLLECTIONS.transactions} (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    gameId TEXT NOT NULL,
+                    userId TEXT NOT NULL,
+                    type TEXT NOT NULL,
+                    amount REAL NOT NULL,
+                    balanceAfter REAL NOT NULL,
+                    collection TEXT,
+                    itemId TEXT,
+                    description TEXT,
+                    createdAt TEXT NOT NULL
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_transactions_game ON ${GAME_COLLECTIONS.transactions} (gameId, userId, id);
+            `);
+        },
+        down: async db => {
+            await db.exec(`
+                DROP TABLE IF EXISTS ${GAME_COLLECTIONS.transactions};
+                DROP TABLE IF EXISTS ${GAME_COLLECTIONS.balances};
+            `);
+        }
+    },
+    {
+        version: 11,
+        name: 'create_game_state',
+        up: async db => {
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS ${GAME_COLLECTIONS.playerStates} (
+                    gameId TEXT NOT NULL,
+                    userId TEXT NOT NULL,
+                    position INTEGER NOT NULL DEFAULT 0,
+                    inJail BOOLEAN NOT NULL DEFAULT FALSE,
+                    jailCards INTEGER NOT NULL DEFAULT 0,
+                    updatedAt TEXT NOT NULL,
+                    PRIMARY KEY (gameId, userId)
+                );
+
+                CREATE TABLE IF NOT EXISTS ${GAME_COLLECTIONS.holdings} (
+                    gameId TEXT NOT NULL,
+                    space TEXT NOT NULL,
+                    ownerId TEXT NOT NULL,
+                    houses INTEGER NOT NULL DEFAULT 0,
+                    updatedAt TEXT NOT NULL,
+                    PRIMARY KEY (gameId, space)
+                );
+            `);
+        },
+        down: async db => {
+            await db.exec(`
+                DROP TABLE IF EXISTS ${GAME_COLLECTIONS.holdings};
+                DROP TABLE IF EXISTS ${GAME_COLLECTIONS.playerStates};
+            `);
+        }
+    },
+    {
+        version: 12,
+        name: 'create_auctions_trades',
+        up: async db => {
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS ${GAME_COLLECTIONS.auctions} (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    gameId TEXT NOT NULL,
+                    property TEXT NOT NULL,
+                    openedBy TEXT NOT NULL,
+                    itemId TEXT NOT NULL,
+                    sellerId TEXT,
+                    startingBid REAL NOT NULL,
+                    highBid REAL,
+                    highBidder TEXT,
+                    bidCount INTEGER NOT NULL DEFAULT 0,
+                    status TEXT NOT NULL,
+                    endsAt TEXT NOT NULL,
+                    createdAt TEXT NOT NULL,
+                    closedAt TEXT
+                );
+
+                CREATE TABLE IF NOT EXISTS ${GAME_COLLECTIONS.trades} (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    gameId TEXT NOT NULL,
+                    property TEXT NOT NULL,
+                    proposer TEXT NOT NULL,
+                    itemId TEXT NOT NULL,
+                    recipient TEXT,
+                    price REAL NOT NULL,
+                    status TEXT NOT NULL,
+                    createdAt TEXT NOT NULL,
+                    respondedAt TEXT
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_auctions_status ON ${GAME_COLLECTIONS.auctions} (status);
+                CREATE INDEX IF NOT EXISTS idx_auctions_game ON ${GAME_COLLECTIONS.auctions} (gameId);
+                CREATE INDEX IF NOT EXISTS idx_trades_game ON ${GAME_COLLECTIONS.trades} (gameId);
+            `);
+        },
+        down: async db => {
+            await db.exec(`
+                DROP TABLE IF EXISTS ${GAME_COLLECTIONS.trades};
+                DROP TABLE IF EXISTS ${GAME_COLLECTIONS.auctions};
+            `);
+        }
+    },
+    {
+        version: 13,
+        name: 'create_chat_memory',
+        up: async db => {
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS ${GAME_COLLECTIONS.chatMemory} (
+                    gameId TEXT PRIMARY KEY,
+                    prompts TEXT NOT NULL,
+                    events TEXT NOT NULL,
+                    state TEXT,
+                    updatedAt TEXT NOT NULL
+                )
+            `);
+        },
+        down: async db => {
+            await db.exec(`DROP TABLE IF EXISTS ${GAME_COLLECTIONS.chatMemory}`);
+        }
+    },
+    {
+        version: 14,
+        name: 'unique_open_auctions',
+        up: async db => {
+            // Of several auctions open for one property, only the first stays open
+            await db.run(
+                `UPDATE ${GAME_COLLECTIONS.auctions} SET status = 'unsold', closedAt = ?
+                WHERE status = 'open' AND EXISTS (
+                    SELECT 1 FROM ${GAME_COLLECTIONS.auctions} AS earlier
+                    WHERE earlier.gameId = ${GAME_COLLECTIONS.auctions}.gameId
+                    AND earlier.property = ${GAME_COLLECTIONS.auctions}.property
+                    AND earlier.status = 'open'
+                    AND earlier.id < ${GAME_COLLECTIONS.auctions}.id
+                )`,
+                [new Date().toISOString()]
+            );
+            await db.exec(`
+                CREATE UNIQUE INDEX IF NOT EXISTS idx_auctions_open_property
+                ON ${GAME_COLLECTIONS.auctions} (gameId, property) WHERE status = 'open'
+            `);
+        },
+        down: async db => {
+            await db.exec(`DROP INDEX IF EXISTS idx_auctions_open_property`);
+        }
+    },
+    {
+        version: 15,
+        name: 'deck_versions_per_deck',
+        up: async db => {
+            // The UNIQUE (collection, userId) constraint is part of the table, so the table is rebuilt without it.
+            // The base deck has no deckId, and NULLs never conflict in a unique index, hence the COALESCE.
+            await db.exec(`
+                CREATE TABLE ${GAME_COLLECTIONS.deckVersions}_per_deck (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    collection TEXT NOT NULL,
+                    userId TEXT NOT NULL,
+                    deckId TEXT,
+                    items TEXT NOT NULL,
+                    replacedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+                );
+                INSERT INTO ${GAME_COLLECTIONS.deckVersions}_per_deck (id, collection, userId, deckId, items, replacedAt)
+                SELECT id, collection, userId, deckId, items, replacedAt FROM ${GAME_COLLECTIONS.deckVersions};
+                DROP TABLE ${GAME_COLLECTIONS.deckVersions};
+                ALTER TABLE ${GAME_COLLECTIONS.deckVersions}_per_deck RENAME TO ${GAME_COLLECTIONS.deckVersions};
+
+                CREATE UNIQUE INDEX idx_deck_versions_deck
+                ON ${GAME_COLLECTIONS.deckVersions} (collection, userId, COALESCE(deckId, ''));
+            `);
+        },
+        down: async db => {
+            // Only the most recently replaced deck of each user keeps its previous version
+            await db.exec(`
+                CREATE TABLE ${GAME_COLLECTIONS.deckVersions}_per_user (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    collection TEXT NOT NULL,
+                    userId TEXT NOT NULL,
+                    deckId TEXT,
+                    items TEXT NOT NULL,
+                    replacedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    UNIQUE (collection, userId)
+                );
+                INSERT INTO ${GAME_COLLECTIONS.deckVersions}_per_user (id, collection, userId, deckId, items, replacedAt)
+                SELECT id, collection, userId, deckId, items, replacedAt FROM ${GAME_COLLECTIONS.deckVersions} AS version
+                WHERE NOT EXISTS (
+                    SELECT 1 FROM ${GAME_COLLECTIONS.deckVersions} AS later
+                    WHERE later.collection = version.collection AND later.userId = version.userId
+                    AND (later.replacedAt > version.replacedAt OR (later.replacedAt = version.replacedAt AND later.id > version.id))
+                );
+                DROP TABLE ${GAME_COLLECTIONS.deckVersions};
+                ALTER TABLE ${GAME_COLLECTIONS.deckVersions}_per_user RENAME TO ${GAME_COLLECTIONS.deckVersions};
+            `);
+        }
+    }
+];
+
+/**
+ * Track applied migrations in the schema_version table, one row per applied version.
+ * Each migration runs in its own transaction together with its schema_version change.
+ */
+export class SQLiteMigrationStore implements MigrationStore<Database> {
+    constructor(private readonly db: Database) {}
+
+    async currentVersion(): Promise<number> {
+        await this.ensureTable();
+        const row = await this.db.get(`SELECT MAX(version) as version FROM ${SCHEMA_VERSION_TABLE}`);
+        return row?.version ?? 0;
+    }
+
+    async apply(migration: Migration<Database>, direction: MigrationDirection): Promise<void> {
+        await this.ensureTable();
+        await withTransaction(this.db, async () => {
+            if (direction === 'up') {
+                await migration.up(this.db);
+                await this.db.run(
+                    `INSERT INTO ${SCHEMA_VERSION_TABLE} (version, name) VALUES (?, ?)`,
+                    [migration.version, migration.name]
+                );
+            } else {
+                await migration.down(this.db);
+                await this.db.run(`DELETE FROM ${SCHEMA_VERSION_TABLE} WHERE version = ?`, [migration.version]);
+            }
+        });
+    }
+
+    private async ensureTable(): Promise<void> {
+        await this.db.exec(`
+            CREATE TABLE IF NOT EXISTS ${SCHEMA_VERSION_TABLE} (
+                version INTEGER PRIMARY KEY,
+                name TEXT NOT NULL,
+                appliedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+    }
+}
@@ -1,160 +1,168 @@
-import { Collection, MongoClient, ObjectId } from 'mongodb';
-import { Database } from 'sqlite';
 import { BaseItem } from '../models/base';
-import { DatabaseClient, DatabaseType } from './database';
+import { DatabaseClient } from './database';
+import { DrawOptions, ItemPicker, ItemView, ListItemsOptions, ResetOptions } from './repositories/itemRepository';
+import {
+    createOrderPicker,
+    createPolicyPicker,
+    DEFAULT_EXHAUSTION_MODE,
+    DrawPolicy,
+    itemType,
+    planDrawOrder,
+    repeatScope
+} from '../services/drawPolicy';
+import { createSeededRandom } from '../services/seededRandom';
 
 export interface CollectionConfig {
     name: string;
     sampleData: ReadonlyArray<Omit<BaseItem, '_id'>>;
+    drawPolicy?: DrawPolicy;  // How draws choose among available items, uniformly at random if not set
+}
+
+export interface ItemDrawOptions extends Omit<DrawOptions, 'pick'> {
+    /** When drawing from a deck, the share of draws taken from the base deck instead, 0 to 1 */
+    baseRatio?: number;
+    /** Type ratios, card weights and no-repeat rule to draw with */
+    policy?: DrawPolicy;
+    /** Follow the deck's draw order for this seed instead of drawing at random; never mixed with the base deck */
+    seed?: string;
 }
 
 /**
- * Generic function to get a random unused item from a collection
+ * Generic function to get a random unused item from a collection.
+ * The selected item is claimed atomically, so concurrent draws never hand out the same item twice.
+ * When drawing from a deck mixed with the base deck, each draw picks the base deck with probability
+ * baseRatio and falls back to the other one if the picked deck has nothing left.
+ * With a draw policy, the item is chosen by type ratio and card weight instead of uniformly.
+ * With a seed, the first available item in the deck's planned order (see getDrawOrder) is drawn.
+ * When nothing is left, the policy's onExhausted mode decides whether the drawn cards are reshuffled.
  * @param client Database client
  * @param collectionName Collection name to query
  * @param userId User ID to check assignment against
  * @param sampleData Sample data to initialize collection if empty
- * @returns Object containing success status and data/error message
+ * @param options Draw options, e.g. the game and deck to scope the draw to
+ * @returns Object containing success status, data/error message, the id and deck of the drawn item,
+ * whether the deck was reshuffled for this draw, and whether the deck is exhausted
  */
 export async function getItemFromCollection<T extends BaseItem>(
     client: DatabaseClient,
     collectionName: string,
     userId: string,
-    sampleData: Array<Omit<T, '_id'>>
-): Promise<{ success: boolean; data: any }> {
+    sampleData: Array<Omit<T, '_id'>>,
+    options: ItemDrawOptions = {}
+): Promise<{ success: boolean; data: any; itemId?: string; deckId?: string; reshuffled?: boolean; exhausted?: boolean }> {
     try {
-        const collection = await client.getCollection<T>(collectionName);
-
-        if (collection instanceof Collection) {
-            // MongoDB operations
-            const count = await collection.countDocuments();
-            if (count === 0) {
-                await collection.insertMany(sampleData as any[]);
-                console.log(`Initialized sample ${collectionName}`);
-            }
+        const repository = client.getItemRepository<T>(collectionName);
 
-            // Get all unused items not assigned to this user
-            const items = await collection.find<T>({
-                used: { $eq: false },
-                assignedTo: { $ne: userId }
-            } as any).toArray();
-
-            if (items.length > 0) {
-                // Select a random item
-                const randomIndex = Math.floor(Math.random() * items.length);
-                const item = items[randomIndex];
-
-                // Mark the selected item as used
-                await collection.updateOne(
-                    { _id: item._id } as any,
-                    {
-                        $set: {
-                            used: true,
-                            assignedTo: userId
-                        } as Partial<T>
-                    }
-                );
-
-                return {
-                    success: true,
-                    data: item.data
-                };
-            }
+        if (await repository.seed(sampleData.map(item => ({ data: item.data })))) {
+            console.log(`Initialized sample ${collectionName}`);
+        }
 
-            // Reset all items if none are available
-            await collection.updateMany(
-                {},
-                {
-                    $set: {
-                        used: false,
-                        assignedTo: undefined
-                    } as Partial<T>
-                }
-            );
-
-            // Try to get a random item again after reset
-            const resetItems = await collection.find<T>({}).toArray();
-            if (resetItems.length > 0) {
-                const randomIndex = Math.floor(Math.random() * resetItems.length);
-                const item = resetItems[randomIndex];
-                await collection.updateOne(
-                    { _id: item._id } as any,
-                    {
-                        $set: {
-                            used: true,
-                            assignedTo: userId
-                        } as Partial<T>
-                    }
-                );
-
-                return {
-                    success: true,
-                    data: item.data
-                };
-            }
-        } else {
-            // SQLite operations
-            const db = collection as Database;
-            
-            // Check if we need to initialize data
-            const count = await db.get(`SELECT COUNT(*) as count FROM ${collectionName}`);
-            if (count.count === 0) {
-                const stmt = await db.prepare(
-                    `INSERT INTO ${collectionName} (data, used) VALUES (?, ?)`
-                );
-                for (const item of sampleData) {
-                    await stmt.run(JSON.stringify(item.data), false);
+        const { baseRatio = 0, policy, seed, ...drawOptions } = options;
+
+        let pick: ItemPicker<T> | undefined;
+        if (policy && seed === undefined) {
+            const scope = repeatScope(policy, userId, drawOptions.gameId);
+            const previous = scope && await repository.lastDrawn(scope);
+            pick = createPolicyPicker<T>(policy, previous ? itemType(previous.data) : undefined);
+        }
+
+        // Decks to draw from, in order of preference; undefined is the base deck
+        let decks: Array<string | undefined> = [drawOptions.deckId];
+        if (drawOptions.deckId !== undefined && baseRatio > 0 && seed === undefined) {
+            decks = Math.random() < baseRatio ? [undefined, drawOptions.deckId] : [drawOptions.deckId, undefined];
+        }
+
+        const drawFromDecks = async () => {
+            for (const deckId of decks) {
+                const order = seed !== undefined
+                    ? planDrawOrder(await repository.listDeck(deckId), policy ?? {}, createSeededRandom(seed))
+                    : undefined;
+                const drawn = await repository.draw(userId, { ...drawOptions, deckId, pick: order ? createOrderPicker(order) : pick });
+                if (drawn) {
+                    return drawn;
                 }
-                console.log(`Initialized sample ${collectionName}`);
             }
+            return null;
+        };
 
-            // Get a random unused item
-            const item = await db.get(
-                `SELECT * FROM ${collectionName} 
-                WHERE used = FALSE AND (assignedTo IS NULL OR assignedTo != ?) 
-                ORDER BY RANDOM() 
-                LIMIT 1`,
-                [userId]
-            );
-
-            if (item) {
-                await db.run(
-                    `UPDATE ${collectionName} SET used = TRUE, assignedTo = ? WHERE id = ?`,
-                    [userId, item.id]
-                );
-
-                return {
-                    success: true,
-                    data: JSON.parse(item.data)
-                };
+        let item = await drawFromDecks();
+        let reshuffled = false;
+        const onExhausted = policy?.onExhausted ?? DEFAULT_EXHAUSTION_MODE;
+        if (!item && onExhausted !== 'stop') {
+            // A game only reshuffles its own draws; outside a game, reshuffle_own only the user's cards
+            const scope: ResetOptions = {
+                gameId: drawOptions.gameId,
+                ...(onExhausted === 'reshuffle_own' && { userId }),
+                keepOut: policy?.keepOut
+            };
+            let resetCount = 0;
+            for (const deckId of decks) {
+                resetCount += await repository.reset({ ...scope, deckId });
             }
-
-            // Reset all items if none are available
-            await db.run(
-                `UPDATE ${collectionName} SET used = FALSE, assignedTo = NULL`
-            );
-
-            // Try to get a random item again after reset
-            const resetItem = await db.get(
-                `SELECT * FROM ${collectionName} ORDER BY RANDOM() LIMIT 1`
-            );
-
-            if (resetItem) {
-                await db.run(
-                    `UPDATE ${collectionName} SET used = TRUE, assignedTo = ? WHERE id = ?`,
-                    [userId, resetItem.id]
-                );
-
-                return {
-                    success: true,
-                    data: JSON.parse(resetItem.data)
-                };
+            if (resetCount > 0) {
+                reshuffled = true;
+                item = await drawFromDecks();
             }
         }
 
+        if (item) {
+            return {
+                success: true,
+                data: item.data,
+                itemId: item.id,
+                ...(item.deckId !== undefined && { deckId: item.deckId }),
+                ...(reshuffled && { reshuffled })
+            };
+        }
+
         return {
             success: false,
-            data: { error: `No ${collectionName} available` }
+            data: { error: `No ${collectionName} left to draw, the deck is exhausted` },
+            exhausted: true
+        };
+    } catch (error) {
+        console.error(`Database operation failed for ${collectionName}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Get the order a seeded draw goes through a deck in, so a game can be replayed exactly.
+ * The order depends only on the seed, the policy and the deck's items in insertion order, so it is the same on every backend.
+ * @param client Database client
+ * @param collectionName Collection name to plan the draws of
+ * @param seed Seed the draws are made with
+ * @param sampleData Sample data to initialize collection if empty, as the first draw would
+ * @param options Deck to plan and policy to draw with
+ * @returns Object containing success status and the items in draw order
+ */
+export async function getDrawOrder<T extends BaseItem>(
+    client: DatabaseClient,
+    collectionName: string,
+    seed: string,
+    sampleData: Array<Omit<T, '_id'>>,
+    options: { deckId?: string; policy?: DrawPolicy } = {}
+): Promise<{ success: boolean; data: any }> {
+    try {
+        const repository = client.getItemRepository<T>(collectionName);
+
+        if (await repository.seed(sampleData.map(item => ({ data: item.data })))) {
+            console.log(`Initialized sample ${collectionName}`);
+        }
+
+        const order = planDrawOrder(
+            await repository.listDeck(options.deckId),
+            options.policy ?? {},
+            createSeededRandom(seed)
+        );
+
+        return {
+            success: true,
+            data: {
+                seed,
+                ...(options.deckId !== undefined && { deckId: options.deckId }),
+                order: order.map((item, position) => ({ position: position + 1, id: item.id, data: item.data }))
+            }
         };
     } catch (error) {
         console.error(`Database operation failed for ${collectionName}:`, error);
@@ -177,48 +185,16 @@ export async function createItems<T extends BaseItem>(
     items: Array<Omit<T, '_id' | 'used' | 'assignedTo' | 'createdBy' | 'createdAt'>>
 ): Promise<{ success: boolean; data: any }> {
     try {
-        const collection = await client.getCollection<T>(collectionName);
-
-        if (collection instanceof Collection) {
-            // MongoDB operations
-            const itemsToInsert = items.map(item => ({
-                ...item,
-                used: false,
-                assignedTo: undefined,
-                createdBy: userId,
-                createdAt: new Date()
-            }));
+        const repository = client.getItemRepository<T>(collectionName);
+        const insertedIds = await repository.insert(items.map(item => ({ data: item.data, deckId: item.deckId })), userId);
 
-            const result = await collection.insertMany(itemsToInsert as any[]);
-
-            return {
-                success: true,
-                data: {
-                    insertedCount: result.insertedCount,
-                    insertedIds: result.insertedIds
-                }
-            };
-        } else {
-            // SQLite operations
-            const db = collection as Database;
-            const results = [];
-
-            for (const item of items) {
-                const result = await db.run(
-                    `INSERT INTO ${collectionName} (data, used, createdBy, createdAt) VALUES (?, FALSE, ?, CURRENT_TIMESTAMP)`,
-                    [JSON.stringify(item.data), userId]
-                );
-                results.push(result.lastID);
+        return {
+            success: true,
+            data: {
+                insertedCount: insertedIds.length,
+                insertedIds
             }
-
-            return {
-                success: true,
-                data: {
-                    insertedCount: results.length,
-                    insertedIds: results
-                }
-            };
-        }
+        };
     } catch (error) {
         console.error(`Database operation failed for ${collectionName}:`, error);
         throw error;
@@ -237,28 +213,9 @@ export async function initializeCollections(
     try {
         await Promise.all(
             Object.values(collections).map(async ({ name, sampleData }) => {
-                const collection = await client.getCollection(name);
-
-                if (collection instanceof Collection) {
-                    // MongoDB initialization
-                    const count = await collection.countDocuments();
-                    if (count === 0) {
-                        await collection.insertMany([...sampleData]);
-                        console.log(`Initialized sample ${name}`);
-                    }
-                } else {
-                    // SQLite initialization
-                    const db = collection as Database;
-                    const result = await db.get(`SELECT COUNT(*) as count FROM ${name}`);
-                    if (result.count === 0) {
-                        const stmt = await db.prepare(
-                            `INSERT INTO ${name} (data, used) VALUES (?, FALSE)`
-                        );
-                        for (const item of sampleData) {
-                            await stmt.run(JSON.stringify(item.data));
-                        }
-                        console.log(`Initialized sample ${name}`);
-                    }
+                const repository = client.getItemRepository(name);
+                if (await repository.seed(sampleData.map(item => ({ data: item.data })))) {
+                    console.log(`Initialized sample ${name}`);
                 }
             })
         );
@@ -279,39 +236,14 @@ export async function markAllItemsAsUsed<T extends BaseItem>(
     collectionName: string
 ): Promise<{ success: boolean; data: any }> {
     try {
-        const collection = await client.getCollection<T>(collectionName);
-
-        if (collection instanceof Collection) {
-            // MongoDB operations
-            const result = await collection.updateMany(
-                { used: { $eq: false } } as any,
-                {
-                    $set: {
-                        used: true
-                    } as Partial<T>
-                }
-            );
-
-            return {
-                success: true,
-                data: {
-                    modifiedCount: result.modifiedCount
-                }
-            };
-        } else {
-            // SQLite operations
-            const db = collection as Database;
-            const result = await db.run(
-                `UPDATE ${collectionName} SET used = TRUE WHERE used = FALSE`
-            );
+        const modifiedCount = await client.getItemRepository<T>(collectionName).markAllUsed();
 
-            return {
-                success: true,
-                data: {
-                    modifiedCount: result.changes
-                }
-            };
-        }
+        return {
+            success: true,
+            data: {
+                modifiedCount
+            }
+        };
     } catch (error) {
         console.error(`Database operation failed for ${collectionName}:`, error);
         throw error;
@@ -331,35 +263,197 @@ export async function deleteItemsByUser<T extends BaseItem>(
     userId: string
 ): Promise<{ success: boolean; data: any }> {
     try {
-        const collection = await client.getCollection<T>(collectionName);
+        const deletedCount = await client.getItemRepository<T>(collectionName).deleteByCreator(userId);
 
-        if (collection instanceof Collection) {
-            // MongoDB operations
-            const result = await collection.deleteMany(
-                { createdBy: userId } as any
-            );
+        return {
+            success: true,
+            data: {
+                deletedCount
+            }
+        };
+    } catch (error) {
+        console.error(`Database operation failed for ${collectionName}:`, error);
+        throw error;
+    }
+}
 
+/**
+ * List items of a collection with filtering, sorting and pagination
+ * @param client Database client
+ * @param collectionName Collection name to list
+ * @param options Filters, sort order and page to return
+ * @returns Object containing success status and the page of items with the total count
+ */
+export async function listItems(
+    client: DatabaseClient,
+    collectionName: string,
+    options: ListItemsOptions = {}
+): Promise<{ success: boolean; data: any }> {
+    try {
+        return {
+            success: true,
+            data: await client.getItemRepository(collectionName).list(options)
+        };
+    } catch (error) {
+        console.error(`Database operation failed for ${collectionName}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Get a single item by id
+ * @param client Database client
+ * @param collectionName Collection name to query
+ * @param id Item ID
+ * @returns The item, or null if no item exists with this id
+ */
+export async function findItemById(
+    client: DatabaseClient,
+    collectionName: string,
+    id: string
+): Promise<ItemView | null> {
+    return client.getItemRepository(collectionName).findById(id);
+}
+
+/**
+ * Update the data and/or used flag of a single item
+ * @param client Database client
+ * @param collectionName Collection name to update
+ * @param id Item ID
+ * @param update New data (replaces the stored data) and/or used flag
+ * @returns Object containing success status and the updated item or error message
+ */
+export async function updateItemById(
+    client: DatabaseClient,
+    collectionName: string,
+    id: string,
+    update: { data?: BaseItem['data']; used?: boolean }
+): Promise<{ success: boolean; data: any }> {
+    try {
+        const item = await client.getItemRepository(collectionName).update(id, update);
+
+        if (!item) {
             return {
-                success: true,
-                data: {
-                    deletedCount: result.deletedCount
-                }
+                success: false,
+                data: { error: `No ${collectionName} item with id ${id}` }
             };
-        } else {
-            // SQLite operations
-            const db = collection as Database;
-            const result = await db.run(
-                `DELETE FROM ${collectionName} WHERE createdBy = ?`,
-                [userId]
-            );
+        }
+        return {
+            success: true,
+            data: item
+        };
+    } catch (error) {
+        console.error(`Database operation failed for ${collectionName}:`, error);
+        throw error;
+    }
+}
 
+/**
+ * Delete a single item by id
+ * @param client Database client
+ * @param collectionName Collection name to delete from
+ * @param id Item ID
+ * @returns Object containing success status and deletion count or error message
+ */
+export async function deleteItemById(
+    client: DatabaseClient,
+    collectionName: string,
+    id: string
+): Promise<{ success: boolean; data: any }> {
+    try {
+        if (!await client.getItemRepository(collectionName).delete(id)) {
             return {
-                success: true,
-                data: {
-                    deletedCount: result.changes
-                }
+                success: false,
+                data: { error: `No ${collectionName} item with id ${id}` }
+            };
+        }
+        return {
+            success: true,
+            data: { deletedCount: 1 }
+        };
+    } catch (error) {
+        console.error(`Database operation failed for ${collectionName}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Replace all items created by a user in one deck in one transaction.
+ * The replaced items are kept as the user's previous version so they can be restored.
+ * @param client Database client
+ * @param collectionName Collection name to replace items in
+ * @param userId User ID who created the items
+ * @param items Array of items to create
+ * @param deckId Deck to replace the user's items in, the base deck if not given
+ * @returns Object containing success status and the deleted and created items
+ */
+export async function replaceItemsByUser<T extends BaseItem>(
+    client: DatabaseClient,
+    collectionName: string,
+    userId: string,
+    items: Array<Omit<T, '_id' | 'used' | 'assignedTo' | 'createdBy' | 'createdAt' | 'deckId'>>,
+    deckId?: string
+): Promise<{ success: boolean; data: any }> {
+    try {
+        const { deletedCount, deletedIds, insertedIds } = await client.getItemRepository<T>(collectionName).replaceByCreator(
+            userId,
+            items.map(item => ({ data: item.data })),
+            deckId
+        );
+
+        return {
+            success: true,
+            data: {
+                deletedCount,
+                deletedIds,
+                insertedCount: insertedIds.length,
+                insertedIds
+            }
+        };
+    } catch (error) {
+        console.error(`Database operation failed for ${collectionName}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Swap a user's items in a deck back to their previous version.
+ * The current items become the previous version, so a restore can itself be undone.
+ * @param client Database client
+ * @param collectionName Collection name to restore items in
+ * @param userId User ID who created the items
+ * @param deckId Deck to restore, the base deck if not given
+ * @returns Object containing success status and the deleted and created items or error message
+ */
+export async function restoreItemsByUser(
+    client: DatabaseClient,
+    collectionName: string,
+    userId: string,
+    deckId?: string
+): Promise<{ success: boolean; data: any }> {
+    try {
+        const repository = client.getItemRepository(collectionName);
+        const previous = await repository.findPreviousVersion(userId, deckId);
+
+        if (!previous) {
+            return {
+                success: false,
+                data: { error: `No previous version of ${collectionName} to restore for ${userId}${deckId ? ` in deck ${deckId}` : ''}` }
             };
         }
+
+        const { deletedCount, deletedIds, insertedIds } = await repository.replaceByCreator(userId, previous.items, deckId);
+
+        return {
+            success: true,
+            data: {
+                deletedCount,
+                deletedIds,
+                insertedCount: insertedIds.length,
+                insertedIds,
+                ...(previous.deckId !== undefined && { deckId: previous.deckId })
+            }
+        };
     } catch (error) {
         console.error(`Database operation failed for ${collectionName}:`, error);
         throw error;
@@ -0,0 +1,173 @@
+import { ObjectId } from 'mongodb';
+import { DatabaseClient } from './database';
+import { Question, QuestionDeal } from '../models/question';
+import { COLLECTIONS, GAME_COLLECTIONS } from '../config/collections';
+
+/**
+ * Question data that is safe to send to players, without the answer or explanation
+ */
+export function toPublicQuestion(questionId: string, data: Question['data']) {
+    return {
+        questionId,
+        message: data.message,
+        choices: data.choices ?? [],
+        difficulty: data.difficulty,
+        reward: data.reward,
+        ...(data.penalty !== undefined && { penalty: data.penalty })
+    };
+}
+
+/**
+ * Remember that a question was dealt to a user so the answer can be checked later
+ * @param client Database client
+ * @param userId User the question was dealt to
+ * @param questionId Id of the dealt question
+ * @param gameId Game the question was dealt in, if any
+ */
+export async function recordQuestionDeal(
+    client: DatabaseClient,
+    userId: string,
+    questionId: string,
+    gameId?: string
+): Promise<void> {
+    try {
+        const backend = client.backend();
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<QuestionDeal>(GAME_COLLECTIONS.questionDeals);
+            await collection.insertOne({
+                userId,
+                ...(gameId && { gameId }),
+                questionId: new ObjectId(questionId),
+                dealtAt: new Date()
+            });
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            await db.run(
+                `INSERT INTO ${GAME_COLLECTIONS.questionDeals} (userId, gameId, questionId) VALUES (?, ?, ?)`,
+                [userId, gameId ?? null, questionId]
+            );
+        }
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.questionDeals}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Check a user's answer to a question they were dealt and settle the deal.
+ * Each deal can be answered once.
+ * @param client Database client
+ * @param userId User answering
+ * @param questionId Id of the question, as returned by /getQuestion
+ * @param answer Index of the chosen answer, or the text of the chosen answer
+ * @param gameId Game the question was dealt in, if any
+ * @returns Object containing success status and the result with payout, or an error message
+ */
+export async function answerQuestion(
+    client: DatabaseClient,
+    userId: string,
+    questionId: string,
+    answer: number | string,
+    gameId?: string
+): Promise<{ success: boolean; data: any }> {
+    try {
+        const notDealt = {
+            success: false,
+            data: { error: `No unanswered question ${questionId} dealt to ${userId}` }
+        };
+        const backend = client.backend();
+        const answeredAt = new Date();
+        let question: Question['data'];
+        let correct: boolean;
+        let chosen: number;
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<Question>(COLLECTIONS.questions.name);
+            if (!ObjectId.isValid(questionId)) {
+                return notDealt;
+            }
+            const item = await collection.findOne({ _id: new ObjectId(questionId) });
+            if (!item) {
+                return notDealt;
+            }
+            question = item.data;
+            chosen = resolveChoice(question, answer);
+            correct = chosen === question.answer;
+
+            const deals = backend.db.collection<QuestionDeal>(GAME_COLLECTIONS.questionDeals);
+            const deal = await deals.findOneAndUpdate(
+                {
+                    userId,
+                    gameId: gameId ?? null,
+                    questionId: item._id,
+                    answeredAt: { $exists: false }
+                } as any,
+                { $set: { answeredAt, answer: chosen, correct } },
+                { sort: { dealtAt: -1 } }
+            );
+            if (!deal) {
+                return notDealt;
+            }
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const item = await db.get(
+                `SELECT * FROM ${COLLECTIONS.questions.name} WHERE id = ?`,
+                [questionId]
+            );
+            if (!item) {
+                return notDealt;
+            }
+            question = JSON.parse(item.data);
+            chosen = resolveChoice(question, answer);
+            correct = chosen === question.answer;
+
+            // Settle the most recent unanswered deal in one statement so it can only be answered once
+            const result = await db.run(
+                `UPDATE ${GAME_COLLECTIONS.questionDeals} SET answeredAt = ?, answer = ?, correct = ?
+                WHERE id = (
+                    SELECT id FROM ${GAME_COLLECTIONS.questionDeals}
+                    WHERE userId = ? AND questionId = ? AND gameId IS ? AND answeredAt IS NULL
+                    ORDER BY dealtAt DESC, id DESC
+                    LIMIT 1
+                )`,
+                [answeredAt.toISOString(), chosen, correct, userId, item.id, gameId ?? null]
+            );
+            if (result.changes === 0) {
+                return notDealt;
+            }
+        }
+
+        return {
+            success: true,
+            data: {
+                questionId,
+                correct,
+                answer: chosen,
+                correctAnswer: question.answer,
+                correctChoice: question.choices?.[question.answer],
+                ...(question.explanation !== undefined && { explanation: question.explanation }),
+                payout: correct ? question.reward ?? 0 : -(question.penalty ?? 0)
+            }
+        };
+    } catch (error) {
+        console.error(`Database operation failed for ${COLLECTIONS.questions.name}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Turn an answer given as an index or as choice text into a choice index, -1 if it matches no choice
+ */
+function resolveChoice(question: Question['data'], answer: number | string): number {
+    const choices = question.choices ?? [];
+    if (typeof answer === 'number') {
+        return Number.isInteger(answer) && answer >= 0 && answer < choices.length ? answer : -1;
+    }
+    const text = answer.trim().toLowerCase();
+    return choices.findIndex(choice => choice.trim().toLowerCase() === text);
+}
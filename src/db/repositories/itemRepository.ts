@@ -0,0 +1,201 @@
+import { BaseItem } from '../../models/base';
+import { ArchivedItem } from '../../models/deckVersion';
+
+/**
+ * Item offered to an ItemPicker. Backends may fill data with only the type and weight.
+ */
+export interface DrawCandidate<T extends BaseItem = BaseItem> {
+    id: string;
+    data: T['data'];
+}
+
+/**
+ * Chooses the item to draw from the available ones, given in ascending id order
+ * @returns Index of the chosen candidate
+ */
+export type ItemPicker<T extends BaseItem = BaseItem> = (candidates: ReadonlyArray<DrawCandidate<T>>) => number;
+
+export interface DrawOptions<T extends BaseItem = BaseItem> {
+    /** Draw from the game's own used/unused state instead of the global one */
+    gameId?: string;
+    /** Draw only from this deck; without one, only from the base deck */
+    deckId?: string;
+    /** How to choose among the available items, uniformly at random if not given */
+    pick?: ItemPicker<T>;
+}
+
+/**
+ * Which drawn items of a deck to make drawable again
+ */
+export interface ResetOptions {
+    /** Only the items this game has drawn */
+    gameId?: string;
+    /** Only the items drawn by this user; ignored when a game is given */
+    userId?: string;
+    /** Deck to reset, the base deck if not given */
+    deckId?: string;
+    /** Number of most recently drawn items to leave out of the reset */
+    keepOut?: number;
+}
+
+/**
+ * Whose draws to look at: a user's, a game's, or a user's within a game
+ */
+export interface DrawScope {
+    userId?: string;
+    gameId?: string;
+}
+
+export type ItemSortField = 'createdAt' | 'id' | 'used' | 'type';
+
+export interface ListItemsOptions {
+    type?: string;
+    difficulty?: string;
+    createdBy?: string;
+    deckId?: string;
+    used?: boolean;
+    sort?: ItemSortField;
+    order?: 'asc' | 'desc';
+    page?: number;  // 1-based
+    limit?: number;
+}
+
+/**
+ * Item as returned to callers, with the backend specific id normalized to a string
+ */
+export interface ItemView<T extends BaseItem = BaseItem> {
+    id: string;
+    data: T['data'];
+    used: boolean;
+    assignedTo?: string;
+    createdBy?: string;
+    createdAt?: Date;
+    deckId?: string;
+}
+
+/**
+ * Item with its draw state and origin but without its id, used to copy items between backends
+ */
+export type ItemSnapshot<T extends BaseItem = BaseItem> = Omit<ItemView<T>, 'id'>;
+
+export interface NewItem<T extends BaseItem = BaseItem> {
+    data: T['data'];
+    createdAt?: Date;
+    deckId?: string;
+}
+
+/**
+ * The items a user had in one deck before their last replace
+ */
+export interface PreviousVersion {
+    deckId?: string;
+    items: ArchivedItem[];
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Number of times a draw is retried when another draw claimed the chosen item first
+export const MAX_CLAIM_ATTEMPTS = 10;
+
+/**
+ * Storage for one collection of items (events or questions), independent of the database backend
+ */
+export interface ItemRepository<T extends BaseItem = BaseItem> {
+    readonly collectionName: string;
+
+    /**
+     * Claim an item that is still available, atomically so concurrent draws never get the same item.
+     * Without a game this is an unused item not assigned to the user; with a game, an item the game has not drawn.
+     * @returns The claimed item, or null when nothing is available
+     */
+    draw(userId: string, options?: DrawOptions<T>): Promise<ItemView<T> | null>;
+
+    /**
+     * Every item of a deck, drawn or not, in ascending id order
+     * @param deckId Deck to list, the base deck if not given
+     */
+    listDeck(deckId?: string): Promise<ItemView<T>[]>;
+
+    /**
+     * The most recently drawn item: in a game when a gameId is given, otherwise the last one claimed by the user
+     */
+    lastDrawn(scope: DrawScope): Promise<ItemView<T> | null>;
+
+    /**
+     * Make the drawn items of a deck drawable again: for everybody, or only those drawn by one user or game
+     * @returns Number of items made available
+     */
+    reset(options?: ResetOptions): Promise<number>;
+
+    /**
+     * Insert the items only if the collection is empty
+     * @returns Whether the items were inserted
+     */
+    seed(items: ReadonlyArray<NewItem<T>>): Promise<boolean>;
+
+    /**
+     * Insert new unused items
+     * @returns Ids of the inserted items, in order
+     */
+    insert(items: ReadonlyArray<NewItem<T>>, createdBy?: string): Promise<string[]>;
+
+    /**
+     * Insert items keeping their used, assignedTo, createdBy and createdAt values.
+     * Items are inserted in order; if the insert fails, the items before the failing one may remain.
+     * @returns Ids of the inserted items, in order
+     */
+    insertSnapshots(items: ReadonlyArray<ItemSnapshot<T>>): Promise<string[]>;
+
+    /**
+     * Read items in ascending id order, a batch at a time
+     */
+    scan(offset: number, limit: number): Promise<ItemView<T>[]>;
+
+    list(options?: ListItemsOptions): Promise<{ items: ItemView<T>[]; total: number; page: number; limit: number }>;
+    findById(id: string): Promise<ItemView<T> | null>;
+    count(): Promise<number>;
+
+    /**
+     * Replace the stored data and/or used flag of one item
+     * @returns The updated item, or null if it does not exist
+     */
+    update(id: string, update: { data?: T['data']; used?: boolean }): Promise<ItemView<T> | null>;
+
+    /**
+     * Mark every unused item as used
+     * @returns Number of items changed
+     */
+    markAllUsed(): Promise<number>;
+
+    delete(id: string): Promise<boolean>;
+    deleteByCreator(userId: string): Promise<number>;
+
+    /**
+     * Replace the items created by a user in one deck in one transaction, keeping the replaced ones as
+     * the user's previous version of that deck. An empty current set does not overwrite an older previous version.
+     * @param deckId Deck to replace the items of, the base deck if not given
+     * @returns Ids of the replaced and the inserted items
+     */
+    replaceByCreator(
+        userId: string,
+        items: ReadonlyArray<NewItem<T>>,
+        deckId?: string
+    ): Promise<{ deletedCount: number; deletedIds: string[]; insertedIds: string[] }>;
+
+    /**
+     * The items a user had in a deck before their last replace of it, or null if there is none
+     * @param deckId Deck to look at, the base deck if not given
+     */
+    findPreviousVersion(userId: string, deckId?: string): Promise<PreviousVersion | null>;
+}
+
+/**
+ * Clamp the requested page and page size
+ */
+export function pageBounds(options: ListItemsOptions): { page: number; limit: number } {
+    return {
+        limit: Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE),
+        page: Math.max(options.page || 1, 1)
+    };
+}
@@ -0,0 +1,305 @@
+import { BaseItem } from '../../models/base';
+import {
+    DrawOptions,
+    DrawScope,
+    ItemPicker,
+    ItemRepository,
+    ItemSnapshot,
+    ItemView,
+    ListItemsOptions,
+    NewItem,
+    pageBounds,
+    PreviousVersion,
+    ResetOptions
+} from './itemRepository';
+
+interface StoredItem<T extends BaseItem> {
+    id: number;
+    data: T['data'];
+    used: boolean;
+    assignedTo?: string;
+    createdBy?: string;
+    createdAt: Date;
+    drawnAt?: number;  // Draw sequence number, so the latest draw is known even within one millisecond
+    deckId?: string;
+}
+
+/**
+ * Item repository kept in process memory, for tests and development without a database.
+ * All methods run synchronously inside a single tick, so each call is atomic.
+ */
+export class MemoryItemRepository<T extends BaseItem = BaseItem> implements ItemRepository<T> {
+    private items = new Map<number, StoredItem<T>>();
+    // Item ids drawn per game, in draw order, with the user each was drawn by
+    private gameDraws = new Map<string, Map<number, string>>();
+    private versions = new Map<string, PreviousVersion>();  // Keyed by versionKey
+    private nextId = 1;
+    private drawCount = 0;
+
+    /**
+     * @param collectionName Name of the collection this repository stands in for
+     * @param random Random number source in [0, 1)
+     */
+    constructor(public readonly collectionName: string, private readonly random: () => number = Math.random) {}
+
+    async draw(userId: string, options: DrawOptions<T> = {}): Promise<ItemView<T> | null> {
+        const pick = options.pick ?? this.pickUniform;
+        const deck = this.inDeck(options.deckId);
+        if (options.gameId) {
+            const drawn = this.drawnInGame(options.gameId);
+            const item = choose(deck.filter(item => !drawn.has(item.id)), pick);
+            if (!item) {
+                return null;
+            }
+            drawn.set(item.id, userId);
+            return toItemView(item);
+        }
+
+        const item = choose(deck.filter(item => !item.used && item.assignedTo !== userId), pick);
+        if (!item) {
+            return null;
+        }
+        item.used = true;
+        item.assignedTo = userId;
+        item.drawnAt = ++this.drawCount;
+        return toItemView(item);
+    }
+
+    async listDeck(deckId?: string): Promise<ItemView<T>[]> {
+        return this.inDeck(deckId).sort((a, b) => a.id - b.id).map(toItemView);
+    }
+
+    async lastDrawn(scope: DrawScope): Promise<ItemView<T> | null> {
+        if (scope.gameId) {
+            const draws = [...this.drawnInGame(scope.gameId)]
+                .filter(([, drawnBy]) => scope.userId === undefined || drawnBy === scope.userId);
+            const item = draws.length > 0 ? this.items.get(draws[draws.length - 1][0]) : undefined;
+            return item ? toItemView(item) : null;
+        }
+        const [item] = [...this.items.values()]
+            .filter(item => scope.userId !== undefined && item.assignedTo === scope.userId && item.drawnAt !== undefined)
+            .sort((a, b) => b.drawnAt! - a.drawnAt!);
+        return item ? toItemView(item) : null;
+    }
+
+    async reset(options: ResetOptions = {}): Promise<number> {
+        const keepOut = options.keepOut ?? 0;
+        const deck = this.inDeck(options.deckId);
+        if (options.gameId) {
+            const drawn = this.drawnInGame(options.gameId);
+            const deckIds = new Set(deck.map(item => item.id));
+            // Draws are kept in draw order, so the most recent ones are at the end
+            const deckDraws = [...drawn.keys()].filter(id => deckIds.has(id));
+            const reset = deckDraws.slice(0, Math.max(deckDraws.length - keepOut, 0));
+            reset.forEach(id => drawn.delete(id));
+            return reset.length;
+        }
+
+        const scope = deck.filter(item => options.userId === undefined || item.assignedTo === options.userId);
+        const kept = new Set(
+            scope
+                .filter(item => item.used)
+                .sort((a, b) => (b.drawnAt ?? 0) - (a.drawnAt ?? 0) || b.id - a.id)
+                .slice(0, keepOut)
+        );
+        const reset = scope.filter(item => !kept.has(item) && (item.used || item.assignedTo !== undefined));
+        for (const item of reset) {
+            item.used = false;
+            item.assignedTo = undefined;
+        }
+        return reset.length;
+    }
+
+    async seed(items: ReadonlyArray<NewItem<T>>): Promise<boolean> {
+        if (this.items.size > 0) {
+            return false;
+        }
+        this.insertSync(items);
+        return true;
+    }
+
+    async insert(items: ReadonlyArray<NewItem<T>>, createdBy?: string): Promise<string[]> {
+        return this.insertSync(items, createdBy);
+    }
+
+    async insertSnapshots(items: ReadonlyArray<ItemSnapshot<T>>): Promise<string[]> {
+        return items.map(item => {
+            const id = this.nextId++;
+            this.items.set(id, {
+                id,
+                data: structuredClone(item.data),
+                used: item.used,
+                ...(item.assignedTo !== undefined && { assignedTo: item.assignedTo }),
+                ...(item.createdBy !== undefined && { createdBy: item.createdBy }),
+                createdAt: item.createdAt ? new Date(item.createdAt) : new Date(),
+                ...(item.deckId !== undefined && { deckId: item.deckId })
+            });
+            return String(id);
+        });
+    }
+
+    async scan(offset: number, limit: number): Promise<ItemView<T>[]> {
+        return [...this.items.values()]
+            .sort((a, b) => a.id - b.id)
+            .slice(offset, offset + limit)
+            .map(toItemView);
+    }
+
+    async list(options: ListItemsOptions = {}) {
+        const { page, limit } = pageBounds(options);
+        const direction = options.order === 'asc' ? 1 : -1;
+        const sortKey = (item: StoredItem<T>): string | number => {
+            switch (options.sort || 'createdAt') {
+                case 'createdAt': return item.createdAt.getTime();
+                case 'id': return item.id;
+                case 'used': return Number(item.used);
+                case 'type': return String((item.data as Record<string, unknown>).type ?? '');
+            }
+        };
+
+        const matching = [...this.items.values()]
+            .filter(item =>
+                (options.type === undefined || (item.data as Record<string, unknown>).type === options.type) &&
+                (options.difficulty === undefined || (item.data as Record<string, unknown>).difficulty === options.difficulty) &&
+                (options.createdBy === undefined || item.createdBy === options.createdBy) &&
+                (options.deckId === undefined || item.deckId === options.deckId) &&
+                (options.used === undefined || item.used === options.used)
+            )
+            .sort((a, b) => {
+                const [keyA, keyB] = [sortKey(a), sortKey(b)];
+                return (keyA < keyB ? -1 : keyA > keyB ? 1 : a.id - b.id) * direction;
+            });
+
+        return {
+            items: matching.slice((page - 1) * limit, page * limit).map(toItemView),
+            total: matching.length,
+            page,
+            limit
+        };
+    }
+
+    async findById(id: string): Promise<ItemView<T> | null> {
+        const item = this.items.get(Number(id));
+        return item ? toItemView(item) : null;
+    }
+
+    async count(): Promise<number> {
+        return this.items.size;
+    }
+
+    async update(id: string, update: { data?: T['data']; used?: boolean }): Promise<ItemView<T> | null> {
+        const item = this.items.get(Number(id));
+        if (!item) {
+            return null;
+        }
+        if (update.data !== undefined) item.data = structuredClone(update.data);
+        if (update.used !== undefined) item.used = update.used;
+        return toItemView(item);
+    }
+
+    async markAllUsed(): Promise<number> {
+        let count = 0;
+        for (const item of this.items.values()) {
+            if (!item.used) {
+                item.used = true;
+                count++;
+            }
+        }
+        return count;
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.items.delete(Number(id));
+    }
+
+    async deleteByCreator(userId: string): Promise<number> {
+        return this.removeWhere(item => item.createdBy === userId).length;
+    }
+
+    async replaceByCreator(userId: string, items: ReadonlyArray<NewItem<T>>, deckId?: string) {
+        const current = this.removeWhere(item => item.createdBy === userId && item.deckId === deckId);
+        if (current.length > 0) {
+            this.versions.set(versionKey(userId, deckId), {
+                ...(deckId !== undefined && { deckId }),
+                items: current.map(({ data, createdAt }) => ({ data: structuredClone(data), createdAt }))
+            });
+        }
+        return {
+            deletedCount: current.length,
+            deletedIds: current.map(item => String(item.id)),
+            insertedIds: this.insertSync(items.map(item => ({ ...item, deckId })), userId)
+        };
+    }
+
+    async findPreviousVersion(userId: string, deckId?: string): Promise<PreviousVersion | null> {
+        return this.versions.get(versionKey(userId, deckId)) ?? null;
+    }
+
+    private insertSync(items: ReadonlyArray<NewItem<T>>, createdBy?: string): string[] {
+        return items.map(item => {
+            const id = this.nextId++;
+            this.items.set(id, {
+                id,
+                data: structuredClone(item.data),
+                used: false,
+                ...(createdBy !== undefined && { createdBy }),
+                createdAt: item.createdAt ? new Date(item.createdAt) : new Date(),
+                ...(item.deckId !== undefined && { deckId: item.deckId })
+            });
+            return String(id);
+        });
+    }
+
+    private inDeck(deckId?: string): StoredItem<T>[] {
+        return [...this.items.values()].filter(item => item.deckId === deckId);
+    }
+
+    private removeWhere(predicate: (item: StoredItem<T>) => boolean): StoredItem<T>[] {
+        const removed = [...this.items.values()].filter(predicate);
+        for (const item of removed) {
+            this.items.delete(item.id);
+        }
+        return removed;
+    }
+
+    private drawnInGame(gameId: string): Map<number, string> {
+        let drawn = this.gameDraws.get(gameId);
+        if (!drawn) {
+            drawn = new Map();
+            this.gameDraws.set(gameId, drawn);
+        }
+        return drawn;
+    }
+
+    private pickUniform: ItemPicker<T> = candidates => Math.floor(this.random() * candidates.length);
+}
+
+/**
+ * Let the picker choose among the candidates in ascending id order, like the database backends do
+ */
+function choose<T extends BaseItem>(candidates: StoredItem<T>[], pick: ItemPicker<T>): StoredItem<T> | undefined {
+    if (candidates.length === 0) {
+        return undefined;
+    }
+    const sorted = candidates.sort((a, b) => a.id - b.id);
+    return sorted[pick(sorted.map(toItemView))];
+}
+
+/**
+ * Key of a user's previous version of a deck
+ */
+function versionKey(userId: string, deckId?: string): string {
+    return JSON.stringify([userId, deckId ?? null]);
+}
+
+function toItemView<T extends BaseItem>(item: StoredItem<T>): ItemView<T> {
+    return {
+        id: String(item.id),
+        data: structuredClone(item.data),
+        used: item.used,
+        ...(item.assignedTo !== undefined && { assignedTo: item.assignedTo }),
+        ...(item.createdBy !== undefined && { createdBy: item.createdBy }),
+        createdAt: item.createdAt,
+        ...(item.deckId !== undefined && { deckId: item.deckId })
+    };
+}
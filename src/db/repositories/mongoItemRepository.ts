@@ -0,0 +1,386 @@
+import { Collection, Db, Document, Filter, MongoClient, MongoServerError, ObjectId } from 'mongodb';
+import { BaseItem } from '../../models/base';
+import { GameDraw } from '../../models/game';
+import { DeckVersion } from '../../models/deckVersion';
+import { GAME_COLLECTIONS } from '../../config/collections';
+import {
+    DrawOptions,
+    DrawScope,
+    ItemPicker,
+    ItemRepository,
+    ItemSnapshot,
+    ItemView,
+    ListItemsOptions,
+    MAX_CLAIM_ATTEMPTS,
+    NewItem,
+    pageBounds,
+    PreviousVersion,
+    ResetOptions
+} from './itemRepository';
+
+// MongoDB error code for a unique index violation
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Item fields a draw picker looks at: the type and the card weight
+const PICKER_FIELDS = { 'data.type': 1, 'data.weight': 1 } as const;
+
+const SORT_FIELDS = { createdAt: 'createdAt', id: '_id', used: 'used', type: 'data.type' } as const;
+
+export class MongoItemRepository<T extends BaseItem = BaseItem> implements ItemRepository<T> {
+    private collection: Collection<BaseItem>;
+    private draws: Collection<GameDraw>;
+    private versions: Collection<DeckVersion>;
+
+    constructor(private readonly client: MongoClient, db: Db, public readonly collectionName: string) {
+        this.collection = db.collection<BaseItem>(collectionName);
+        this.draws = db.collection<GameDraw>(GAME_COLLECTIONS.gameDraws);
+        this.versions = db.collection<DeckVersion>(GAME_COLLECTIONS.deckVersions);
+    }
+
+    async draw(userId: string, options: DrawOptions<T> = {}): Promise<ItemView<T> | null> {
+        if (options.gameId) {
+            return this.drawForGame(userId, options.gameId, options.deckId, options.pick);
+        }
+
+        const available: Filter<BaseItem> = { used: false, assignedTo: { $ne: userId }, ...inDeck(options.deckId) };
+        for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+            const itemId = await this.chooseItem([{ $match: available }], options.pick);
+            if (!itemId) {
+                return null;
+            }
+
+            // Guarded on the item still being available, so a concurrent draw cannot claim it too
+            const claimed = await this.collection.findOneAndUpdate(
+                { ...available, _id: itemId },
+                { $set: { used: true, assignedTo: userId, drawnAt: new Date() } },
+                { returnDocument: 'after' }
+            );
+            if (claimed) {
+                return toItemView<T>(claimed);
+            }
+        }
+        throw new Error(`Could not claim an item after ${MAX_CLAIM_ATTEMPTS} attempts`);
+    }
+
+    async listDeck(deckId?: string): Promise<ItemView<T>[]> {
+        const documents = await this.collection.find(inDeck(deckId)).sort({ _id: 1 }).toArray();
+        return documents.map(document => toItemView<T>(document));
+    }
+
+    async lastDrawn(scope: DrawScope): Promise<ItemView<T> | null> {
+        if (scope.gameId) {
+            const [draw] = await this.draws
+                .find({
+                    gameId: scope.gameId,
+                    collection: this.collectionName,
+                    ...(scope.userId !== undefined && { assignedTo: scope.userId })
+                })
+                .sort({ drawnAt: -1, _id: -1 })
+                .limit(1)
+                .toArray();
+            const document = draw && await this.collection.findOne({ _id: draw.itemId as ObjectId });
+            return document ? toItemView<T>(document) : null;
+        }
+        if (scope.userId === undefined) {
+            return null;
+        }
+        const [document] = await this.collection
+            .find({ assignedTo: scope.userId, drawnAt: { $exists: true } })
+            .sort({ drawnAt: -1, _id: -1 })
+            .limit(1)
+            .toArray();
+        return document ? toItemView<T>(document) : null;
+    }
+
+    async reset(options: ResetOptions = {}): Promise<number> {
+        const keepOut = options.keepOut ?? 0;
+        if (options.gameId) {
+            const deckItems = await this.collection.find(inDeck(options.deckId), { projection: { _id: 1 } }).toArray();
+            const deckDraws = {
+                gameId: options.gameId,
+                collection: this.collectionName,
+                itemId: { $in: deckItems.map(item => item._id!) }
+            };
+            // A limit of 0 means no limit in MongoDB, so only look up kept draws when there are any
+            const kept = keepOut > 0
+                ? await this.draws.find(deckDraws).sort({ drawnAt: -1, _id: -1 }).limit(keepOut).toArray()
+                : [];
+            const result = await this.draws.deleteMany({ ...deckDraws, _id: { $nin: kept.map(draw => draw._id!) } });
+            return result.deletedCount;
+        }
+
+        const scope: Filter<BaseItem> = {
+            ...inDeck(options.deckId),
+            ...(options.userId !== undefined && { assignedTo: options.userId })
+        };
+        const kept = keepOut > 0
+            ? await this.collection.find({ ...scope, used: true }).sort({ drawnAt: -1, _id: -1 }).limit(keepOut).toArray()
+            : [];
+        const result = await this.collection.updateMany(
+            {
+                ...scope,
+                $or: [{ used: true }, { assignedTo: { $ne: null } }],
+                _id: { $nin: kept.map(item => item._id!) }
+            } as Filter<BaseItem>,
+            { $set: { used: false, assignedTo: undefined } }
+        );
+        return result.modifiedCount;
+    }
+
+    async seed(items: ReadonlyArray<NewItem<T>>): Promise<boolean> {
+        if (await this.collection.countDocuments({}, { limit: 1 }) > 0) {
+            return false;
+        }
+        await this.insert(items);
+        return true;
+    }
+
+    async insert(items: ReadonlyArray<NewItem<T>>, createdBy?: string): Promise<string[]> {
+        if (items.length === 0) {
+            return [];
+        }
+        const result = await this.collection.insertMany(items.map(item => toDocument(item, createdBy)));
+        return items.map((_, index) => result.insertedIds[index].toHexString());
+    }
+
+    async insertSnapshots(items: ReadonlyArray<ItemSnapshot<T>>): Promise<string[]> {
+        if (items.length === 0) {
+            return [];
+        }
+        const result = await this.collection.insertMany(
+            items.map(item => ({
+                data: item.data,
+                used: item.used,
+                assignedTo: item.assignedTo,
+                ...(item.createdBy !== undefined && { createdBy: item.createdBy }),
+                createdAt: item.createdAt ? new Date(item.createdAt) : new Date(),
+                ...(item.deckId !== undefined && { deckId: item.deckId })
+            })),
+            { ordered: true }
+        );
+        return items.map((_, index) => result.insertedIds[index].toHexString());
+    }
+
+    async scan(offset: number, limit: number): Promise<ItemView<T>[]> {
+        const documents = await this.collection.find().sort({ _id: 1 }).skip(offset).limit(limit).toArray();
+        return documents.map(document => toItemView<T>(document));
+    }
+
+    async list(options: ListItemsOptions = {}) {
+        const { page, limit } = pageBounds(options);
+        const direction = options.order === 'asc' ? 1 : -1;
+        const filter: Record<string, any> = {};
+        if (options.type !== undefined) filter['data.type'] = options.type;
+        if (options.difficulty !== undefined) filter['data.difficulty'] = options.difficulty;
+        if (options.createdBy !== undefined) filter.createdBy = options.createdBy;
+        if (options.deckId !== undefined) filter.deckId = options.deckId;
+        if (options.used !== undefined) filter.used = options.used;
+
+        const total = await this.collection.countDocuments(filter);
+        const documents = await this.collection.find(filter)
+            .sort({ [SORT_FIELDS[options.sort || 'createdAt']]: direction, _id: direction })
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .toArray();
+
+        return { items: documents.map(document => toItemView<T>(document)), total, page, limit };
+    }
+
+    async findById(id: string): Promise<ItemView<T> | null> {
+        if (!ObjectId.isValid(id)) {
+            return null;
+        }
+        const document = await this.collection.findOne({ _id: new ObjectId(id) });
+        return document ? toItemView<T>(document) : null;
+    }
+
+    async count(): Promise<number> {
+        return this.collection.countDocuments();
+    }
+
+    async update(id: string, update: { data?: T['data']; used?: boolean }): Promise<ItemView<T> | null> {
+        if (!ObjectId.isValid(id)) {
+            return null;
+        }
+        const document = await this.collection.findOneAndUpdate(
+            { _id: new ObjectId(id) },
+            {
+                $set: {
+                    ...(update.data !== undefined && { data: update.data }),
+                    ...(update.used !== undefined && { used: update.used })
+                }
+            },
+            { returnDocument: 'after' }
+        );
+        return document ? toItemView<T>(document) : null;
+    }
+
+    async markAllUsed(): Promise<number> {
+        const result = await this.collection.updateMany({ used: false }, { $set: { used: true } });
+        return result.modifiedCount;
+    }
+
+    async delete(id: string): Promise<boolean> {
+        if (!ObjectId.isValid(id)) {
+            return false;
+        }
+        const result = await this.collection.deleteOne({ _id: new ObjectId(id) });
+        return result.deletedCount > 0;
+    }
+
+    async deleteByCreator(userId: string): Promise<number> {
+        const result = await this.collection.deleteMany({ createdBy: userId });
+        return result.deletedCount;
+    }
+
+    async replaceByCreator(userId: string, items: ReadonlyArray<NewItem<T>>, deckId?: string) {
+        const scope: Filter<BaseItem> = { ...inDeck(deckId), createdBy: userId };
+        // Multi-document transactions need a replica set or sharded cluster
+        const session = this.client.startSession();
+        try {
+            let result!: { deletedCount: number; deletedIds: string[]; insertedIds: string[] };
+            await session.withTransaction(async () => {
+                const current = await this.collection.find(scope, { session }).toArray();
+                const deleteResult = await this.collection.deleteMany(scope, { session });
+
+                if (current.length > 0) {
+                    await this.versions.updateOne(
+                        { collection: this.collectionName, userId, deckId: deckId ?? null },
+                        {
+                            $set: {
+                                items: current.map(({ data, createdAt }) => ({ data, createdAt })),
+                                replacedAt: new Date()
+                            }
+                        },
+                        { upsert: true, session }
+                    );
+                }
+
+                let insertedIds: string[] = [];
+                if (items.length > 0) {
+                    const insertResult = await this.collection.insertMany(
+                        items.map(item => toDocument({ ...item, deckId }, userId)),
+                        { session }
+                    );
+                    insertedIds = items.map((_, index) => insertResult.insertedIds[index].toHexString());
+                }
+                result = {
+                    deletedCount: deleteResult.deletedCount,
+                    deletedIds: current.map(document => document._id!.toHexString()),
+                    insertedIds
+                };
+            });
+            return result;
+        } finally {
+            await session.endSession();
+        }
+    }
+
+    async findPreviousVersion(userId: string, deckId?: string): Promise<PreviousVersion | null> {
+        const version = await this.versions.findOne({ collection: this.collectionName, userId, deckId: deckId ?? null });
+        if (!version) {
+            return null;
+        }
+        return {
+            ...(version.deckId != null && { deckId: version.deckId }),
+            items: version.items
+        };
+    }
+
+    /**
+     * Pick an item the game has not drawn yet and record the draw.
+     * The unique (gameId, collection, itemId) index rejects a second claim of the same item.
+     */
+    private async drawForGame(userId: string, gameId: string, deckId: string | undefined, pick?: ItemPicker<T>): Promise<ItemView<T> | null> {
+        const drawFilter = { gameId, collection: this.collectionName };
+        const notDrawn = [
+            { $match: inDeck(deckId) },
+            {
+                $lookup: {
+                    from: GAME_COLLECTIONS.gameDraws,
+                    let: { itemId: '$_id' },
+                    pipeline: [
+                        { $match: { ...drawFilter, $expr: { $eq: ['$itemId', '$$itemId'] } } },
+                        { $limit: 1 },
+                        { $project: { _id: 1 } }
+                    ],
+                    as: 'draws'
+                }
+            },
+            { $match: { draws: { $size: 0 } } }
+        ];
+
+        for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+            const itemId = await this.chooseItem(notDrawn, pick);
+            if (!itemId) {
+                return null;
+            }
+
+            try {
+                await this.draws.insertOne({ ...drawFilter, itemId, assignedTo: userId, drawnAt: new Date() });
+            } catch (error) {
+                if (error instanceof MongoServerError && error.code === DUPLICATE_KEY_ERROR) {
+                    continue;
+                }
+                throw error;
+            }
+            const document = await this.collection.findOne({ _id: itemId });
+            if (document) {
+                return toItemView<T>(document);
+            }
+        }
+        throw new Error(`Could not claim an item after ${MAX_CLAIM_ATTEMPTS} attempts`);
+    }
+
+    /**
+     * Choose among the items the pipeline matches, on the server with $sample when there is no picker.
+     * A picker is offered only the fields it needs, so the documents are not all loaded on each draw.
+     * @returns Id of the chosen item, or null when the pipeline matches nothing
+     */
+    private async chooseItem(match: Document[], pick?: ItemPicker<T>): Promise<ObjectId | null> {
+        if (!pick) {
+            const [sampled] = await this.collection
+                .aggregate<{ _id: ObjectId }>([...match, { $sample: { size: 1 } }, { $project: { _id: 1 } }])
+                .toArray();
+            return sampled?._id ?? null;
+        }
+
+        const candidates = await this.collection
+            .aggregate<{ _id: ObjectId; data: T['data'] }>([...match, { $sort: { _id: 1 } }, { $project: PICKER_FIELDS }])
+            .toArray();
+        if (candidates.length === 0) {
+            return null;
+        }
+        return candidates[pick(candidates.map(candidate => ({ id: candidate._id.toHexString(), data: candidate.data })))]._id;
+    }
+}
+
+/**
+ * Filter for the items of a deck; null also matches items stored without a deckId, i.e. the base deck
+ */
+function inDeck(deckId?: string): Filter<BaseItem> {
+    return { deckId: deckId ?? null } as Filter<BaseItem>;
+}
+
+function toDocument<T extends BaseItem>(item: NewItem<T>, createdBy?: string): BaseItem {
+    return {
+        data: item.data,
+        used: false,
+        assignedTo: undefined,
+        ...(createdBy !== undefined && { createdBy }),
+        createdAt: item.createdAt ? new Date(item.createdAt) : new Date(),
+        ...(item.deckId !== undefined && { deckId: item.deckId })
+    };
+}
+
+function toItemView<T extends BaseItem>(document: BaseItem): ItemView<T> {
+    return {
+        id: document._id!.toHexString(),
+        data: document.data as T['data'],
+        used: document.used,
+        ...(document.assignedTo != null && { assignedTo: document.assignedTo }),
+        ...(document.createdBy != null && { createdBy: document.createdBy }),
+        ...(document.createdAt != null && { createdAt: document.createdAt }),
+        ...(document.deckId != null && { deckId: document.deckId })
+    };
+}
@@ -0,0 +1,378 @@
+import { Database } from 'sqlite';
+import { BaseItem } from '../../models/base';
+import { ArchivedItem } from '../../models/deckVersion';
+import { GAME_COLLECTIONS } from '../../config/collections';
+import { withTransaction } from '../transaction';
+import {
+    DrawOptions,
+    DrawScope,
+    ItemPicker,
+    ItemRepository,
+    ItemSnapshot,
+    ItemView,
+    ListItemsOptions,
+    MAX_CLAIM_ATTEMPTS,
+    NewItem,
+    pageBounds,
+    PreviousVersion,
+    ResetOptions
+} from './itemRepository';
+
+const SORT_COLUMNS = { createdAt: 'createdAt', id: 'id', used: 'used', type: `json_extract(data, '$.type')` } as const;
+
+export class SQLiteItemRepository<T extends BaseItem = BaseItem> implements ItemRepository<T> {
+    constructor(private readonly db: Database, public readonly collectionName: string) {}
+
+    async draw(userId: string, options: DrawOptions<T> = {}): Promise<ItemView<T> | null> {
+        return withTransaction(this.db, async () => {
+            if (options.gameId) {
+                return this.drawForGame(userId, options.gameId, options.deckId, options.pick);
+            }
+
+            for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+                const itemId = await this.chooseItem(
+                    'used = FALSE AND (assignedTo IS NULL OR assignedTo != ?) AND deckId IS ?',
+                    [userId, options.deckId ?? null],
+                    options.pick
+                );
+                if (itemId === null) {
+                    return null;
+                }
+
+                // Guarded on the item still being unused, so a concurrent draw cannot claim it too
+                const result = await this.db.run(
+                    `UPDATE ${this.collectionName} SET used = TRUE, assignedTo = ?, drawnAt = ? WHERE id = ? AND used = FALSE`,
+                    [userId, new Date().toISOString(), itemId]
+                );
+                if (result.changes === 1) {
+                    return this.findById(String(itemId));
+                }
+            }
+            throw new Error(`Could not claim an item after ${MAX_CLAIM_ATTEMPTS} attempts`);
+        });
+    }
+
+    async listDeck(deckId?: string): Promise<ItemView<T>[]> {
+        const rows = await this.db.all(
+            `SELECT * FROM ${this.collectionName} WHERE deckId IS ? ORDER BY id ASC`,
+            [deckId ?? null]
+        );
+        return rows.map(row => toItemView<T>(row));
+    }
+
+    async lastDrawn(scope: DrawScope): Promise<ItemView<T> | null> {
+        if (scope.gameId) {
+            const row = await this.db.get(
+                `SELECT item.* FROM ${GAME_COLLECTIONS.gameDraws} draw
+                JOIN ${this.collectionName} item ON item.id = draw.itemId
+                WHERE draw.gameId = ? AND draw.collection = ? AND (? IS NULL OR draw.assignedTo = ?)
+                ORDER BY draw.id DESC
+                LIMIT 1`,
+                [scope.gameId, this.collectionName, scope.userId ?? null, scope.userId ?? null]
+            );
+            return row ? toItemView<T>(row) : null;
+        }
+        if (scope.userId === undefined) {
+            return null;
+        }
+        const row = await this.db.get(
+            `SELECT * FROM ${this.collectionName}
+            WHERE assignedTo = ? AND drawnAt IS NOT NULL
+            ORDER BY drawnAt DESC, id DESC
+            LIMIT 1`,
+            [scope.userId]
+        );
+        return row ? toItemView<T>(row) : null;
+    }
+
+    async reset(options: ResetOptions = {}): Promise<number> {
+        const deckId = options.deckId ?? null;
+        const keepOut = options.keepOut ?? 0;
+        if (options.gameId) {
+            const deckDraws = `SELECT draw.id FROM ${GAME_COLLECTIONS.gameDraws} draw
+                JOIN ${this.collectionName} item ON item.id = draw.itemId
+                WHERE draw.gameId = ? AND draw.collection = ? AND item.deckId IS ?`;
+            const result = await this.db.run(
+                `DELETE FROM ${GAME_COLLECTIONS.gameDraws}
+                WHERE id IN (${deckDraws})
+                AND id NOT IN (${deckDraws} ORDER BY draw.id DESC LIMIT ?)`,
+                [options.gameId, this.collectionName, deckId, options.gameId, this.collectionName, deckId, keepOut]
+            );
+            return result.changes ?? 0;
+        }
+
+        const userId = options.userId ?? null;
+        const result = await this.db.run(
+            `UPDATE ${this.collectionName} SET used = FALSE, assignedTo = NULL
+            WHERE deckId IS ? AND (? IS NULL OR assignedTo = ?) AND (used = TRUE OR assignedTo IS NOT NULL)
+            AND id NOT IN (
+                SELECT id FROM ${this.collectionName}
+                WHERE deckId IS ? AND (? IS NULL OR assignedTo = ?) AND used = TRUE
+                ORDER BY drawnAt DESC, id DESC
+                LIMIT ?
+            )`,
+            [deckId, userId, userId, deckId, userId, userId, keepOut]
+        );
+        return result.changes ?? 0;
+    }
+
+    async seed(items: ReadonlyArray<NewItem<T>>): Promise<boolean> {
+        return withTransaction(this.db, async () => {
+            const count = await this.db.get(`SELECT COUNT(*) as count FROM ${this.collectionName}`);
+            if (count.count > 0) {
+                return false;
+            }
+            await this.insertRows(items);
+            return true;
+        });
+    }
+
+    async insert(items: ReadonlyArray<NewItem<T>>, createdBy?: string): Promise<string[]> {
+        return withTransaction(this.db, () => this.insertRows(items, createdBy));
+    }
+
+    async insertSnapshots(items: ReadonlyArray<ItemSnapshot<T>>): Promise<string[]> {
+        return withTransaction(this.db, async () => {
+            const insertedIds: string[] = [];
+            for (const item of items) {
+                const result = await this.db.run(
+                    `INSERT INTO ${this.collectionName} (data, used, assignedTo, createdBy, createdAt, deckId)
+                    VALUES (?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP), ?)`,
+                    [
+                        JSON.stringify(item.data),
+                        item.used,
+                        item.assignedTo ?? null,
+                        item.createdBy ?? null,
+                        toSQLiteTimestamp(item.createdAt),
+                        item.deckId ?? null
+                    ]
+                );
+                insertedIds.push(String(result.lastID));
+            }
+            return insertedIds;
+        });
+    }
+
+    async scan(offset: number, limit: number): Promise<ItemView<T>[]> {
+        const rows = await this.db.all(
+            `SELECT * FROM ${this.collectionName} ORDER BY id ASC LIMIT ? OFFSET ?`,
+            [limit, offset]
+        );
+        return rows.map(row => toItemView<T>(row));
+    }
+
+    async list(options: ListItemsOptions = {}) {
+        const { page, limit } = pageBounds(options);
+        const conditions: string[] = [];
+        const params: any[] = [];
+        if (options.type !== undefined) {
+            conditions.push(`json_extract(data, '$.type') = ?`);
+            params.push(options.type);
+        }
+        if (options.difficulty !== undefined) {
+            conditions.push(`json_extract(data, '$.difficulty') = ?`);
+            params.push(options.difficulty);
+        }
+        if (options.createdBy !== undefined) {
+            conditions.push('createdBy = ?');
+            params.push(options.createdBy);
+        }
+        if (options.deckId !== undefined) {
+            conditions.push('deckId = ?');
+            params.push(options.deckId);
+        }
+        if (options.used !== undefined) {
+            conditions.push('used = ?');
+            params.push(options.used);
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const sortOrder = options.order === 'asc' ? 'ASC' : 'DESC';
+
+        const count = await this.db.get(`SELECT COUNT(*) as count FROM ${this.collectionName} ${where}`, params);
+        const rows = await this.db.all(
+            `SELECT * FROM ${this.collectionName} ${where}
+            ORDER BY ${SORT_COLUMNS[options.sort || 'createdAt']} ${sortOrder}, id ${sortOrder}
+            LIMIT ? OFFSET ?`,
+            [...params, limit, (page - 1) * limit]
+        );
+
+        return { items: rows.map(row => toItemView<T>(row)), total: count.count, page, limit };
+    }
+
+    async findById(id: string): Promise<ItemView<T> | null> {
+        const row = await this.db.get(`SELECT * FROM ${this.collectionName} WHERE id = ?`, [id]);
+        return row ? toItemView<T>(row) : null;
+    }
+
+    async count(): Promise<number> {
+        const result = await this.db.get(`SELECT COUNT(*) as count FROM ${this.collectionName}`);
+        return result.count;
+    }
+
+    async update(id: string, update: { data?: T['data']; used?: boolean }): Promise<ItemView<T> | null> {
+        const assignments: string[] = [];
+        const params: any[] = [];
+        if (update.data !== undefined) {
+            assignments.push('data = ?');
+            params.push(JSON.stringify(update.data));
+        }
+        if (update.used !== undefined) {
+            assignments.push('used = ?');
+            params.push(update.used);
+        }
+        if (assignments.length > 0) {
+            await this.db.run(
+                `UPDATE ${this.collectionName} SET ${assignments.join(', ')} WHERE id = ?`,
+                [...params, id]
+            );
+        }
+        return this.findById(id);
+    }
+
+    async markAllUsed(): Promise<number> {
+        const result = await this.db.run(
+            `UPDATE ${this.collectionName} SET used = TRUE WHERE used = FALSE`
+        );
+        return result.changes ?? 0;
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const result = await this.db.run(`DELETE FROM ${this.collectionName} WHERE id = ?`, [id]);
+        return (result.changes ?? 0) > 0;
+    }
+
+    async deleteByCreator(userId: string): Promise<number> {
+        const result = await this.db.run(
+            `DELETE FROM ${this.collectionName} WHERE createdBy = ?`,
+            [userId]
+        );
+        return result.changes ?? 0;
+    }
+
+    async replaceByCreator(userId: string, items: ReadonlyArray<NewItem<T>>, deckId?: string) {
+        return withTransaction(this.db, async () => {
+            const current = await this.db.all(
+                `SELECT id, data, createdAt FROM ${this.collectionName} WHERE createdBy = ? AND deckId IS ?`,
+                [userId, deckId ?? null]
+            );
+            const deleteResult = await this.db.run(
+                `DELETE FROM ${this.collectionName} WHERE createdBy = ? AND deckId IS ?`,
+                [userId, deckId ?? null]
+            );
+
+            if (current.length > 0) {
+                const archived: ArchivedItem[] = current.map(row => ({ data: JSON.parse(row.data), createdAt: row.createdAt }));
+                await this.db.run(
+                    `INSERT INTO ${GAME_COLLECTIONS.deckVersions} (collection, userId, deckId, items, replacedAt) VALUES (?, ?, ?, ?, ?)
+                    ON CONFLICT (collection, userId, COALESCE(deckId, '')) DO UPDATE
+                    SET items = excluded.items, replacedAt = excluded.replacedAt`,
+                    [this.collectionName, userId, deckId ?? null, JSON.stringify(archived), new Date().toISOString()]
+                );
+            }
+
+            const insertedIds = await this.insertRows(items.map(item => ({ ...item, deckId })), userId);
+            return {
+                deletedCount: deleteResult.changes ?? 0,
+                deletedIds: current.map(row => String(row.id)),
+                insertedIds
+            };
+        });
+    }
+
+    async findPreviousVersion(userId: string, deckId?: string): Promise<PreviousVersion | null> {
+        const version = await this.db.get(
+            `SELECT items, deckId FROM ${GAME_COLLECTIONS.deckVersions} WHERE collection = ? AND userId = ? AND deckId IS ?`,
+            [this.collectionName, userId, deckId ?? null]
+        );
+        if (!version) {
+            return null;
+        }
+        return {
+            ...(version.deckId != null && { deckId: version.deckId }),
+            items: JSON.parse(version.items)
+        };
+    }
+
+    /**
+     * Pick a row the game has not drawn yet and record the draw. Must run inside a transaction.
+     */
+    private async drawForGame(userId: string, gameId: string, deckId: string | undefined, pick?: ItemPicker<T>): Promise<ItemView<T> | null> {
+        // Items already drawn in this game are tracked in the game_draws table
+        const itemId = await this.chooseItem(
+            `id NOT IN (SELECT itemId FROM ${GAME_COLLECTIONS.gameDraws} WHERE gameId = ? AND collection = ?) AND deckId IS ?`,
+            [gameId, this.collectionName, deckId ?? null],
+            pick
+        );
+        if (itemId === null) {
+            return null;
+        }
+
+        await this.db.run(
+            `INSERT INTO ${GAME_COLLECTIONS.gameDraws} (gameId, collection, itemId, assignedTo) VALUES (?, ?, ?, ?)`,
+            [gameId, this.collectionName, itemId, userId]
+        );
+        return this.findById(String(itemId));
+    }
+
+    /**
+     * Choose among the rows the condition matches, in SQL with RANDOM() when there is no picker.
+     * A picker is offered only the type and weight, so the rows are not all parsed on each draw.
+     * @returns Id of the chosen row, or null when the condition matches nothing
+     */
+    private async chooseItem(where: string, params: unknown[], pick?: ItemPicker<T>): Promise<number | null> {
+        if (!pick) {
+            const row = await this.db.get(
+                `SELECT id FROM ${this.collectionName} WHERE ${where} ORDER BY RANDOM() LIMIT 1`,
+                params
+            );
+            return row?.id ?? null;
+        }
+
+        const rows = await this.db.all(
+            `SELECT id, json_object('type', json_extract(data, '$.type'), 'weight', json_extract(data, '$.weight')) AS data
+            FROM ${this.collectionName} WHERE ${where} ORDER BY id ASC`,
+            params
+        );
+        if (rows.length === 0) {
+            return null;
+        }
+        const candidates = rows.map(row => ({ id: String(row.id), data: JSON.parse(row.data) }));
+        return rows[pick(candidates)].id;
+    }
+
+    private async insertRows(items: ReadonlyArray<NewItem<T>>, createdBy?: string): Promise<string[]> {
+        const insertedIds: string[] = [];
+        for (const item of items) {
+            const result = await this.db.run(
+                `INSERT INTO ${this.collectionName} (data, used, createdBy, createdAt, deckId)
+                VALUES (?, FALSE, ?, COALESCE(?, CURRENT_TIMESTAMP), ?)`,
+                [JSON.stringify(item.data), createdBy ?? null, toSQLiteTimestamp(item.createdAt), item.deckId ?? null]
+            );
+            insertedIds.push(String(result.lastID));
+        }
+        return insertedIds;
+    }
+}
+
+function toItemView<T extends BaseItem>(row: any): ItemView<T> {
+    return {
+        id: String(row.id),
+        data: JSON.parse(row.data),
+        used: Boolean(row.used),
+        ...(row.assignedTo != null && { assignedTo: row.assignedTo }),
+        ...(row.createdBy != null && { createdBy: row.createdBy }),
+        ...(row.createdAt != null && { createdAt: row.createdAt }),
+        ...(row.deckId != null && { deckId: row.deckId })
+    };
+}
+
+/**
+ * Format a timestamp the way CURRENT_TIMESTAMP does, so stored dates sort consistently
+ */
+function toSQLiteTimestamp(value: Date | string | undefined): string | null {
+    if (value === undefined || value === null) {
+        return null;
+    }
+    return typeof value === 'string' ? value : value.toISOString().replace('T', ' ').slice(0, 19);
+}
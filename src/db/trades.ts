@@ -0,0 +1,172 @@
+import { ObjectId, WithId } from 'mongodb';
+import { DatabaseClient } from './database';
+import { Trade } from '../models/auction';
+import { GAME_COLLECTIONS } from '../config/collections';
+
+/**
+ * Trade as returned to API callers, with the backend specific id normalized to a string
+ */
+export interface TradeView extends Omit<Trade, '_id'> {
+    id: string;
+}
+
+export type NewTrade = Pick<Trade, 'gameId' | 'property' | 'proposer' | 'itemId' | 'price'>;
+
+/**
+ * Open a trade, waiting for the proposer to name the other player and the price
+ * @param client Database client
+ * @param trade Game, property, proposer and suggested price of the trade
+ * @returns The opened trade
+ */
+export async function openTrade(
+    client: DatabaseClient,
+    trade: NewTrade
+): Promise<TradeView> {
+    try {
+        const backend = client.backend();
+        const opened: Trade = { ...trade, status: 'open', createdAt: new Date() };
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<Trade>(GAME_COLLECTIONS.trades);
+            const result = await collection.insertOne(opened);
+            return toTradeView({ ...opened, _id: result.insertedId });
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const result = await db.run(
+                `INSERT INTO ${GAME_COLLECTIONS.trades} (gameId, property, proposer, itemId, price, status, createdAt)
+                VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    opened.gameId,
+                    opened.property,
+                    opened.proposer,
+                    opened.itemId,
+                    opened.price,
+                    opened.status,
+                    opened.createdAt.toISOString()
+                ]
+            );
+            return { id: String(result.lastID), ...opened };
+        }
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.trades}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Find a trade by id
+ * @returns The trade, or null if no trade exists with this id
+ */
+export async function findTrade(
+    client: DatabaseClient,
+    tradeId: string
+): Promise<TradeView | null> {
+    const backend = client.backend();
+
+    if (backend.type === 'mongodb') {
+        // MongoDB operations
+        const collection = backend.db.collection<Trade>(GAME_COLLECTIONS.trades);
+        if (!ObjectId.isValid(tradeId)) {
+            return null;
+        }
+        const trade = await collection.findOne({ _id: new ObjectId(tradeId) });
+        return trade ? toTradeView(trade) : null;
+    } else {
+        // SQLite operations
+        const db = backend.db;
+        const row = await db.get(`SELECT * FROM ${GAME_COLLECTIONS.trades} WHERE id = ?`, [tradeId]);
+        return row ? fromRow(row) : null;
+    }
+}
+
+/**
+ * Propose an open trade to another player
+ * @param client Database client
+ * @param tradeId Trade to propose
+ * @param recipient Player the trade is proposed to
+ * @param price What the buyer pays the seller
+ * @returns The proposed trade, or null if the trade was no longer open
+ */
+export async function proposeTrade(
+    client: DatabaseClient,
+    tradeId: string,
+    recipient: string,
+    price: number
+): Promise<TradeView | null> {
+    return changeTrade(client, tradeId, 'open', { recipient, price, status: 'proposed' });
+}
+
+/**
+ * Accept or reject a proposed trade
+ * @param client Database client
+ * @param tradeId Trade to respond to
+ * @param accept Whether the recipient accepts the trade
+ * @returns The answered trade, or null if the trade was not waiting for an answer
+ */
+export async function respondToTrade(
+    client: DatabaseClient,
+    tradeId: string,
+    accept: boolean
+): Promise<TradeView | null> {
+    return changeTrade(client, tradeId, 'proposed', { status: accept ? 'accepted' : 'rejected', respondedAt: new Date() });
+}
+
+/**
+ * Update a trade only if it is still in the expected status, so concurrent answers cannot both win
+ */
+async function changeTrade(
+    client: DatabaseClient,
+    tradeId: string,
+    from: Trade['status'],
+    update: Partial<Pick<Trade, 'recipient' | 'price' | 'status' | 'respondedAt'>>
+): Promise<TradeView | null> {
+    try {
+        const backend = client.backend();
+
+        if (backend.type === 'mongodb') {
+            // MongoDB operations
+            const collection = backend.db.collection<Trade>(GAME_COLLECTIONS.trades);
+            const trade = await collection.findOneAndUpdate(
+                { _id: new ObjectId(tradeId), status: from },
+                { $set: update },
+                { returnDocument: 'after' }
+            );
+            return trade ? toTradeView(trade) : null;
+        } else {
+            // SQLite operations
+            const db = backend.db;
+            const fields = Object.keys(update);
+            const values = Object.values(update).map(value => value instanceof Date ? value.toISOString() : value);
+            const result = await db.run(
+                `UPDATE ${GAME_COLLECTIONS.trades} SET ${fields.map(field => `${field} = ?`).join(', ')}
+                WHERE id = ? AND status = ?`,
+                [...values, tradeId, from]
+            );
+            return result.changes ? findTrade(client, tradeId) : null;
+        }
+    } catch (error) {
+        console.error(`Database operation failed for ${GAME_COLLECTIONS.trades}:`, error);
+        throw error;
+    }
+}
+
+function toTradeView({ _id, ...trade }: WithId<Trade> | Trade): TradeView {
+    return { id: _id!.toHexString(), ...trade };
+}
+
+function fromRow(row: any): TradeView {
+    return {
+        id: String(row.id),
+        gameId: row.gameId,
+        property: row.property,
+        proposer: row.proposer,
+        itemId: row.itemId,
+        ...(row.recipient !== null && { recipient: row.recipient }),
+        price: row.price,
+        status: row.status,
+        createdAt: new Date(row.createdAt),
+        ...(row.respondedAt !== null && { respondedAt: new Date(row.respondedAt) })
+    };
+}
@@ -0,0 +1,112 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ClientSession, Db } from 'mongodb';
+import { Database } from 'sqlite';
+import { DatabaseClient } from './database';
+
+/**
+ * Where the writes of a transaction go: a MongoDB session, or the SQLite connection the transaction is open on
+ */
+export type TransactionScope =
+    | { type: 'mongodb'; db: Db; session: ClientSession }
+    | { type: 'sqlite'; db: Database };
+
+// Pending work per SQLite connection: transactions and the statements issued outside them run one after another
+const connectionQueues = new WeakMap<Database, Promise<unknown>>();
+
+// Connection behind each database returned by serializeStatements
+const connections = new WeakMap<Database, Database>();
+
+// Transaction the current code runs in; open turns false once it has ended, for callbacks that outlive it
+const currentTransaction = new AsyncLocalStorage<{ connection: Database; open: boolean }>();
+
+// Database methods that run statements, queued behind open transactions
+const STATEMENT_METHODS = new Set<PropertyKey>(['run', 'get', 'all', 'each', 'exec', 'close']);
+
+function enqueue<R>(connection: Database, task: () => Promise<R>): Promise<R> {
+    const previous = connectionQueues.get(connection) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    connectionQueues.set(connection, run);
+    return run;
+}
+
+/**
+ * Wrap a SQLite connection so statements issued outside a transaction run between transactions.
+ * The connection is shared, so they would otherwise run inside an open one and be rolled back with it.
+ * @param db SQLite connection
+ * @returns Database to use instead of db
+ */
+export function serializeStatements(db: Database): Database {
+    const serialized = new Proxy(db, {
+        get(target, property) {
+            const value = Reflect.get(target, property, target);
+            if (typeof value !== 'function') {
+                return value;
+            }
+            if (!STATEMENT_METHODS.has(property)) {
+                return value.bind(target);
+            }
+            return (...args: unknown[]) => {
+                const transaction = currentTransaction.getStore();
+                return transaction?.connection === target && transaction.open
+                    ? value.apply(target, args)
+                    : enqueue(target, () => value.apply(target, args));
+            };
+        }
+    });
+    connections.set(serialized, db);
+    return serialized;
+}
+
+/**
+ * Run work inside a SQLite transaction.
+ * Transactions on the same connection are queued, since SQLite does not allow nesting them.
+ * @param db SQLite database
+ * @param work Statements to run; the transaction is rolled back if it throws
+ * @returns The result of work
+ */
+export async function withTransaction<R>(db: Database, work: () => Promise<R>): Promise<R> {
+    const connection = connections.get(db) ?? db;
+    const transaction = { connection, open: true };
+    return enqueue(connection, () => currentTransaction.run(transaction, async () => {
+        await connection.exec('BEGIN IMMEDIATE');
+        try {
+            const result = await work();
+            await connection.exec('COMMIT');
+            return result;
+        } catch (error) {
+            await connection.exec('ROLLBACK');
+            throw error;
+        } finally {
+            transaction.open = false;
+        }
+    }));
+}
+
+/**
+ * Run work inside a transaction of the client's database.
+ * On MongoDB it runs in a session transaction, which needs a replica set or sharded cluster, and may be retried.
+ * @param client Database client
+ * @param work Writes to run through the scope; the transaction is rolled back if it throws
+ * @returns The result of work
+ */
+export async function runTransaction<R>(client: DatabaseClient, work: (scope: TransactionScope) => Promise<R>): Promise<R> {
+    const backend = client.backend();
+
+    if (backend.type === 'mongodb') {
+        // MongoDB operations
+        const session = backend.client.startSession();
+        try {
+            let result!: R;
+            await session.withTransaction(async () => {
+                result = await work({ type: 'mongodb', db: backend.db, session });
+            });
+            return result;
+        } finally {
+            await session.endSession();
+        }
+    } else {
+        // SQLite operations
+        const db = backend.db;
+        return withTransaction(db, () => work({ type: 'sqlite', db }));
+    }
+}
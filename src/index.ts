@@ -1,41 +1,76 @@
 // Load environment variables first, before any other imports
 import dotenv from 'dotenv';
-import path from 'path';
 dotenv.config();
 
-import express, { Router, NextFunction, RequestHandler } from 'express';
+import express, { Router, NextFunction, Request, RequestHandler } from 'express';
 import cors from 'cors';
-import { getItemFromCollection, createItems, deleteItemsByUser } from './db/operations';
-import { MonopolyChatBot } from './services/openai';
+import {
+    getItemFromCollection,
+    getDrawOrder,
+    createItems,
+    replaceItemsByUser,
+    restoreItemsByUser,
+    listItems,
+    findItemById,
+    updateItemById,
+    deleteItemById
+} from './db/operations';
+import { ItemSortField } from './db/repositories/itemRepository';
+import { createGame, findGame, GameView, getGame } from './db/games';
+import { createDeck, DeckView, findDeck, listDecks } from './db/decks';
+import { answerQuestion, recordQuestionDeal, toPublicQuestion } from './db/questions';
+import { appendHistory, listHistory, NewHistoryEntry } from './db/history';
+import { BalanceView, listBalances, listTransactions, NewTransaction, openBalances, postTransaction, Posting } from './db/ledger';
+import { findHolding, loadGameState, savePlayerStates, transferHolding } from './db/gameState';
+import { AuctionSettlement, AuctionView, closeAuction, findAuction, listOpenAuctions, openAuction, placeBid } from './db/auctions';
+import { findTrade, openTrade, proposeTrade, respondToTrade, TradeView } from './db/trades';
+import { loadChatMemory, rememberGeneration } from './db/chatMemory';
+import { HISTORY_ACTIONS, HistoryAction } from './models/history';
+import { MonopolyChatBot, QuestionRequest } from './services/openai';
+import { createLLMProvider, LLMProviderType } from './services/providers/factory';
+import { GameEventHub, formatSSE } from './services/eventHub';
+import { DrawPolicyQuery, parseDrawPolicyQuery } from './services/drawPolicy';
+import { AppliedEffect, eventEffects, resolveEffects } from './services/effectEngine';
+import { Countdown } from './services/countdown';
 import { Event } from './models/event';
-import { Question } from './models/question';
+import { GameMemory } from './models/chatMemory';
+import { Question, QUESTION_DIFFICULTIES, QuestionDifficulty } from './models/question';
 import { COLLECTIONS } from './config/collections';
 import { requestLogger } from './middleware/logging';
-import { createDatabaseClient, DatabaseType } from './db/database';
+import { adminAuthDisabled, requireAdmin } from './middleware/auth';
+import { EventData, validateEvents, validateQuestionsWithPayouts, ValidationResult } from './services/itemValidator';
+import {
+    DECK_COLLECTIONS,
+    DECK_FORMATS,
+    DeckFormat,
+    deckFormatInfo,
+    exportDeck,
+    importDeck,
+    IMPORT_MODES,
+    ImportMode
+} from './services/deckTransfer';
+import { BaseItem } from './models/base';
+import { createDatabaseClient, DatabaseConfig, loadDatabaseConfig } from './db/database';
+import { AUCTION_EXTENSION_SECONDS, AUCTION_RETRY_SECONDS, AUCTION_SECONDS, GO_SALARY, loadAmountVariationPolicy } from './config/economy';
+import { getBoard } from './config/board';
 
 const app = express();
 const router = Router();
 const PORT = process.env.PORT || 3000;
 
 // Database configuration
-const dbType = (process.env.DB_TYPE || 'mongodb') as DatabaseType;
-const dbConfig = {
-    type: dbType,
-    mongoUri: process.env.MONGODB_URI,
-    sqliteFile: dbType === 'sqlite' ? path.resolve(process.env.SQLITE_FILE || './data.db') : undefined
-};
-
-if (dbType === 'mongodb' && !dbConfig.mongoUri) {
-    console.error('Missing required MONGODB_URI environment variable');
-    process.exit(1);
-}
-
-if (dbType === 'sqlite' && !dbConfig.sqliteFile) {
-    console.error('Missing required SQLITE_FILE environment variable');
+let dbConfig: DatabaseConfig;
+try {
+    dbConfig = loadDatabaseConfig();
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
     process.exit(1);
 }
+const dbType = dbConfig.type;
 
 const dbClient = createDatabaseClient(dbConfig);
+const eventHub = GameEventHub.getInstance();
+const countdown = Countdown.getInstance();
 
 // Enable CORS and JSON body parsing
 app.use(cors());
@@ -52,15 +87,29 @@ async function initializeServices() {
         console.log(`Connected to ${dbType}`);
         // await initializeCollections(dbClient, COLLECTIONS);
 
+        // Restart the countdowns of auctions that were running when the server stopped
+        const openAuctions = await listOpenAuctions(dbClient);
+        openAuctions.forEach(scheduleAuctionClose);
+
         // Initialize MonopolyChatBot
+        const amountVariation = loadAmountVariationPolicy();
+        const board = getBoard();
+        console.log(`Using the ${board.name} board`);
         try {
             const chatBot = MonopolyChatBot.getInstance();
+            const provider = createLLMProvider({
+                type: (process.env.LLM_PROVIDER || 'openai') as LLMProviderType,
+                apiKey: process.env.OPENAI_API_KEY,
+                baseURL: process.env.OPENAI_BASE_URL,
+                model: process.env.OPENAI_MODEL
+            });
             chatBot.initialize({
-                apiKey: process.env.OPENAI_API_KEY || '',
-                baseURL: process.env.OPENAI_BASE_URL || '',
-                model: process.env.OPENAI_MODEL || ''
+                provider,
+                maxAttempts: parseInt(process.env.OPENAI_MAX_ATTEMPTS || '', 10) || undefined,
+                amountVariation,
+                board
             });
-            console.log('MonopolyChatBot initialized');
+            console.log(`MonopolyChatBot initialized with ${provider.name} provider`);
         } catch (error) {
             console.warn('MonopolyChatBot initialization failed:', error instanceof Error ? error.message : error);
             console.warn('Game event creation with AI will be unavailable');
@@ -80,8 +129,424 @@ interface UserIdRequest {
     userId: string;
 }
 
+interface RestoreRequest extends UserIdRequest {
+    deck?: string;  // Deck to restore, the base deck if not given
+}
+
 interface CreateEventRequest extends UserIdRequest {
     message: string;
+    deck?: string;  // Deck to add the events to, the base deck if not given
+    gameId?: string;  // Game whose earlier generations and state the events build on
+}
+
+interface CreateQuestionRequest extends UserIdRequest {
+    topic: string;
+    difficulty?: QuestionDifficulty;
+    language?: string;
+    count?: number;
+}
+
+interface DrawRequest extends UserIdRequest {
+    gameId?: string;
+    seed?: string;  // Draw in the seed's planned order; defaults to the game's seed
+}
+
+interface EventDrawRequest extends DrawRequest, DrawPolicyQuery {
+    deck?: string;
+    baseRatio?: string;  // Overrides the deck's share of draws from the base deck
+}
+
+interface AnswerQuestionRequest extends UserIdRequest {
+    questionId: string;
+    answer: number | string;
+    gameId?: string;
+}
+
+interface ItemListRequest {
+    type?: string;
+    difficulty?: string;
+    createdBy?: string;
+    deck?: string;
+    used?: string;
+    sort?: ItemSortField;
+    order?: 'asc' | 'desc';
+    page?: string;
+    limit?: string;
+}
+
+interface ItemCreateRequest extends UserIdRequest {
+    data: unknown;
+}
+
+interface ItemUpdateRequest {
+    data?: Record<string, unknown>;
+    used?: boolean;
+}
+
+const ITEM_SORT_FIELDS: ItemSortField[] = ['createdAt', 'id', 'used', 'type'];
+
+interface EventStreamRequest {
+    userId?: string;
+    gameId?: string;
+    lastEventId?: string;
+}
+
+interface ExportDeckRequest {
+    collection?: string;
+    format?: DeckFormat;
+    createdBy?: string;
+}
+
+interface ImportDeckRequest extends UserIdRequest {
+    collection: string;
+    content: unknown;  // CSV or JSON text, or a JSON array
+    format?: DeckFormat;
+    mode?: ImportMode;
+    dryRun?: boolean;
+}
+
+interface CreateDeckRequest extends UserIdRequest {
+    name: string;
+    theme?: string;
+    language?: string;
+    baseRatio?: number;
+}
+
+interface DeckListRequest {
+    owner?: string;
+}
+
+interface DrawOrderRequest extends DrawPolicyQuery {
+    collection?: string;
+    seed?: string;
+    gameId?: string;  // Use the game's seed when no seed is given
+    deck?: string;
+}
+
+interface HistoryRequest {
+    userId?: string;
+    gameId?: string;
+    collection?: string;
+    action?: HistoryAction;
+    from?: string;  // ISO date or timestamp, inclusive
+    to?: string;  // ISO date or timestamp, exclusive
+    page?: string;
+    limit?: string;
+}
+
+interface CreateGameRequest extends UserIdRequest {
+    players: string[];
+    name?: string;
+    seed?: string;
+    startingBalance?: number;
+}
+
+interface TransactionListRequest {
+    userId?: string;
+    page?: string;
+    limit?: string;
+}
+
+interface BidRequest extends UserIdRequest {
+    amount: number;
+}
+
+interface TradeProposalRequest extends UserIdRequest {
+    recipient: string;
+    price?: number;  // The card's amount if not given
+}
+
+const MAX_GENERATED_QUESTIONS = 20;
+
+/**
+ * Check a question generation request and fill in defaults
+ * @returns The generation request, or an error message if the request is invalid
+ */
+function parseQuestionRequest(body: CreateQuestionRequest): QuestionRequest | { error: string } {
+    const { userId, topic, difficulty = 'medium', language = 'English', count = 5 } = body;
+    if (!userId || !topic) {
+        return { error: 'userId and topic are required' };
+    }
+    if (!QUESTION_DIFFICULTIES.includes(difficulty)) {
+        return { error: `difficulty must be one of ${QUESTION_DIFFICULTIES.join(', ')}` };
+    }
+    if (!Number.isInteger(count) || count < 1 || count > MAX_GENERATED_QUESTIONS) {
+        return { error: `count must be an integer between 1 and ${MAX_GENERATED_QUESTIONS}` };
+    }
+    return { topic, difficulty, language, count };
+}
+
+/**
+ * Check that a game exists and that the user is one of its players
+ * @returns The game, or an HTTP status and error message if the draw must be refused
+ */
+async function checkGamePlayer(gameId: string, userId: string): Promise<{ game: GameView } | { status: number; error: string }> {
+    const game = await findGame(dbClient, gameId);
+    if (!game) {
+        return { status: 404, error: `Game ${gameId} not found` };
+    }
+    if (!game.players.includes(userId)) {
+        return { status: 403, error: `User ${userId} is not a player in game ${gameId}` };
+    }
+    return { game };
+}
+
+/**
+ * Check that a deck exists and, when adding cards, that the user owns it
+ * @param requireOwner Refuse users other than the deck's owner
+ * @returns The deck, or an HTTP status and error message if the request must be refused
+ */
+async function checkDeck(
+    deckId: string,
+    userId: string,
+    requireOwner: boolean
+): Promise<{ deck: DeckView } | { status: number; error: string }> {
+    const deck = await findDeck(dbClient, deckId);
+    if (!deck) {
+        return { status: 404, error: `Deck ${deckId} not found` };
+    }
+    if (requireOwner && deck.owner !== userId) {
+        return { status: 403, error: `User ${userId} does not own deck ${deckId}` };
+    }
+    return { deck };
+}
+
+type HistoryRecord = Omit<NewHistoryEntry, 'route'>;
+
+/**
+ * Add entries to the history under the request's route.
+ * A failed write is logged instead of failing the request, since the change it records has already been made.
+ */
+async function recordHistory(req: Request<any, any, any, any>, entries: HistoryRecord[]): Promise<void> {
+    try {
+        const route = `${req.method} ${req.route?.path ?? req.path}`;
+        await appendHistory(dbClient, entries.map(entry => ({ ...entry, route })));
+    } catch (error) {
+        console.error('Failed to record history:', error);
+    }
+}
+
+/**
+ * History entries for items deleted and created by one change, e.g. a replace or a restore
+ * @param insertedData Data of the created items, in the order of insertedIds, when known
+ */
+function changeRecords(
+    collection: string,
+    userId: string | undefined,
+    changes: { deletedIds?: string[]; insertedIds?: string[] },
+    deckId?: string,
+    insertedData?: unknown[]
+): HistoryRecord[] {
+    const base = { collection, ...(userId && { userId }), ...(deckId && { deckId }) };
+    return [
+        ...(changes.deletedIds ?? []).map(itemId => ({ ...base, action: 'delete' as const, itemId })),
+        ...(changes.insertedIds ?? []).map((itemId, index) => ({
+            ...base,
+            action: 'create' as const,
+            itemId,
+            ...(insertedData?.[index] !== undefined && { data: insertedData[index] })
+        }))
+    ];
+}
+
+/**
+ * Post a transaction to a game's ledger and notify the game's subscribers of the new balance
+ * @returns The posting, with the transaction and the player's new balance
+ */
+async function postToLedger(entry: NewTransaction): Promise<Posting> {
+    const posting = await postTransaction(dbClient, entry);
+    publishPosting(posting);
+    return posting;
+}
+
+/**
+ * Notify a game's subscribers of a player's new balance, and of the bankruptcy it caused if any
+ */
+function publishPosting(posting: Posting): void {
+    const scope = { userId: posting.transaction.userId, gameId: posting.transaction.gameId };
+
+    eventHub.publish('balance', {
+        ...scope,
+        transaction: posting.transaction,
+        balance: posting.balance.balance
+    }, scope);
+    if (posting.bankrupted) {
+        eventHub.publish('bankrupt', { ...scope, balance: posting.balance.balance }, scope);
+    }
+}
+
+/**
+ * Resolve the effects of an event drawn in a game: move the player, post the money to the ledger
+ * and notify the game's subscribers
+ * @returns What each effect did and the ledger postings, or undefined for an event without effects
+ */
+async function applyEventEffects(
+    game: GameView,
+    userId: string,
+    itemId: string,
+    data: Event['data']
+): Promise<{ effects: AppliedEffect[]; ledger: Posting[] } | undefined> {
+    const effects = eventEffects(data);
+    if (effects.length === 0) {
+        return undefined;
+    }
+
+    const state = await loadGameState(dbClient, game.id, game.players);
+    const resolution = resolveEffects(effects, {
+        userId,
+        amount: data.amount ?? data.baseAmount,
+        board: getBoard(),
+        salary: GO_SALARY,
+        ...state
+    });
+    await savePlayerStates(dbClient, game.id, resolution.players);
+
+    const ledger: Posting[] = [];
+    for (const { description, ...transfer } of resolution.transfers) {
+        ledger.push(await postToLedger({
+            gameId: game.id,
+            ...transfer,
+            collection: COLLECTIONS.events.name,
+            itemId,
+            description: description ?? data.message
+        }));
+    }
+
+    eventHub.publish('effects', {
+        userId,
+        gameId: game.id,
+        itemId,
+        effects: resolution.applied,
+        players: resolution.players
+    }, { userId, gameId: game.id });
+    return { effects: resolution.applied, ledger };
+}
+
+/**
+ * Open the auction or trade an auction or trade card about a property calls for, and notify the game's players
+ * @returns The opened auction or trade, or undefined for other events
+ */
+async function openCardWorkflow(
+    game: GameView,
+    userId: string,
+    itemId: string,
+    data: Event['data']
+): Promise<{ auction: AuctionView } | { trade: TradeView } | undefined> {
+    if (!data.property || (data.type !== 'auction' && data.type !== 'trade')) {
+        return undefined;
+    }
+    const amount = Math.max(0, data.amount ?? data.baseAmount ?? 0);
+
+    if (data.type === 'auction') {
+        const holding = await findHolding(dbClient, game.id, data.property);
+        const { auction, opened } = await openAuction(dbClient, {
+            gameId: game.id,
+            property: data.property,
+            openedBy: userId,
+            itemId,
+            sellerId: holding?.ownerId,
+            startingBid: amount,
+            endsAt: new Date(Date.now() + AUCTION_SECONDS * 1000)
+        });
+        // Another card for a property already up for auction joins the running auction
+        if (opened) {
+            scheduleAuctionClose(auction);
+            eventHub.publish('auction', { action: 'opened', auction }, auctionScope(auction, game.players));
+        }
+        return { auction };
+    }
+
+    const trade = await openTrade(dbClient, { gameId: game.id, property: data.property, proposer: userId, itemId, price: amount });
+    eventHub.publish('trade', { action: 'opened', trade }, tradeScope(trade));
+    return { trade };
+}
+
+/**
+ * Hub scope of auction messages: every player of the auction's game
+ */
+function auctionScope(auction: AuctionView, players: ReadonlyArray<string>) {
+    return { userId: auction.openedBy, gameId: auction.gameId, recipients: [...players] };
+}
+
+/**
+ * Hub scope of trade messages: the proposer and, once proposed, the other player
+ */
+function tradeScope(trade: TradeView) {
+    return { userId: trade.proposer, gameId: trade.gameId, ...(trade.recipient && { recipients: [trade.recipient] }) };
+}
+
+/**
+ * Close an auction when its countdown runs out
+ */
+function scheduleAuctionClose(auction: AuctionView): void {
+    countdown.schedule(`auction:${auction.id}`, auction.endsAt, () => settleAuction(auction.id));
+}
+
+/**
+ * Close and settle an auction whose time is up. Settling fails as a whole, so the auction stays open
+ * and is closed again after AUCTION_RETRY_SECONDS.
+ */
+async function settleAuction(auctionId: string): Promise<void> {
+    let settlement: AuctionSettlement | null;
+    try {
+        settlement = await closeAuction(dbClient, auctionId);
+    } catch (error) {
+        countdown.schedule(`auction:${auctionId}`, new Date(Date.now() + AUCTION_RETRY_SECONDS * 1000), () => settleAuction(auctionId));
+        throw error;
+    }
+    if (!settlement) {
+        return;
+    }
+
+    const { auction, ledger } = settlement;
+    ledger.forEach(publishPosting);
+    const game = await findGame(dbClient, auction.gameId);
+    eventHub.publish('auction', { action: 'closed', auction, ledger }, auctionScope(auction, game?.players ?? []));
+}
+
+/**
+ * What event generation should know about a game: its remembered generations and its current state
+ */
+async function gameMemory(game: GameView): Promise<GameMemory> {
+    const board = getBoard();
+    const [memory, state, balances] = await Promise.all([
+        loadChatMemory(dbClient, game.id),
+        loadGameState(dbClient, game.id, game.players),
+        listBalances(dbClient, game.id, game.players)
+    ]);
+    const balanceOf = new Map<string, number>(balances.data.balances.map((entry: BalanceView) => [entry.userId, entry.balance]));
+
+    const players = state.players.map(player => {
+        const owned = state.holdings.filter(holding => holding.ownerId === player.userId).map(holding => holding.space);
+        return [
+            `${player.userId} ${player.inJail ? 'is in jail' : `is on ${board.spaces[player.position]?.name}`}`,
+            `has ${balanceOf.get(player.userId)}`,
+            ...(owned.length > 0 ? [`owns ${owned.join(', ')}`] : [])
+        ].join(', ');
+    });
+    return { ...memory, state: players.join('; ') };
+}
+
+/**
+ * One line summary of a generated event, as remembered for later generations
+ */
+function describeEvent(event: EventData): string {
+    return `${event.type}: ${event.message}`;
+}
+
+/**
+ * A player's balance in a game
+ */
+async function playerBalance(gameId: string, userId: string): Promise<number> {
+    const result = await listBalances(dbClient, gameId, [userId]);
+    return result.data.balances[0].balance;
+}
+
+/**
+ * Check that a base deck ratio is a number from 0 to 1
+ */
+function isRatio(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
 }
 
 // Health check endpoint
@@ -102,22 +567,97 @@ const healthCheck: RequestHandler = async (_req, res, next: NextFunction): Promi
 };
 
 // Get event endpoint
-const getEvent: RequestHandler<{}, any, {}, UserIdRequest> = async (req, res, next: NextFunction): Promise<void> => {
+const getEvent: RequestHandler<{}, any, {}, EventDrawRequest> = async (req, res, next: NextFunction): Promise<void> => {
     try {
-        const { userId } = req.query;
+        const { userId, gameId, deck: deckId } = req.query;
         if (!userId) {
             res.status(400).json({ error: 'userId is required' });
             return next();
         }
 
+        const baseRatio = req.query.baseRatio !== undefined ? Number(req.query.baseRatio) : undefined;
+        if (baseRatio !== undefined && !isRatio(baseRatio)) {
+            res.status(400).json({ error: 'baseRatio must be a number from 0 to 1' });
+            return next();
+        }
+        if (baseRatio !== undefined && req.query.seed !== undefined) {
+            res.status(400).json({ error: 'Seeded draws cannot be mixed with the base deck, leave out baseRatio' });
+            return next();
+        }
+
+        // Policy parameters override the collection's configured draw policy
+        const override = parseDrawPolicyQuery(req.query);
+        if ('error' in override) {
+            res.status(400).json({ error: override.error });
+            return next();
+        }
+
+        let seed = req.query.seed;
+        let game: GameView | undefined;
+        if (gameId) {
+            const checked = await checkGamePlayer(gameId, userId);
+            if (!('game' in checked)) {
+                res.status(checked.status).json({ error: checked.error });
+                return next();
+            }
+            game = checked.game;
+            seed ??= game.seed;
+        }
+
+        let deck: DeckView | undefined;
+        if (deckId) {
+            const checked = await checkDeck(deckId, userId, false);
+            if (!('deck' in checked)) {
+                res.status(checked.status).json({ error: checked.error });
+                return next();
+            }
+            deck = checked.deck;
+        }
+
+        let applied: { effects: AppliedEffect[]; ledger: Posting[] } | undefined;
+        let workflow: { auction: AuctionView } | { trade: TradeView } | undefined;
         const result = await getItemFromCollection<Event>(
             dbClient,
             COLLECTIONS.events.name,
             userId,
-            COLLECTIONS.events.sampleData as Event[]
+            COLLECTIONS.events.sampleData as Event[],
+            {
+                gameId,
+                deckId: deck?.id,
+                baseRatio: baseRatio ?? deck?.baseRatio,
+                policy: { ...COLLECTIONS.events.drawPolicy, ...override.policy },
+                seed
+            }
         );
 
-        res.json(result);
+        if (result.success) {
+            eventHub.publish('draw', {
+                collection: COLLECTIONS.events.name,
+                userId,
+                ...(gameId && { gameId }),
+                ...(result.deckId && { deckId: result.deckId }),
+                ...(result.reshuffled && { reshuffled: true }),
+                item: result.data
+            }, { userId, gameId });
+
+            await recordHistory(req, [{
+                action: 'draw',
+                collection: COLLECTIONS.events.name,
+                itemId: result.itemId!,
+                userId,
+                ...(gameId && { gameId }),
+                ...(result.deckId && { deckId: result.deckId }),
+                data: result.data
+            }]);
+
+            // In a game, the event's effects are applied to the player, and auction and trade cards open their workflow
+            if (game) {
+                applied = await applyEventEffects(game, userId, result.itemId!, result.data);
+                workflow = await openCardWorkflow(game, userId, result.itemId!, result.data);
+            }
+        }
+
+        res.json({ ...result, ...applied, ...workflow });
     } catch (error) {
         if (error instanceof Error) {
             res.status(500).json({ error: error.message });
@@ -129,22 +669,104 @@ const getEvent: RequestHandler<{}, any, {}, UserIdRequest> = async (req, res, ne
 };
 
 // Get question endpoint
-const getQuestion: RequestHandler<{}, any, {}, UserIdRequest> = async (req, res, next: NextFunction): Promise<void> => {
+const getQuestion: RequestHandler<{}, any, {}, DrawRequest> = async (req, res, next: NextFunction): Promise<void> => {
     try {
-        const { userId } = req.query;
+        const { userId, gameId } = req.query;
         if (!userId) {
             res.status(400).json({ error: 'userId is required' });
             return next();
         }
 
+        let seed = req.query.seed;
+        if (gameId) {
+            const checked = await checkGamePlayer(gameId, userId);
+            if (!('game' in checked)) {
+                res.status(checked.status).json({ error: checked.error });
+                return next();
+            }
+            seed ??= checked.game.seed;
+        }
+
         const result = await getItemFromCollection<Question>(
             dbClient,
             COLLECTIONS.questions.name,
             userId,
-            COLLECTIONS.questions.sampleData as Question[]
+            COLLECTIONS.questions.sampleData as Question[],
+            { gameId, policy: COLLECTIONS.questions.drawPolicy, seed }
         );
 
-        res.json(result);
+        if (!result.success) {
+            res.json(result);
+            return next();
+        }
+
+        // Remember the deal so the answer can be checked, and never send the answer to the client
+        await recordQuestionDeal(dbClient, userId, result.itemId!, gameId);
+        const question = toPublicQuestion(result.itemId!, result.data);
+
+        eventHub.publish('draw', {
+            collection: COLLECTIONS.questions.name,
+            userId,
+            ...(gameId && { gameId }),
+            ...(result.reshuffled && { reshuffled: true }),
+            item: question
+        }, { userId, gameId });
+
+        await recordHistory(req, [{
+            action: 'draw',
+            collection: COLLECTIONS.questions.name,
+            itemId: result.itemId!,
+            userId,
+            ...(gameId && { gameId }),
+            data: result.data
+        }]);
+
+        res.json({ success: true, data: question, ...(result.reshuffled && { reshuffled: true }) });
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Answer question endpoint - checks the answer to a question dealt by /getQuestion
+const answerQuestionHandler: RequestHandler<{}, any, AnswerQuestionRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const { userId, questionId, answer, gameId } = req.body;
+        if (!userId || !questionId || (typeof answer !== 'number' && typeof answer !== 'string')) {
+            res.status(400).json({ error: 'userId, questionId and answer are required' });
+            return next();
+        }
+
+        const result = await answerQuestion(dbClient, userId, String(questionId), answer, gameId);
+        if (!result.success) {
+            res.status(404).json(result);
+            return next();
+        }
+
+        eventHub.publish('answer', {
+            userId,
+            ...(gameId && { gameId }),
+            ...result.data
+        }, { userId, gameId });
+
+        // In a game, the payout moves the player's balance
+        const { payout } = result.data;
+        const posting = gameId && payout
+            ? await postToLedger({
+                gameId,
+                userId,
+                type: payout > 0 ? 'question_reward' : 'question_penalty',
+                amount: payout,
+                collection: COLLECTIONS.questions.name,
+                itemId: String(questionId)
+            })
+            : undefined;
+
+        res.json(posting ? { ...result, ledger: [posting] } : result);
     } catch (error) {
         if (error instanceof Error) {
             res.status(500).json({ error: error.message });
@@ -158,18 +780,39 @@ const getQuestion: RequestHandler<{}, any, {}, UserIdRequest> = async (req, res,
 // Create events endpoint
 const createEvents: RequestHandler<{}, any, CreateEventRequest> = async (req, res, next: NextFunction): Promise<void> => {
     try {
-        const { userId, message } = req.body;
+        const { userId, message, deck: deckId, gameId } = req.body;
         if (!userId || !message) {
             res.status(400).json({ error: 'userId and message are required' });
             return next();
         }
 
+        let deck: DeckView | undefined;
+        if (deckId) {
+            const checked = await checkDeck(deckId, userId, true);
+            if (!('deck' in checked)) {
+                res.status(checked.status).json({ error: checked.error });
+                return next();
+            }
+            deck = checked.deck;
+        }
+
+        let game: GameView | undefined;
+        if (gameId) {
+            const checked = await checkGamePlayer(gameId, userId);
+            if (!('game' in checked)) {
+                res.status(checked.status).json({ error: checked.error });
+                return next();
+            }
+            game = checked.game;
+        }
+
         try {
             const chatBot = MonopolyChatBot.getInstance();
-            const response = await chatBot.createGameEvent(message);
+            const memory = game ? await gameMemory(game) : undefined;
+            const response = await chatBot.createGameEvent(message, { theme: deck?.theme, language: deck?.language, memory });
 
             if (!response.success) {
-                res.status(400).json({ error: 'Failed to generate game events' });
+                res.status(400).json({ error: 'Failed to generate game events', rejected: response.rejected });
                 return next();
             }
 
@@ -177,18 +820,32 @@ const createEvents: RequestHandler<{}, any, CreateEventRequest> = async (req, re
                 dbClient,
                 COLLECTIONS.events.name,
                 userId,
-                response.data.map(event => ({
-                    data: {
-                        message: event.message,
-                        type: event.type as Event['data']['type'],
-                        ...(event.amount !== undefined && { amount: event.amount }),
-                        ...(event.property !== undefined && { property: event.property }),
-                        ...(event.baseAmount !== undefined && { baseAmount: event.baseAmount })
-                    }
-                }))
+                response.data.map(data => ({ data, deckId: deck?.id }))
             );
 
-            res.json(result);
+            // Later generations in the game build on the stored events
+            if (game) {
+                await rememberGeneration(dbClient, game.id, {
+                    prompt: message,
+                    events: response.data.map(describeEvent),
+                    state: memory?.state
+                });
+            }
+
+            eventHub.publish('deck-updated', {
+                collection: COLLECTIONS.events.name,
+                userId,
+                ...(deck && { deckId: deck.id }),
+                action: 'created',
+                insertedCount: result.data.insertedCount
+            }, { userId });
+
+            await recordHistory(req, changeRecords(COLLECTIONS.events.name, userId, result.data, deck?.id, response.data));
+
+            res.json({
+                ...result,
+                data: { ...result.data, rejected: response.rejected }
+            });
         } catch (error) {
             if (error instanceof Error && error.message.includes('MonopolyChatBot not initialized')) {
                 res.status(503).json({ 
@@ -209,52 +866,185 @@ const createEvents: RequestHandler<{}, any, CreateEventRequest> = async (req, re
     next();
 };
 
-// Update events endpoint - deletes existing events and creates new ones
-const updateEvents: RequestHandler<{}, any, CreateEventRequest> = async (req, res, next: NextFunction): Promise<void> => {
+// Create events endpoint, streaming variant - with Accept: text/event-stream each event is stored and sent
+// as soon as the model has written it, followed by a summary
+const createEventsStream: RequestHandler<{}, any, CreateEventRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    if (!req.get('Accept')?.includes('text/event-stream')) {
+        return next('route');
+    }
+
     try {
-        const { userId, message } = req.body;
+        const { userId, message, deck: deckId, gameId } = req.body;
         if (!userId || !message) {
             res.status(400).json({ error: 'userId and message are required' });
-            return next();
+            return;
+        }
+
+        let deck: DeckView | undefined;
+        if (deckId) {
+            const checked = await checkDeck(deckId, userId, true);
+            if (!('deck' in checked)) {
+                res.status(checked.status).json({ error: checked.error });
+                return;
+            }
+            deck = checked.deck;
+        }
+
+        let game: GameView | undefined;
+        if (gameId) {
+            const checked = await checkGamePlayer(gameId, userId);
+            if (!('game' in checked)) {
+                res.status(checked.status).json({ error: checked.error });
+                return;
+            }
+            game = checked.game;
+        }
+
+        const chatBot = MonopolyChatBot.getInstance();
+        if (!chatBot.isInitialized()) {
+            res.status(503).json({
+                error: 'MonopolyChatBot service is not available',
+                details: 'Game event creation with AI is currently unavailable'
+            });
+            return;
         }
 
+        // Set headers for SSE
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.flushHeaders();
+        const send = (type: string, data: unknown) => res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+
+        const insertedIds: string[] = [];
         try {
-            // First, delete all existing events created by this user
-            const deleteResult = await deleteItemsByUser<Event>(
-                dbClient,
-                COLLECTIONS.events.name,
-                userId
+            const memory = game ? await gameMemory(game) : undefined;
+            const response = await chatBot.streamGameEvent(
+                message,
+                { theme: deck?.theme, language: deck?.language, memory },
+                async data => {
+                    const result = await createItems<Event>(dbClient, COLLECTIONS.events.name, userId, [{ data, deckId: deck?.id }]);
+                    insertedIds.push(...result.data.insertedIds);
+                    await recordHistory(req, changeRecords(COLLECTIONS.events.name, userId, result.data, deck?.id, [data]));
+                    send('event', { itemId: result.data.insertedIds[0], data });
+                }
             );
 
-            // Then create new events
+            if (insertedIds.length > 0) {
+                eventHub.publish('deck-updated', {
+                    collection: COLLECTIONS.events.name,
+                    userId,
+                    ...(deck && { deckId: deck.id }),
+                    action: 'created',
+                    insertedCount: insertedIds.length
+                }, { userId });
+            }
+
+            // Later generations in the game build on these events
+            if (game && response.success) {
+                await rememberGeneration(dbClient, game.id, {
+                    prompt: message,
+                    events: response.data.map(describeEvent),
+                    state: memory?.state
+                });
+            }
+
+            send('summary', {
+                success: response.success,
+                data: { insertedCount: insertedIds.length, insertedIds, rejected: response.rejected }
+            });
+        } catch (error) {
+            // Events sent before the failure are stored; the error message lists them
+            send('error', {
+                error: error instanceof Error ? error.message : 'An unknown error occurred',
+                data: { insertedCount: insertedIds.length, insertedIds }
+            });
+        }
+        res.end();
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+};
+
+// Update events endpoint - replaces existing events with new ones, keeping the old ones restorable
+const updateEvents: RequestHandler<{}, any, CreateEventRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const { userId, message, deck: deckId, gameId } = req.body;
+        if (!userId || !message) {
+            res.status(400).json({ error: 'userId and message are required' });
+            return next();
+        }
+
+        let deck: DeckView | undefined;
+        if (deckId) {
+            const checked = await checkDeck(deckId, userId, true);
+            if (!('deck' in checked)) {
+                res.status(checked.status).json({ error: checked.error });
+                return next();
+            }
+            deck = checked.deck;
+        }
+
+        let game: GameView | undefined;
+        if (gameId) {
+            const checked = await checkGamePlayer(gameId, userId);
+            if (!('game' in checked)) {
+                res.status(checked.status).json({ error: checked.error });
+                return next();
+            }
+            game = checked.game;
+        }
+
+        try {
+            // Generate the new events first, so a failed generation leaves the existing ones untouched
             const chatBot = MonopolyChatBot.getInstance();
-            const response = await chatBot.createGameEvent(message);
+            const memory = game ? await gameMemory(game) : undefined;
+            const response = await chatBot.createGameEvent(message, { theme: deck?.theme, language: deck?.language, memory });
 
             if (!response.success) {
-                res.status(400).json({ error: 'Failed to generate game events' });
+                res.status(400).json({ error: 'Failed to generate game events', rejected: response.rejected });
                 return next();
             }
 
-            const result = await createItems<Event>(
+            // Then swap them in for the events created by this user in the deck in one transaction
+            const result = await replaceItemsByUser<Event>(
                 dbClient,
                 COLLECTIONS.events.name,
                 userId,
-                response.data.map(event => ({
-                    data: {
-                        message: event.message,
-                        type: event.type as Event['data']['type'],
-                        ...(event.amount !== undefined && { amount: event.amount }),
-                        ...(event.property !== undefined && { property: event.property }),
-                        ...(event.baseAmount !== undefined && { baseAmount: event.baseAmount })
-                    }
-                }))
+                response.data.map(data => ({ data })),
+                deck?.id
             );
 
+            // Later generations in the game build on the stored events
+            if (game) {
+                await rememberGeneration(dbClient, game.id, {
+                    prompt: message,
+                    events: response.data.map(describeEvent),
+                    state: memory?.state
+                });
+            }
+
+            eventHub.publish('deck-updated', {
+                collection: COLLECTIONS.events.name,
+                userId,
+                ...(deck && { deckId: deck.id }),
+                action: 'replaced',
+                deletedCount: result.data.deletedCount,
+                insertedCount: result.data.insertedCount
+            }, { userId });
+
+            await recordHistory(req, changeRecords(COLLECTIONS.events.name, userId, result.data, deck?.id, response.data));
+
             res.json({
                 success: true,
                 data: {
-                    deletedEvents: deleteResult.data,
-                    newEvents: result.data
+                    deletedEvents: { deletedCount: result.data.deletedCount },
+                    newEvents: { insertedCount: result.data.insertedCount, insertedIds: result.data.insertedIds },
+                    rejected: response.rejected
                 }
             });
         } catch (error) {
@@ -277,23 +1067,1082 @@ const updateEvents: RequestHandler<{}, any, CreateEventRequest> = async (req, re
     next();
 };
 
-// SSE endpoint for events
-const eventStream: RequestHandler = (req, res, next: NextFunction): void => {
-    // Set headers for SSE
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.flushHeaders();
-
-    // Send a ping every 30 seconds to keep the connection alive
-    const pingInterval = setInterval(() => {
-        res.write('event: ping\ndata: ping\n\n');
+// Restore events endpoint - swaps the user's events in a deck back to the version before its last update
+const restoreEvents: RequestHandler<{}, any, RestoreRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const { userId, deck: deckId } = req.body;
+        if (!userId) {
+            res.status(400).json({ error: 'userId is required' });
+            return next();
+        }
+        if (deckId) {
+            const checked = await checkDeck(deckId, userId, true);
+            if (!('deck' in checked)) {
+                res.status(checked.status).json({ error: checked.error });
+                return next();
+            }
+        }
+
+        const result = await restoreItemsByUser(dbClient, COLLECTIONS.events.name, userId, deckId);
+        if (!result.success) {
+            res.status(404).json(result);
+            return next();
+        }
+
+        eventHub.publish('deck-updated', {
+            collection: COLLECTIONS.events.name,
+            userId,
+            ...(result.data.deckId && { deckId: result.data.deckId }),
+            action: 'restored',
+            deletedCount: result.data.deletedCount,
+            insertedCount: result.data.insertedCount
+        }, { userId });
+
+        await recordHistory(req, changeRecords(COLLECTIONS.events.name, userId, result.data, result.data.deckId));
+
+        res.json(result);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Restore questions endpoint - swaps the user's questions in a deck back to the version before its last update
+const restoreQuestions: RequestHandler<{}, any, RestoreRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const { userId, deck: deckId } = req.body;
+        if (!userId) {
+            res.status(400).json({ error: 'userId is required' });
+            return next();
+        }
+        if (deckId) {
+            const checked = await checkDeck(deckId, userId, true);
+            if (!('deck' in checked)) {
+                res.status(checked.status).json({ error: checked.error });
+                return next();
+            }
+        }
+
+        const result = await restoreItemsByUser(dbClient, COLLECTIONS.questions.name, userId, deckId);
+        if (!result.success) {
+            res.status(404).json(result);
+            return next();
+        }
+
+        eventHub.publish('deck-updated', {
+            collection: COLLECTIONS.questions.name,
+            userId,
+            ...(result.data.deckId && { deckId: result.data.deckId }),
+            action: 'restored',
+            deletedCount: result.data.deletedCount,
+            insertedCount: result.data.insertedCount
+        }, { userId });
+
+        await recordHistory(req, changeRecords(COLLECTIONS.questions.name, userId, result.data, result.data.deckId));
+
+        res.json(result);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Create deck endpoint
+const createDeckHandler: RequestHandler<{}, any, CreateDeckRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const { userId, name, theme, language, baseRatio } = req.body;
+        if (!userId || typeof name !== 'string' || !name.trim()) {
+            res.status(400).json({ error: 'userId and name are required' });
+            return next();
+        }
+        if (baseRatio !== undefined && !isRatio(baseRatio)) {
+            res.status(400).json({ error: 'baseRatio must be a number from 0 to 1' });
+            return next();
+        }
+
+        const result = await createDeck(dbClient, userId, {
+            name: name.trim(),
+            theme: typeof theme === 'string' && theme.trim() ? theme.trim() : undefined,
+            language: typeof language === 'string' && language.trim() ? language.trim() : undefined,
+            baseRatio
+        });
+
+        res.status(201).json(result);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// List decks endpoint
+const listDecksHandler: RequestHandler<{}, any, {}, DeckListRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const result = await listDecks(dbClient, req.query.owner || undefined);
+
+        res.json(result);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Get deck endpoint
+const getDeckHandler: RequestHandler<{ id: string }> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const deck = await findDeck(dbClient, req.params.id);
+        if (!deck) {
+            res.status(404).json({ success: false, data: { error: `Deck ${req.params.id} not found` } });
+            return next();
+        }
+
+        res.json({ success: true, data: deck });
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Create game endpoint
+const createGameSession: RequestHandler<{}, any, CreateGameRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const { userId, players, name, seed, startingBalance } = req.body;
+        if (!userId || !Array.isArray(players) || players.length === 0) {
+            res.status(400).json({ error: 'userId and a non-empty players array are required' });
+            return next();
+        }
+
+        if (seed !== undefined && (typeof seed !== 'string' || !seed)) {
+            res.status(400).json({ error: 'seed must be a non-empty string' });
+            return next();
+        }
+
+        if (!players.every(player => typeof player === 'string' && player.length > 0)) {
+            res.status(400).json({ error: 'players must be non-empty strings' });
+            return next();
+        }
+
+        if (startingBalance !== undefined && !(typeof startingBalance === 'number' && Number.isFinite(startingBalance) && startingBalance >= 0)) {
+            res.status(400).json({ error: 'startingBalance must be a non-negative number' });
+            return next();
+        }
+
+        const result = await createGame(dbClient, userId, [...new Set(players)], name, seed);
+        await openBalances(dbClient, result.data.id, result.data.players, startingBalance);
+
+        res.status(201).json(result);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Get game endpoint
+const getGameSession: RequestHandler<{ id: string }> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const result = await getGame(dbClient, req.params.id);
+
+        res.status(result.success ? 200 : 404).json(result);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Balances endpoint - every player's balance in a game
+const getBalancesHandler: RequestHandler<{ id: string }> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const game = await findGame(dbClient, req.params.id);
+        if (!game) {
+            res.status(404).json({ success: false, data: { error: `Game ${req.params.id} not found` } });
+            return next();
+        }
+
+        const result = await listBalances(dbClient, game.id, game.players);
+
+        res.json(result);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Game state endpoint - where the players are and what they own
+const getGameStateHandler: RequestHandler<{ id: string }> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const game = await findGame(dbClient, req.params.id);
+        if (!game) {
+            res.status(404).json({ success: false, data: { error: `Game ${req.params.id} not found` } });
+            return next();
+        }
+
+        const board = getBoard();
+        const state = await loadGameState(dbClient, game.id, game.players);
+
+        res.json({
+            success: true,
+            data: {
+                gameId: game.id,
+                board: board.name,
+                players: state.players.map(player => ({ ...player, space: board.spaces[player.position]?.name })),
+                holdings: state.holdings
+            }
+        });
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Memory endpoint - what event generation remembers of a game
+const getGameMemoryHandler: RequestHandler<{ id: string }> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const game = await findGame(dbClient, req.params.id);
+        if (!game) {
+            res.status(404).json({ success: false, data: { error: `Game ${req.params.id} not found` } });
+            return next();
+        }
+
+        const memory = await loadChatMemory(dbClient, game.id);
+
+        res.json({ success: true, data: { gameId: game.id, ...memory } });
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Transactions endpoint - a game's ledger, oldest first
+const getTransactionsHandler: RequestHandler<{ id: string }, any, {}, TransactionListRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const game = await findGame(dbClient, req.params.id);
+        if (!game) {
+            res.status(404).json({ success: false, data: { error: `Game ${req.params.id} not found` } });
+            return next();
+        }
+
+        const { userId, page, limit } = req.query;
+        const result = await listTransactions(dbClient, game.id, {
+            userId,
+            page: parseInt(page || '', 10) || undefined,
+            limit: parseInt(limit || '', 10) || undefined
+        });
+
+        res.json(result);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Auction endpoint - an auction opened by an auction card, with its high bid and closing time
+const getAuctionHandler: RequestHandler<{ id: string }> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const auction = await findAuction(dbClient, req.params.id);
+        if (!auction) {
+            res.status(404).json({ success: false, data: { error: `Auction ${req.params.id} not found` } });
+            return next();
+        }
+
+        res.json({ success: true, data: auction });
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Bid endpoint - a late bid keeps the auction open for AUCTION_EXTENSION_SECONDS so others can answer
+const placeBidHandler: RequestHandler<{ id: string }, any, BidRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const { userId, amount } = req.body;
+        if (!userId || typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+            res.status(400).json({ error: 'userId and a positive amount are required' });
+            return next();
+        }
+
+        const auction = await findAuction(dbClient, req.params.id);
+        if (!auction) {
+            res.status(404).json({ error: `Auction ${req.params.id} not found` });
+            return next();
+        }
+        const checked = await checkGamePlayer(auction.gameId, userId);
+        if (!('game' in checked)) {
+            res.status(checked.status).json({ error: checked.error });
+            return next();
+        }
+        if (auction.sellerId === userId) {
+            res.status(403).json({ error: `User ${userId} is selling ${auction.property} and cannot bid` });
+            return next();
+        }
+        if (auction.status !== 'open' || auction.endsAt <= new Date()) {
+            res.status(409).json({ error: `Auction ${auction.id} is closed` });
+            return next();
+        }
+        if (auction.highBid !== undefined ? amount <= auction.highBid : amount < auction.startingBid) {
+            const minimum = auction.highBid !== undefined ? `more than the high bid of ${auction.highBid}` : `at least ${auction.startingBid}`;
+            res.status(409).json({ error: `Bid must be ${minimum}` });
+            return next();
+        }
+        const balance = await playerBalance(auction.gameId, userId);
+        if (amount > balance) {
+            res.status(409).json({ error: `User ${userId} cannot afford a bid of ${amount} with a balance of ${balance}` });
+            return next();
+        }
+
+        const extendTo = new Date(Date.now() + AUCTION_EXTENSION_SECONDS * 1000);
+        const updated = await placeBid(dbClient, auction.id, userId, amount, extendTo);
+        if (!updated) {
+            res.status(409).json({ error: 'The auction closed or a higher bid came in first' });
+            return next();
+        }
+
+        scheduleAuctionClose(updated);
+        eventHub.publish('auction', { action: 'bid', auction: updated }, auctionScope(updated, checked.game.players));
+
+        res.json({ success: true, data: updated });
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Trade endpoint - a trade opened by a trade card
+const getTradeHandler: RequestHandler<{ id: string }> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const trade = await findTrade(dbClient, req.params.id);
+        if (!trade) {
+            res.status(404).json({ success: false, data: { error: `Trade ${req.params.id} not found` } });
+            return next();
+        }
+
+        res.json({ success: true, data: trade });
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Propose trade endpoint - the player who drew the card names the other player and the price
+const proposeTradeHandler: RequestHandler<{ id: string }, any, TradeProposalRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const { userId, recipient } = req.body;
+        if (!userId || !recipient) {
+            res.status(400).json({ error: 'userId and recipient are required' });
+            return next();
+        }
+
+        const trade = await findTrade(dbClient, req.params.id);
+        if (!trade) {
+            res.status(404).json({ error: `Trade ${req.params.id} not found` });
+            return next();
+        }
+        const price = req.body.price ?? trade.price;
+        if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
+            res.status(400).json({ error: 'price must be a non-negative number' });
+            return next();
+        }
+        if (trade.proposer !== userId) {
+            res.status(403).json({ error: `Only ${trade.proposer} can propose trade ${trade.id}` });
+            return next();
+        }
+        const checked = await checkGamePlayer(trade.gameId, recipient);
+        if (!('game' in checked) || recipient === userId) {
+            res.status(400).json({ error: `recipient must be another player in game ${trade.gameId}` });
+            return next();
+        }
+        if (trade.status !== 'open') {
+            res.status(409).json({ error: `Trade ${trade.id} has already been ${trade.status}` });
+            return next();
+        }
+        const holding = await findHolding(dbClient, trade.gameId, trade.property);
+        if (!holding || (holding.ownerId !== userId && holding.ownerId !== recipient)) {
+            res.status(409).json({ error: `Neither ${userId} nor ${recipient} owns ${trade.property}` });
+            return next();
+        }
+
+        const proposed = await proposeTrade(dbClient, trade.id, recipient, price);
+        if (!proposed) {
+            res.status(409).json({ error: `Trade ${trade.id} has already been proposed` });
+            return next();
+        }
+
+        eventHub.publish('trade', { action: 'proposed', trade: proposed }, tradeScope(proposed));
+
+        res.json({ success: true, data: proposed });
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+/**
+ * Answer trade endpoint - the other player accepts or rejects a proposed trade.
+ * On acceptance the owner of the property sells it to the other player for the proposed price.
+ */
+function answerTradeHandler(accept: boolean): RequestHandler<{ id: string }, any, UserIdRequest> {
+    return async (req, res, next: NextFunction): Promise<void> => {
+        try {
+            const { userId } = req.body;
+            if (!userId) {
+                res.status(400).json({ error: 'userId is required' });
+                return next();
+            }
+
+            const trade = await findTrade(dbClient, req.params.id);
+            if (!trade) {
+                res.status(404).json({ error: `Trade ${req.params.id} not found` });
+                return next();
+            }
+            if (trade.status !== 'proposed') {
+                res.status(409).json({ error: `Trade ${trade.id} is ${trade.status}, not waiting for an answer` });
+                return next();
+            }
+            if (trade.recipient !== userId) {
+                res.status(403).json({ error: `Only ${trade.recipient} can answer trade ${trade.id}` });
+                return next();
+            }
+
+            // Ownership and balances may have changed since the proposal
+            let seller: string | undefined;
+            let buyer: string | undefined;
+            if (accept) {
+                const holding = await findHolding(dbClient, trade.gameId, trade.property);
+                seller = holding?.ownerId;
+                if (seller !== trade.proposer && seller !== trade.recipient) {
+                    res.status(409).json({ error: `Neither ${trade.proposer} nor ${trade.recipient} owns ${trade.property} any more` });
+                    return next();
+                }
+                buyer = seller === trade.proposer ? trade.recipient : trade.proposer;
+                const balance = await playerBalance(trade.gameId, buyer);
+                if (trade.price > balance) {
+                    res.status(409).json({ error: `User ${buyer} cannot afford ${trade.price} with a balance of ${balance}` });
+                    return next();
+                }
+            }
+
+            const answered = await respondToTrade(dbClient, trade.id, accept);
+            if (!answered) {
+                res.status(409).json({ error: `Trade ${trade.id} has already been answered` });
+                return next();
+            }
+
+            const ledger: Posting[] = [];
+            if (accept && seller && buyer) {
+                const entry = { gameId: trade.gameId, collection: COLLECTIONS.events.name, itemId: trade.itemId };
+                if (trade.price > 0) {
+                    ledger.push(await postToLedger({
+                        ...entry,
+                        userId: buyer,
+                        type: 'trade_pay',
+                        amount: -trade.price,
+                        description: `Bought ${trade.property} from ${seller}`
+                    }));
+                    ledger.push(await postToLedger({
+                        ...entry,
+                        userId: seller,
+                        type: 'trade_collect',
+                        amount: trade.price,
+                        description: `Sold ${trade.property} to ${buyer}`
+                    }));
+                }
+                await transferHolding(dbClient, trade.gameId, trade.property, buyer);
+            }
+
+            eventHub.publish('trade', { action: answered.status, trade: answered, ledger }, tradeScope(answered));
+
+            res.json({ success: true, data: answered, ...(accept && { ledger }) });
+        } catch (error) {
+            if (error instanceof Error) {
+                res.status(500).json({ error: error.message });
+            } else {
+                res.status(500).json({ error: 'An unknown error occurred' });
+            }
+        }
+        next();
+    };
+}
+
+// History endpoint - what was drawn, created, updated and deleted, newest first
+const historyHandler: RequestHandler<{}, any, {}, HistoryRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const { userId, gameId, collection, action, page, limit } = req.query;
+        if (action !== undefined && !HISTORY_ACTIONS.includes(action)) {
+            res.status(400).json({ error: `action must be one of ${HISTORY_ACTIONS.join(', ')}` });
+            return next();
+        }
+
+        const from = req.query.from !== undefined ? new Date(req.query.from) : undefined;
+        const to = req.query.to !== undefined ? new Date(req.query.to) : undefined;
+        if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+            res.status(400).json({ error: 'from and to must be dates, e.g. 2024-05-01 or 2024-05-01T18:00:00Z' });
+            return next();
+        }
+
+        const result = await listHistory(dbClient, {
+            userId,
+            gameId,
+            collection,
+            action,
+            from,
+            to,
+            page: parseInt(page || '', 10) || undefined,
+            limit: parseInt(limit || '', 10) || undefined
+        });
+
+        res.json(result);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Draw order endpoint - the order seeded draws go through a deck in, for replaying a game
+const drawOrderHandler: RequestHandler<{}, any, {}, DrawOrderRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const { collection, gameId, deck: deckId } = req.query;
+        if (!collection || !DECK_COLLECTIONS.includes(collection)) {
+            res.status(400).json({ error: `collection must be one of ${DECK_COLLECTIONS.join(', ')}` });
+            return next();
+        }
+
+        const override = parseDrawPolicyQuery(req.query);
+        if ('error' in override) {
+            res.status(400).json({ error: override.error });
+            return next();
+        }
+
+        let seed = req.query.seed;
+        if (seed === undefined && gameId) {
+            const game = await findGame(dbClient, gameId);
+            if (!game) {
+                res.status(404).json({ error: `Game ${gameId} not found` });
+                return next();
+            }
+            seed = game.seed;
+        }
+        if (!seed) {
+            res.status(400).json({ error: 'seed is required, or a gameId of a game created with a seed' });
+            return next();
+        }
+
+        if (deckId && !await findDeck(dbClient, deckId)) {
+            res.status(404).json({ error: `Deck ${deckId} not found` });
+            return next();
+        }
+
+        const { sampleData, drawPolicy } = COLLECTIONS[collection];
+        const result = await getDrawOrder(dbClient, collection, seed, sampleData as BaseItem[], {
+            deckId: deckId || undefined,
+            policy: { ...drawPolicy, ...override.policy }
+        });
+
+        res.json(result);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Create questions endpoint
+const createQuestions: RequestHandler<{}, any, CreateQuestionRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const request = parseQuestionRequest(req.body);
+        if ('error' in request) {
+            res.status(400).json(request);
+            return next();
+        }
+        const { userId } = req.body;
+
+        try {
+            const chatBot = MonopolyChatBot.getInstance();
+            const response = await chatBot.createQuestions(request);
+
+            if (!response.success) {
+                res.status(400).json({ error: 'Failed to generate questions', rejected: response.rejected });
+                return next();
+            }
+
+            const result = await createItems<Question>(
+                dbClient,
+                COLLECTIONS.questions.name,
+                userId,
+                response.data.map(data => ({ data }))
+            );
+
+            eventHub.publish('deck-updated', {
+                collection: COLLECTIONS.questions.name,
+                userId,
+                action: 'created',
+                insertedCount: result.data.insertedCount
+            }, { userId });
+
+            await recordHistory(req, changeRecords(COLLECTIONS.questions.name, userId, result.data, undefined, response.data));
+
+            res.json({
+                ...result,
+                data: { ...result.data, rejected: response.rejected }
+            });
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('MonopolyChatBot not initialized')) {
+                res.status(503).json({
+                    error: 'MonopolyChatBot service is not available',
+                    details: 'Question creation with AI is currently unavailable'
+                });
+            } else {
+                throw error;
+            }
+        }
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Update questions endpoint - replaces existing questions with new ones, keeping the old ones restorable
+const updateQuestions: RequestHandler<{}, any, CreateQuestionRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const request = parseQuestionRequest(req.body);
+        if ('error' in request) {
+            res.status(400).json(request);
+            return next();
+        }
+        const { userId } = req.body;
+
+        try {
+            // Generate the new questions first, so a failed generation leaves the existing ones untouched
+            const chatBot = MonopolyChatBot.getInstance();
+            const response = await chatBot.createQuestions(request);
+
+            if (!response.success) {
+                res.status(400).json({ error: 'Failed to generate questions', rejected: response.rejected });
+                return next();
+            }
+
+            // Then swap them in for the questions created by this user in one transaction
+            const result = await replaceItemsByUser<Question>(
+                dbClient,
+                COLLECTIONS.questions.name,
+                userId,
+                response.data.map(data => ({ data }))
+            );
+
+            eventHub.publish('deck-updated', {
+                collection: COLLECTIONS.questions.name,
+                userId,
+                action: 'replaced',
+                deletedCount: result.data.deletedCount,
+                insertedCount: result.data.insertedCount
+            }, { userId });
+
+            await recordHistory(req, changeRecords(COLLECTIONS.questions.name, userId, result.data, undefined, response.data));
+
+            res.json({
+                success: true,
+                data: {
+                    deletedQuestions: { deletedCount: result.data.deletedCount },
+                    newQuestions: { insertedCount: result.data.insertedCount, insertedIds: result.data.insertedIds },
+                    rejected: response.rejected
+                }
+            });
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('MonopolyChatBot not initialized')) {
+                res.status(503).json({
+                    error: 'MonopolyChatBot service is not available',
+                    details: 'Question creation with AI is currently unavailable'
+                });
+            } else {
+                throw error;
+            }
+        }
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// SSE endpoint for events - streams hub messages, optionally filtered by user or game.
+// Shares its path with the admin event list, so only requests accepting an event stream are handled here.
+const eventStream: RequestHandler<{}, any, {}, EventStreamRequest> = (req, res, next: NextFunction): void => {
+    if (!req.get('Accept')?.includes('text/event-stream')) {
+        return next('route');
+    }
+
+    const { userId, gameId } = req.query;
+    const filter = {
+        ...(userId && { userId }),
+        ...(gameId && { gameId })
+    };
+
+    // Set headers for SSE
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    // Replay what a reconnecting client missed
+    const lastEventId = parseInt(req.get('Last-Event-ID') || req.query.lastEventId || '', 10);
+    if (!isNaN(lastEventId)) {
+        for (const message of eventHub.replay(lastEventId, filter)) {
+            res.write(formatSSE(message));
+        }
+    }
+
+    const unsubscribe = eventHub.subscribe(filter, message => {
+        res.write(formatSSE(message));
+    });
+
+    // Send a ping every 30 seconds to keep the connection alive
+    const pingInterval = setInterval(() => {
+        res.write('event: ping\ndata: ping\n\n');
     }, 30000);
 
     // Clean up on client disconnect
     req.on('close', () => {
         clearInterval(pingInterval);
+        unsubscribe();
     });
+};
+
+/**
+ * Build the admin CRUD handlers for one item collection
+ * @param collectionName Collection the handlers operate on
+ * @param validate Validates item data sent by the client
+ */
+function itemAdminHandlers(collectionName: string, validate: (raw: unknown) => ValidationResult<BaseItem['data']>) {
+    const list: RequestHandler<{}, any, {}, ItemListRequest> = async (req, res, next: NextFunction): Promise<void> => {
+        try {
+            const { type, difficulty, createdBy, deck, used, sort, order, page, limit } = req.query;
+            if (sort !== undefined && !ITEM_SORT_FIELDS.includes(sort)) {
+                res.status(400).json({ error: `sort must be one of ${ITEM_SORT_FIELDS.join(', ')}` });
+                return next();
+            }
+            if (order !== undefined && order !== 'asc' && order !== 'desc') {
+                res.status(400).json({ error: 'order must be asc or desc' });
+                return next();
+            }
+            if (used !== undefined && used !== 'true' && used !== 'false') {
+                res.status(400).json({ error: 'used must be true or false' });
+                return next();
+            }
+
+            const result = await listItems(dbClient, collectionName, {
+                type,
+                difficulty,
+                createdBy,
+                deckId: deck,
+                used: used === undefined ? undefined : used === 'true',
+                sort,
+                order,
+                page: parseInt(page || '', 10) || undefined,
+                limit: parseInt(limit || '', 10) || undefined
+            });
+
+            res.json(result);
+        } catch (error) {
+            if (error instanceof Error) {
+                res.status(500).json({ error: error.message });
+            } else {
+                res.status(500).json({ error: 'An unknown error occurred' });
+            }
+        }
+        next();
+    };
+
+    const create: RequestHandler<{}, any, ItemCreateRequest> = async (req, res, next: NextFunction): Promise<void> => {
+        try {
+            const { userId, data } = req.body;
+            if (!userId || data === undefined) {
+                res.status(400).json({ error: 'userId and data are required' });
+                return next();
+            }
+
+            const { valid, rejected } = validate([data]);
+            if (valid.length === 0) {
+                res.status(400).json({ error: `Invalid ${collectionName} data`, details: rejected[0].errors });
+                return next();
+            }
+
+            const result = await createItems(dbClient, collectionName, userId, [{ data: valid[0] }]);
+
+            eventHub.publish('deck-updated', {
+                collection: collectionName,
+                userId,
+                action: 'created',
+                insertedCount: result.data.insertedCount
+            }, { userId });
+
+            await recordHistory(req, changeRecords(collectionName, userId, result.data, undefined, [valid[0]]));
+
+            res.status(201).json(result);
+        } catch (error) {
+            if (error instanceof Error) {
+                res.status(500).json({ error: error.message });
+            } else {
+                res.status(500).json({ error: 'An unknown error occurred' });
+            }
+        }
+        next();
+    };
+
+    const get: RequestHandler<{ id: string }> = async (req, res, next: NextFunction): Promise<void> => {
+        try {
+            const item = await findItemById(dbClient, collectionName, req.params.id);
+            if (!item) {
+                res.status(404).json({ success: false, data: { error: `No ${collectionName} item with id ${req.params.id}` } });
+                return next();
+            }
+
+            res.json({ success: true, data: item });
+        } catch (error) {
+            if (error instanceof Error) {
+                res.status(500).json({ error: error.message });
+            } else {
+                res.status(500).json({ error: 'An unknown error occurred' });
+            }
+        }
+        next();
+    };
+
+    const update: RequestHandler<{ id: string }, any, ItemUpdateRequest> = async (req, res, next: NextFunction): Promise<void> => {
+        try {
+            const { data, used } = req.body;
+            if (data === undefined && used === undefined) {
+                res.status(400).json({ error: 'data or used is required' });
+                return next();
+            }
+            if (used !== undefined && typeof used !== 'boolean') {
+                res.status(400).json({ error: 'used must be a boolean' });
+                return next();
+            }
+            if (data !== undefined && (typeof data !== 'object' || data === null || Array.isArray(data))) {
+                res.status(400).json({ error: 'data must be an object' });
+                return next();
+            }
+
+            const existing = await findItemById(dbClient, collectionName, req.params.id);
+            if (!existing) {
+                res.status(404).json({ success: false, data: { error: `No ${collectionName} item with id ${req.params.id}` } });
+                return next();
+            }
+
+            // Patched fields are merged into the stored data, then the whole item is validated again
+            let merged: BaseItem['data'] | undefined;
+            if (data !== undefined) {
+                const { valid, rejected } = validate([{ ...existing.data, ...data }]);
+                if (valid.length === 0) {
+                    res.status(400).json({ error: `Invalid ${collectionName} data`, details: rejected[0].errors });
+                    return next();
+                }
+                merged = valid[0];
+            }
+
+            const result = await updateItemById(dbClient, collectionName, req.params.id, { data: merged, used });
+
+            if (result.success) {
+                await recordHistory(req, [{
+                    action: 'update',
+                    collection: collectionName,
+                    itemId: req.params.id,
+                    ...(result.data.deckId && { deckId: result.data.deckId }),
+                    data: result.data.data
+                }]);
+            }
+
+            res.status(result.success ? 200 : 404).json(result);
+        } catch (error) {
+            if (error instanceof Error) {
+                res.status(500).json({ error: error.message });
+            } else {
+                res.status(500).json({ error: 'An unknown error occurred' });
+            }
+        }
+        next();
+    };
+
+    const remove: RequestHandler<{ id: string }> = async (req, res, next: NextFunction): Promise<void> => {
+        try {
+            // Read the item first, so the history keeps what was deleted
+            const existing = await findItemById(dbClient, collectionName, req.params.id);
+            const result = await deleteItemById(dbClient, collectionName, req.params.id);
+
+            if (result.success) {
+                await recordHistory(req, [{
+                    action: 'delete',
+                    collection: collectionName,
+                    itemId: req.params.id,
+                    ...(existing?.deckId && { deckId: existing.deckId }),
+                    ...(existing && { data: existing.data })
+                }]);
+            }
+
+            res.status(result.success ? 200 : 404).json(result);
+        } catch (error) {
+            if (error instanceof Error) {
+                res.status(500).json({ error: error.message });
+            } else {
+                res.status(500).json({ error: 'An unknown error occurred' });
+            }
+        }
+        next();
+    };
+
+    return { list, create, get, update, remove };
+}
+
+const eventAdmin = itemAdminHandlers(COLLECTIONS.events.name, validateEvents);
+const questionAdmin = itemAdminHandlers(COLLECTIONS.questions.name, validateQuestionsWithPayouts);
+
+// Export a deck as a JSON or CSV file
+const exportDeckHandler: RequestHandler<{}, any, {}, ExportDeckRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const { collection, format = 'json', createdBy } = req.query;
+        if (!collection || !DECK_COLLECTIONS.includes(collection)) {
+            res.status(400).json({ error: `collection must be one of ${DECK_COLLECTIONS.join(', ')}` });
+            return next();
+        }
+        if (!DECK_FORMATS.includes(format)) {
+            res.status(400).json({ error: `format must be one of ${DECK_FORMATS.join(', ')}` });
+            return next();
+        }
+
+        const content = await exportDeck(dbClient, collection, { format, createdBy });
+        const { extension, contentType } = deckFormatInfo(format);
+
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${collection}.${extension}"`);
+        res.send(content);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
+    next();
+};
+
+// Import a deck from a JSON or CSV file, validating every row before anything is stored
+const importDeckHandler: RequestHandler<{}, any, ImportDeckRequest> = async (req, res, next: NextFunction): Promise<void> => {
+    try {
+        const { userId, collection, content, format = 'json', mode = 'append', dryRun = false } = req.body;
+        if (!userId || !collection || content === undefined) {
+            res.status(400).json({ error: 'userId, collection and content are required' });
+            return next();
+        }
+        if (!DECK_COLLECTIONS.includes(collection)) {
+            res.status(400).json({ error: `collection must be one of ${DECK_COLLECTIONS.join(', ')}` });
+            return next();
+        }
+        if (!DECK_FORMATS.includes(format)) {
+            res.status(400).json({ error: `format must be one of ${DECK_FORMATS.join(', ')}` });
+            return next();
+        }
+        if (!IMPORT_MODES.includes(mode)) {
+            res.status(400).json({ error: `mode must be one of ${IMPORT_MODES.join(', ')}` });
+            return next();
+        }
+
+        const result = await importDeck(dbClient, collection, userId, content, { format, mode, dryRun: dryRun === true });
+        if (!result.success) {
+            res.status(400).json(result);
+            return next();
+        }
+
+        if (!result.data.dryRun) {
+            eventHub.publish('deck-updated', {
+                collection,
+                userId,
+                action: mode === 'replace' ? 'replaced' : 'created',
+                ...(mode === 'replace' && { deletedCount: result.data.deletedCount }),
+                insertedCount: result.data.insertedCount
+            }, { userId });
+
+            await recordHistory(req, changeRecords(collection, userId, result.data));
+        }
+
+        res.json(result);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({ error: error.message });
+        } else {
+            res.status(500).json({ error: 'An unknown error occurred' });
+        }
+    }
     next();
 };
 
@@ -301,9 +2150,44 @@ const eventStream: RequestHandler = (req, res, next: NextFunction): void => {
 router.get('/health', healthCheck);
 router.get('/getEvent', getEvent);
 router.get('/getQuestion', getQuestion);
+router.post('/answerQuestion', answerQuestionHandler);
+router.post('/createEvents', createEventsStream);
 router.post('/createEvents', createEvents);
 router.post('/updateEvents', updateEvents);
+router.post('/createQuestions', createQuestions);
+router.post('/updateQuestions', updateQuestions);
+router.post('/events/restore', restoreEvents);
+router.post('/questions/restore', restoreQuestions);
 router.get('/events', eventStream);
+router.get('/events', requireAdmin, eventAdmin.list);
+router.post('/events', requireAdmin, eventAdmin.create);
+router.get('/events/:id', requireAdmin, eventAdmin.get);
+router.patch('/events/:id', requireAdmin, eventAdmin.update);
+router.delete('/events/:id', requireAdmin, eventAdmin.remove);
+router.get('/questions', requireAdmin, questionAdmin.list);
+router.post('/questions', requireAdmin, questionAdmin.create);
+router.get('/questions/:id', requireAdmin, questionAdmin.get);
+router.patch('/questions/:id', requireAdmin, questionAdmin.update);
+router.delete('/questions/:id', requireAdmin, questionAdmin.remove);
+router.get('/export', requireAdmin, exportDeckHandler);
+router.post('/import', requireAdmin, importDeckHandler);
+router.post('/decks', createDeckHandler);
+router.get('/decks', listDecksHandler);
+router.get('/decks/:id', getDeckHandler);
+router.post('/games', createGameSession);
+router.get('/games/:id', getGameSession);
+router.get('/games/:id/balances', getBalancesHandler);
+router.get('/games/:id/state', getGameStateHandler);
+router.get('/games/:id/memory', getGameMemoryHandler);
+router.get('/games/:id/transactions', getTransactionsHandler);
+router.get('/auctions/:id', getAuctionHandler);
+router.post('/auctions/:id/bids', placeBidHandler);
+router.get('/trades/:id', getTradeHandler);
+router.post('/trades/:id/propose', proposeTradeHandler);
+router.post('/trades/:id/accept', answerTradeHandler(true));
+router.post('/trades/:id/reject', answerTradeHandler(false));
+router.get('/drawOrder', requireAdmin, drawOrderHandler);
+router.get('/history', requireAdmin, historyHandler);
 
 // Use router
 app.use(router);
@@ -312,11 +2196,38 @@ app.use(router);
 initializeServices().then(() => {
     app.listen(PORT, () => {
         console.log(`Server running at http://localhost:${PORT}`);
+        if (!process.env.ADMIN_TOKEN) {
+            console.warn(adminAuthDisabled()
+                ? 'ADMIN_AUTH_DISABLED is set: admin routes are open to everyone'
+                : 'ADMIN_TOKEN is not set: admin routes are disabled');
+        }
         console.log('Available endpoints:');
         console.log('  GET  /health     - Check server and MongoDB status');
-        console.log('  GET  /getEvent   - Get an unused event');
+        console.log('  GET  /getEvent   - Get an unused event, from a deck with ?deck=');
         console.log('  GET  /getQuestion- Get an unused question');
+        console.log('  POST /answerQuestion- Answer a dealt question');
         console.log('  POST /createEvents- Create a new event using AI');
+        console.log('  POST /createEvents (Accept: text/event-stream) - Stream new events as they are generated');
         console.log('  POST /updateEvents- Update existing events using AI');
+        console.log('  POST /events/restore- Restore events of a deck replaced by its last update');
+        console.log('  POST /createQuestions- Create quiz questions using AI');
+        console.log('  POST /updateQuestions- Update existing questions using AI');
+        console.log('  POST /questions/restore- Restore questions of a deck replaced by its last update');
+        console.log('  GET  /events     - Stream game activity (SSE, Accept: text/event-stream)');
+        console.log('  GET|POST /events, GET|PATCH|DELETE /events/:id       - Manage events (admin)');
+        console.log('  GET|POST /questions, GET|PATCH|DELETE /questions/:id - Manage questions (admin)');
+        console.log('  GET  /export     - Export a deck as JSON or CSV (admin)');
+        console.log('  POST /import     - Import a deck from JSON or CSV (admin)');
+        console.log('  POST /decks      - Create a named, themed deck');
+        console.log('  GET  /decks, GET /decks/:id - List decks or get one deck');
+        console.log('  POST /games      - Create a game session with its players');
+        console.log('  GET  /games/:id  - Get a game session');
+        console.log('  GET  /games/:id/balances, /games/:id/transactions - Player balances and the game ledger');
+        console.log('  GET  /games/:id/state - Player positions, jail state and holdings');
+        console.log('  GET  /games/:id/memory - Earlier prompts and events that event generation builds on');
+        console.log('  GET  /auctions/:id, POST /auctions/:id/bids - Follow and bid on an auction');
+        console.log('  GET  /trades/:id, POST /trades/:id/propose|accept|reject - Propose and answer a trade');
+        console.log('  GET  /drawOrder  - Get the order seeded draws follow, for replays (admin)');
+        console.log('  GET  /history    - Draw and change history by user, game, collection and time (admin)');
     });
 });
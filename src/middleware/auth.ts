@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Protect admin routes with the ADMIN_TOKEN environment variable.
+ * Requests must send `Authorization: Bearer <token>`. Without a configured token the routes are refused,
+ * unless ADMIN_AUTH_DISABLED=true opens them for development.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+    const token = process.env.ADMIN_TOKEN;
+    if (!token) {
+        if (adminAuthDisabled()) {
+            return next();
+        }
+        res.status(403).json({ error: 'Admin routes are disabled: set ADMIN_TOKEN, or ADMIN_AUTH_DISABLED=true for development' });
+        return;
+    }
+
+    if (req.get('Authorization') !== `Bearer ${token}`) {
+        res.status(401).json({ error: 'Admin token required' });
+        return;
+    }
+
+    next();
+}
+
+/**
+ * Whether admin routes were explicitly opened to everyone with ADMIN_AUTH_DISABLED=true
+ */
+export function adminAuthDisabled(): boolean {
+    return process.env.ADMIN_AUTH_DISABLED === 'true';
+}
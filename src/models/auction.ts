@@ -0,0 +1,46 @@
+import { ObjectId } from 'mongodb';
+
+export const AUCTION_STATUSES = ['open', 'sold', 'unsold'] as const;
+
+export type AuctionStatus = typeof AUCTION_STATUSES[number];
+
+/**
+ * Auction of a property, opened by drawing an auction card in a game
+ */
+export interface Auction {
+    _id?: ObjectId;
+    gameId: string;
+    property: string;
+    openedBy: string;  // Player who drew the card
+    itemId: string;  // The drawn auction event
+    sellerId?: string;  // Player who owned the property when the auction opened; the bank sells otherwise
+    startingBid: number;
+    highBid?: number;
+    highBidder?: string;
+    bidCount: number;
+    status: AuctionStatus;
+    endsAt: Date;  // Pushed back by late bids
+    createdAt: Date;
+    closedAt?: Date;
+}
+
+export const TRADE_STATUSES = ['open', 'proposed', 'accepted', 'rejected'] as const;
+
+export type TradeStatus = typeof TRADE_STATUSES[number];
+
+/**
+ * Trade of a property between two players, opened by drawing a trade card in a game.
+ * The player who drew the card proposes it; the owner of the property sells it to the other player.
+ */
+export interface Trade {
+    _id?: ObjectId;
+    gameId: string;
+    property: string;
+    proposer: string;  // Player who drew the card
+    itemId: string;  // The drawn trade event
+    recipient?: string;  // Set by the proposal
+    price: number;  // Paid by the buyer to the seller; the card's amount until a proposal sets it
+    status: TradeStatus;
+    createdAt: Date;
+    respondedAt?: Date;
+}
@@ -7,4 +7,6 @@ export interface BaseItem {
     assignedTo?: string;
     createdBy?: string;
     createdAt?: Date;
+    drawnAt?: Date;  // When the item was last claimed outside of a game
+    deckId?: string;  // Deck the item belongs to, unset for the base deck
 }
@@ -0,0 +1,31 @@
+/**
+ * Kinds of board spaces; properties, railroads and utilities can be owned
+ */
+export const SPACE_KINDS = [
+    'property', 'railroad', 'utility', 'tax', 'chance', 'community_chest', 'go', 'jail', 'free_parking', 'go_to_jail'
+] as const;
+
+export type SpaceKind = typeof SPACE_KINDS[number];
+
+export const OWNABLE_SPACE_KINDS: ReadonlyArray<SpaceKind> = ['property', 'railroad', 'utility'];
+
+export interface BoardSpace {
+    name: string;
+    kind: SpaceKind;
+    group?: string;  // Color group of a property, e.g. "dark_blue"
+    price?: number;  // Purchase price of an ownable space, or the amount of a tax
+    houseCost?: number;
+    /**
+     * Rent of a property unimproved, then with 1-4 houses and a hotel.
+     * For railroads the rent by number of railroads owned, for utilities the multiplier of the dice roll.
+     */
+    rents?: number[];
+}
+
+/**
+ * Board definition, spaces in the order they are laid out; players start on the first space
+ */
+export interface Board {
+    name: string;
+    spaces: BoardSpace[];
+}
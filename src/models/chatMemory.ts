@@ -0,0 +1,15 @@
+import { ObjectId } from 'mongodb';
+
+/**
+ * What event generation remembers of a game, so later batches build on earlier ones instead of repeating them
+ */
+export interface ChatMemory {
+    _id?: ObjectId;
+    gameId: string;
+    prompts: string[];  // Earlier generation requests, oldest first
+    events: string[];  // One line per generated event, oldest first, e.g. "chance: Advance to Boardwalk"
+    state?: string;  // The game state at the last generation
+    updatedAt: Date;
+}
+
+export type GameMemory = Pick<ChatMemory, 'prompts' | 'events' | 'state'>;
@@ -0,0 +1,14 @@
+import { ObjectId } from 'mongodb';
+
+/**
+ * A named, themed set of cards. Items that belong to no deck form the base deck.
+ */
+export interface Deck {
+    _id?: ObjectId;
+    name: string;
+    theme?: string;  // Used when generating cards for the deck, e.g. "Tokyo night"
+    language?: string;  // Language generated cards are written in
+    owner: string;  // Only the owner can add cards to the deck
+    baseRatio: number;  // Share of draws taken from the base deck, 0 draws only from this deck
+    createdAt?: Date;
+}
@@ -0,0 +1,20 @@
+import { ObjectId } from 'mongodb';
+import { BaseItem } from './base';
+
+export interface ArchivedItem {
+    data: BaseItem['data'];
+    createdAt?: Date;
+}
+
+/**
+ * The set of items a user had in a deck of a collection before their last replace or restore of that deck.
+ * Only the last replace of each deck is kept.
+ */
+export interface DeckVersion {
+    _id?: ObjectId;
+    collection: string;
+    userId: string;
+    deckId?: string | null;  // Deck the items were replaced in, null or unset for the base deck
+    items: ArchivedItem[];
+    replacedAt: Date;
+}
@@ -1,12 +1,50 @@
 import { BaseItem } from './base';
+import { SpaceKind } from './board';
+
+// Event types the game master may generate; 'system' is reserved for server messages
+export const GAME_EVENT_TYPES = ['chance', 'community_chest', 'trade', 'auction', 'property'] as const;
+
+export type GameEventType = typeof GAME_EVENT_TYPES[number];
+
+// Whether the player who draws an event pays its amount to the bank or collects it
+export const EVENT_DIRECTIONS = ['pay', 'collect'] as const;
+
+export type EventDirection = typeof EVENT_DIRECTIONS[number];
+
+// Event types whose amount is a payment between the player and the bank; trade and auction amounts are offers
+export const PAYMENT_EVENT_TYPES: ReadonlyArray<GameEventType> = ['chance', 'community_chest', 'property'];
+
+export const EFFECT_KINDS = [
+    'pay', 'collect', 'pay_each_player', 'collect_from_each_player',
+    'advance_to', 'advance_to_nearest', 'move', 'go_to_jail', 'get_out_of_jail', 'pay_per_building'
+] as const;
+
+export type EffectKind = typeof EFFECT_KINDS[number];
+
+export const MONEY_EFFECT_KINDS: ReadonlyArray<EffectKind> = ['pay', 'collect', 'pay_each_player', 'collect_from_each_player'];
+
+/**
+ * Something drawing an event does to the game, applied to the player who drew it.
+ * Money effects without an amount use the event's amount.
+ */
+export type EventEffect =
+    | { kind: 'pay' | 'collect' | 'pay_each_player' | 'collect_from_each_player'; amount?: number }
+    | { kind: 'advance_to'; space: string }  // Collects the GO salary when passing GO
+    | { kind: 'advance_to_nearest'; spaceKind: SpaceKind }
+    | { kind: 'move'; steps: number }  // Negative steps move back, without passing GO
+    | { kind: 'go_to_jail' | 'get_out_of_jail' }
+    | { kind: 'pay_per_building'; perHouse: number; perHotel: number };
 
 export interface Event extends BaseItem {
     data: {
         message: string;
-        type: 'chance' | 'community_chest' | 'trade' | 'auction' | 'property' | 'system';
+        type: GameEventType | 'system';
         amount?: number;
         property?: string;
         baseAmount?: number;  // Original amount before random variation
+        direction?: EventDirection;  // Required for payment event types with an amount and no effects
+        effects?: EventEffect[];  // What the event does when drawn in a game, instead of paying or collecting amount
+        weight?: number;  // Relative chance of being drawn among events of its type, 1 when not set
     };
     used: boolean;
     assignedTo?: string;
@@ -20,7 +58,8 @@ export const eventSampleData: ReadonlyArray<Omit<Event, '_id'>> = [
             message: 'Pay luxury tax', 
             type: 'chance',
             amount: 2400,
-            baseAmount: 2000
+            baseAmount: 2000,
+            direction: 'pay'
         }, 
         used: false 
     },
@@ -39,7 +78,8 @@ export const eventSampleData: ReadonlyArray<Omit<Event, '_id'>> = [
             message: 'Bank error in your favor', 
             type: 'community_chest',
             amount: 1200,
-            baseAmount: 1000
+            baseAmount: 1000,
+            direction: 'collect'
         }, 
         used: false 
     }
@@ -0,0 +1,50 @@
+import { ObjectId } from 'mongodb';
+
+export interface Game {
+    _id?: ObjectId;
+    name?: string;
+    players: string[];
+    seed?: string;  // Makes the game's draws follow a reproducible order
+    createdBy?: string;
+    createdAt?: Date;
+}
+
+/**
+ * Per-game record of an item that has been drawn, so each game keeps its own
+ * used/unused state independently of the global `used` flag on items
+ */
+export interface GameDraw {
+    _id?: ObjectId;
+    gameId: string;
+    collection: string;
+    itemId: ObjectId | number;
+    assignedTo: string;
+    drawnAt: Date;
+}
+
+/**
+ * Where a player is on the board in a game
+ */
+export interface PlayerState {
+    _id?: ObjectId;
+    gameId: string;
+    userId: string;
+    position: number;  // Index into the board's spaces
+    inJail: boolean;
+    jailCards: number;  // Get out of jail cards the player keeps for later
+    updatedAt: Date;
+}
+
+export type PlayerPosition = Pick<PlayerState, 'userId' | 'position' | 'inJail' | 'jailCards'>;
+
+/**
+ * A board space owned by a player in a game
+ */
+export interface Holding {
+    _id?: ObjectId;
+    gameId: string;
+    space: string;  // Name of the space on the board
+    ownerId: string;
+    houses: number;  // 0-4 houses, 5 for a hotel
+    updatedAt: Date;
+}
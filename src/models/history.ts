@@ -0,0 +1,21 @@
+import { ObjectId } from 'mongodb';
+
+export const HISTORY_ACTIONS = ['draw', 'create', 'update', 'delete'] as const;
+
+export type HistoryAction = typeof HISTORY_ACTIONS[number];
+
+/**
+ * One entry of the append-only history of what happened to an item
+ */
+export interface HistoryEntry {
+    _id?: ObjectId;
+    action: HistoryAction;
+    collection: string;
+    itemId: string;
+    userId?: string;  // Who drew or changed the item; unset for admin changes made without a user
+    gameId?: string;
+    deckId?: string;
+    route: string;  // Route that made the change, e.g. "GET /getEvent"
+    data?: unknown;  // Item data at the time, when known
+    createdAt: Date;
+}
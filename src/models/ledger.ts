@@ -0,0 +1,41 @@
+import { ObjectId } from 'mongodb';
+
+/**
+ * What moved a player's balance: the opening balance of the game, an event the player paid to or collected from
+ * the bank, a payment between players, the salary for passing GO, buying or selling a property at an auction
+ * or in a trade, or the payout for answering a question
+ */
+export const TRANSACTION_TYPES = [
+    'opening', 'event_pay', 'event_collect', 'player_pay', 'player_collect', 'salary',
+    'auction_pay', 'auction_collect', 'trade_pay', 'trade_collect', 'question_reward', 'question_penalty'
+] as const;
+
+export type TransactionType = typeof TRANSACTION_TYPES[number];
+
+/**
+ * A player's balance in one game
+ */
+export interface PlayerBalance {
+    _id?: ObjectId;
+    gameId: string;
+    userId: string;
+    balance: number;
+    bankrupt: boolean;  // Set the first time the balance drops below zero, and kept after that
+    updatedAt: Date;
+}
+
+/**
+ * One entry of a game's ledger
+ */
+export interface LedgerTransaction {
+    _id?: ObjectId;
+    gameId: string;
+    userId: string;
+    type: TransactionType;
+    amount: number;  // Negative when money leaves the player
+    balanceAfter: number;
+    collection?: string;  // Collection of the drawn or answered item that caused it
+    itemId?: string;
+    description?: string;
+    createdAt: Date;
+}
@@ -1,9 +1,75 @@
+import { ObjectId } from 'mongodb';
 import { BaseItem } from './base';
 
-export interface Question extends BaseItem {}
+export const QUESTION_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export type QuestionDifficulty = typeof QUESTION_DIFFICULTIES[number];
+
+export interface Question extends BaseItem {
+    data: {
+        message: string;  // The question text
+        choices: string[];
+        answer: number;  // Index of the correct choice
+        explanation?: string;
+        difficulty: QuestionDifficulty;
+        reward: number;  // Paid to the player for a correct answer
+        penalty?: number;  // Charged to the player for a wrong answer
+    };
+    used: boolean;
+    assignedTo?: string;
+    createdBy?: string;
+    createdAt?: Date;
+}
+
+/**
+ * A question dealt to a player by /getQuestion and waiting for an answer
+ */
+export interface QuestionDeal {
+    _id?: ObjectId;
+    userId: string;
+    gameId?: string;
+    questionId: ObjectId | number;
+    dealtAt: Date;
+    answeredAt?: Date;
+    answer?: number;
+    correct?: boolean;
+}
 
 export const questionSampleData: ReadonlyArray<Omit<Question, '_id'>> = [
-    { data: { message: 'Question 1' }, used: false },
-    { data: { message: 'Question 2' }, used: false },
-    { data: { message: 'Question 3' }, used: false }
+    {
+        data: {
+            message: 'How much money does each player start with in classic Monopoly?',
+            choices: ['$1000', '$1500', '$2000', '$2500'],
+            answer: 1,
+            explanation: 'Each player starts with $1500 in the classic edition.',
+            difficulty: 'easy',
+            reward: 200,
+            penalty: 100
+        },
+        used: false
+    },
+    {
+        data: {
+            message: 'Which property is the most expensive on the classic board?',
+            choices: ['Park Place', 'Boardwalk', 'Marvin Gardens', 'Illinois Avenue'],
+            answer: 1,
+            explanation: 'Boardwalk costs $400, more than any other property.',
+            difficulty: 'easy',
+            reward: 200,
+            penalty: 100
+        },
+        used: false
+    },
+    {
+        data: {
+            message: 'How many railroads are on the classic Monopoly board?',
+            choices: ['2', '3', '4', '6'],
+            answer: 2,
+            explanation: 'Reading, Pennsylvania, B. & O. and Short Line are the four railroads.',
+            difficulty: 'medium',
+            reward: 300,
+            penalty: 150
+        },
+        used: false
+    }
 ] as const;
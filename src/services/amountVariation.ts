@@ -0,0 +1,83 @@
+import { AmountVariationPolicy } from '../config/economy';
+import { EventData } from './itemValidator';
+
+// Placeholder the model writes in the message where the final amount belongs
+export const AMOUNT_PLACEHOLDER = '{amount}';
+
+/**
+ * Compute the final amount of an event from its baseAmount and rewrite the message to show it
+ * @param event Validated event as generated by the model
+ * @param policy Variation policy to apply
+ * @param random Random number source in [0, 1)
+ * @returns The event with amount, baseAmount and message made consistent
+ */
+export function applyAmountVariation(
+    event: EventData,
+    policy: AmountVariationPolicy,
+    random: () => number = Math.random
+): EventData {
+    const hasPlaceholder = event.message.includes(AMOUNT_PLACEHOLDER);
+    // Older prompts and imported cards may still carry only an amount
+    const baseAmount = event.baseAmount ?? event.amount ?? (hasPlaceholder ? policy.defaultBaseAmount : undefined);
+
+    if (baseAmount === undefined) {
+        const { amount, ...rest } = event;
+        return rest;
+    }
+
+    const multiplier = pickMultiplier(policy, random);
+    const amount = clampAmount(
+        Math.round(baseAmount * multiplier / policy.roundTo) * policy.roundTo,
+        event.type,
+        policy
+    );
+
+    return {
+        ...event,
+        message: rewriteAmount(event.message, baseAmount, amount),
+        amount,
+        baseAmount
+    };
+}
+
+function pickMultiplier(policy: AmountVariationPolicy, random: () => number): number {
+    const weights = policy.weights ?? policy.multipliers.map(() => 1);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let target = random() * total;
+    for (let i = 0; i < policy.multipliers.length; i++) {
+        target -= weights[i];
+        if (target < 0) {
+            return policy.multipliers[i];
+        }
+    }
+    return policy.multipliers[policy.multipliers.length - 1];
+}
+
+function clampAmount(amount: number, type: EventData['type'], policy: AmountVariationPolicy): number {
+    const limits = type === 'system' ? undefined : policy.limits[type];
+    if (limits?.min !== undefined && amount < limits.min) {
+        return limits.min;
+    }
+    if (limits?.max !== undefined && amount > limits.max) {
+        return limits.max;
+    }
+    return amount;
+}
+
+/**
+ * Replace the amount placeholder, or the base amount as the model wrote it, with the final amount
+ */
+function rewriteAmount(message: string, baseAmount: number, amount: number): string {
+    if (message.includes(AMOUNT_PLACEHOLDER)) {
+        return message.split(AMOUNT_PLACEHOLDER).join(String(amount));
+    }
+
+    // Match the base amount with or without thousands separators, e.g. 2000 or 2,000
+    const grouped = baseAmount.toLocaleString('en-US');
+    const pattern = new RegExp(`(?<![\\d.,])(${escapeRegExp(grouped)}|${baseAmount})(?![\\d]|[.,]\\d)`, 'g');
+    return message.replace(pattern, match => match.includes(',') ? amount.toLocaleString('en-US') : String(amount));
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
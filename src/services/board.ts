@@ -0,0 +1,106 @@
+import { Board, BoardSpace, OWNABLE_SPACE_KINDS } from '../models/board';
+
+// Abbreviations that stand for a whole word in space names
+const ABBREVIATIONS: Record<string, string> = {
+    ave: 'avenue',
+    av: 'avenue',
+    pl: 'place',
+    rr: 'railroad',
+    co: 'company',
+    gdns: 'gardens'
+};
+
+export interface SpaceMatch {
+    space: BoardSpace;
+    exact: boolean;  // The name was spelled as on the board
+}
+
+/**
+ * Spaces that can be owned and that events may name as their property
+ */
+export function ownableSpaces(board: Board): BoardSpace[] {
+    return board.spaces.filter(space => OWNABLE_SPACE_KINDS.includes(space.kind));
+}
+
+/**
+ * Find the ownable space a name refers to, tolerating case, punctuation, abbreviations,
+ * left out words ("Reading" for Reading Railroad) and small typos
+ * @param anySpace Match every space of the board, e.g. GO or Jail, not only ownable ones
+ * @returns The space, or undefined when no space or more than one space fits the name equally well
+ */
+export function matchSpace(board: Board, name: string, anySpace: boolean = false): SpaceMatch | undefined {
+    // Spaces like Chance appear several times on a board but are one name to match
+    const spaces = anySpace
+        ? board.spaces.filter((space, index) => board.spaces.findIndex(other => other.name === space.name) === index)
+        : ownableSpaces(board);
+    const exact = spaces.find(space => space.name === name.trim());
+    if (exact) {
+        return { space: exact, exact: true };
+    }
+
+    const wanted = normalizeName(name);
+    if (!wanted) {
+        return undefined;
+    }
+    const normalized = spaces.map(space => ({ space, name: normalizeName(space.name) }));
+
+    const same = normalized.filter(candidate => candidate.name === wanted);
+    if (same.length > 0) {
+        return same.length === 1 ? { space: same[0].space, exact: false } : undefined;
+    }
+
+    // Whole-word containment either way, e.g. "Reading" or "the Reading Railroad station"
+    const containing = normalized.filter(candidate =>
+        ` ${candidate.name} `.includes(` ${wanted} `) || ` ${wanted} `.includes(` ${candidate.name} `)
+    );
+    if (containing.length > 0) {
+        return containing.length === 1 ? { space: containing[0].space, exact: false } : undefined;
+    }
+
+    // Typos: the closest name within roughly one edit per five letters
+    const maxDistance = Math.max(1, Math.floor(wanted.length / 5));
+    let best: BoardSpace | undefined;
+    let bestDistance = Infinity;
+    let tied = false;
+    for (const candidate of normalized) {
+        const distance = editDistance(wanted, candidate.name);
+        if (distance < bestDistance) {
+            best = candidate.space;
+            bestDistance = distance;
+            tied = false;
+        } else if (distance === bestDistance) {
+            tied = true;
+        }
+    }
+    return best && bestDistance <= maxDistance && !tied ? { space: best, exact: false } : undefined;
+}
+
+function normalizeName(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+        .split(/\s+/)
+        .filter(word => word && word !== 'the')
+        .map(word => ABBREVIATIONS[word] ?? word)
+        .join(' ');
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
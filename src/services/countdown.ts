@@ -0,0 +1,61 @@
+type DueCallback = () => Promise<void> | void;
+
+/**
+ * Runs a callback when a deadline passes, at most one pending deadline per key.
+ * Scheduling a key again replaces its deadline, e.g. when a late bid extends an auction.
+ */
+export class Countdown {
+    private static instance: Countdown | null = null;
+    private timers = new Map<string, NodeJS.Timeout>();
+
+    private constructor() {}
+
+    /**
+     * Get the singleton instance of Countdown
+     */
+    public static getInstance(): Countdown {
+        if (!Countdown.instance) {
+            Countdown.instance = new Countdown();
+        }
+        return Countdown.instance;
+    }
+
+    /**
+     * Run a callback once a deadline has passed; deadlines in the past run right away
+     * @param key What the deadline belongs to, e.g. an auction id
+     * @param at Deadline
+     * @param onDue Called when the deadline passes; errors are logged
+     */
+    public schedule(key: string, at: Date, onDue: DueCallback): void {
+        this.cancel(key);
+        const timer = setTimeout(async () => {
+            this.timers.delete(key);
+            try {
+                await onDue();
+            } catch (error) {
+                console.error(`Countdown ${key} failed:`, error);
+            }
+        }, Math.max(0, at.getTime() - Date.now()));
+        // Pending deadlines should not keep the process alive on shutdown
+        timer.unref();
+        this.timers.set(key, timer);
+    }
+
+    /**
+     * Drop the pending deadline of a key, if any
+     */
+    public cancel(key: string): void {
+        const timer = this.timers.get(key);
+        if (timer) {
+            clearTimeout(timer);
+            this.timers.delete(key);
+        }
+    }
+
+    /**
+     * Number of pending deadlines
+     */
+    public get pending(): number {
+        return this.timers.size;
+    }
+}
@@ -0,0 +1,102 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing: comma separated, fields with commas, quotes or
+ * line breaks are quoted and quotes inside them are doubled.
+ */
+
+export interface CSVRow {
+    line: number;  // 1-based line the row starts on
+    values: Record<string, string>;
+}
+
+/**
+ * Parse CSV text whose first line holds the column names
+ * @throws Error if a quoted field is not closed
+ */
+export function parseCSV(text: string): { columns: string[]; rows: CSVRow[] } {
+    const records = parseRecords(text.replace(/^\uFEFF/, ''));
+    if (records.length === 0) {
+        return { columns: [], rows: [] };
+    }
+
+    const columns = records[0].fields.map(column => column.trim());
+    const rows = records.slice(1)
+        // Spreadsheets often leave blank lines at the end
+        .filter(record => record.fields.some(field => field.trim() !== ''))
+        .map(record => ({
+            line: record.line,
+            values: Object.fromEntries(columns.map((column, index) => [column, record.fields[index] ?? '']))
+        }));
+    return { columns, rows };
+}
+
+/**
+ * Format rows as CSV text with a header line
+ */
+export function formatCSV(columns: ReadonlyArray<string>, rows: ReadonlyArray<Record<string, string>>): string {
+    const lines = [columns, ...rows.map(row => columns.map(column => row[column] ?? ''))]
+        .map(fields => fields.map(quoteField).join(','));
+    return lines.join('\r\n') + '\r\n';
+}
+
+function quoteField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function parseRecords(text: string): Array<{ line: number; fields: string[] }> {
+    const records: Array<{ line: number; fields: string[] }> = [];
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+    let index = 0;
+
+    const endRecord = () => {
+        fields.push(field);
+        records.push({ line: recordLine, fields });
+        fields = [];
+        field = '';
+    };
+
+    while (index < text.length) {
+        const char = text[index];
+        if (quoted) {
+            if (char === '"' && text[index + 1] === '"') {
+                field += '"';
+                index += 2;
+                continue;
+            }
+            if (char === '"') {
+                quoted = false;
+            } else {
+                if (char === '\n') line++;
+                field += char;
+            }
+            index++;
+            continue;
+        }
+
+        if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === ',') {
+            fields.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            endRecord();
+            if (char === '\r' && text[index + 1] === '\n') index++;
+            line++;
+            recordLine = line;
+        } else {
+            field += char;
+        }
+        index++;
+    }
+
+    if (quoted) {
+        throw new Error(`Unterminated quoted field starting on line ${recordLine}`);
+    }
+    if (field !== '' || fields.length > 0) {
+        endRecord();
+    }
+    return records;
+}
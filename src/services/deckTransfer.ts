@@ -0,0 +1,269 @@
+import { BaseItem } from '../models/base';
+import { COLLECTIONS } from '../config/collections';
+import { DatabaseClient } from '../db/database';
+import { createItems, replaceItemsByUser } from '../db/operations';
+import { MAX_PAGE_SIZE } from '../db/repositories/itemRepository';
+import { formatCSV, parseCSV } from './csv';
+import {
+    EventData,
+    QuestionData,
+    ValidationResult,
+    validateEvents,
+    validateQuestionsWithPayouts
+} from './itemValidator';
+
+export type DeckFormat = 'json' | 'csv';
+export const DECK_FORMATS: ReadonlyArray<DeckFormat> = ['json', 'csv'];
+
+/**
+ * append adds the imported items; replace swaps out the importing user's items, restorable like /updateEvents
+ */
+export type ImportMode = 'append' | 'replace';
+export const IMPORT_MODES: ReadonlyArray<ImportMode> = ['append', 'replace'];
+
+// Separates the entries of a list field, such as question choices, inside one CSV cell
+export const CSV_LIST_SEPARATOR = '|';
+
+interface DeckDefinition {
+    columns: ReadonlyArray<string>;
+    listColumns: ReadonlyArray<string>;
+    jsonColumns: ReadonlyArray<string>;  // Structured fields, written to one CSV cell as JSON
+    validate: (raw: unknown) => ValidationResult<BaseItem['data']>;
+}
+
+const EVENT_COLUMNS: ReadonlyArray<keyof EventData> = [
+    'message', 'type', 'amount', 'property', 'baseAmount', 'weight', 'direction', 'effects'
+];
+const QUESTION_COLUMNS: ReadonlyArray<keyof QuestionData> = [
+    'message', 'choices', 'answer', 'explanation', 'difficulty', 'reward', 'penalty'
+];
+
+const DECKS: Record<string, DeckDefinition> = {
+    [COLLECTIONS.events.name]: {
+        columns: EVENT_COLUMNS,
+        listColumns: [],
+        jsonColumns: ['effects'],
+        validate: validateEvents
+    },
+    [COLLECTIONS.questions.name]: {
+        columns: QUESTION_COLUMNS,
+        listColumns: ['choices'],
+        jsonColumns: [],
+        validate: validateQuestionsWithPayouts
+    }
+};
+
+export const DECK_COLLECTIONS = Object.keys(DECKS);
+
+/**
+ * Why one entry of an import was rejected.
+ * `row` is the CSV line number, or the 1-based position in a JSON array.
+ */
+export interface RowError {
+    row: number;
+    errors: string[];
+}
+
+export interface ImportOptions {
+    format: DeckFormat;
+    mode: ImportMode;
+    dryRun?: boolean;  // Validate and report without writing anything
+}
+
+export interface ExportOptions {
+    format: DeckFormat;
+    createdBy?: string;  // Only export the items created by this user
+}
+
+/**
+ * Parse and validate a deck file without storing it
+ * @param collectionName Collection the deck is for, events or questions
+ * @param format Format of content
+ * @param content CSV text, JSON text, or an already parsed JSON array
+ * @throws Error if the content cannot be parsed at all
+ */
+export function parseDeck(
+    collectionName: string,
+    format: DeckFormat,
+    content: unknown
+): { items: Array<BaseItem['data']>; rejected: RowError[]; total: number } {
+    const deck = getDeck(collectionName);
+    let entries: unknown;
+    let rowNumbers: number[];
+
+    if (format === 'csv') {
+        if (typeof content !== 'string') {
+            throw new Error('CSV content must be a string');
+        }
+        const { columns, rows } = parseCSV(content);
+        const unknownColumns = columns.filter(column => column && !deck.columns.includes(column));
+        if (unknownColumns.length > 0) {
+            throw new Error(`Unknown ${collectionName} columns: ${unknownColumns.join(', ')}. Expected: ${deck.columns.join(', ')}`);
+        }
+        entries = rows.map(({ values }) => Object.fromEntries(
+            Object.entries(values).map(([column, value]) => [column, parseCell(deck, column, value)])
+        ));
+        rowNumbers = rows.map(row => row.line);
+    } else {
+        entries = typeof content === 'string' ? JSON.parse(content) : content;
+        if (!Array.isArray(entries)) {
+            throw new Error(`JSON content must be an array of ${collectionName}`);
+        }
+        rowNumbers = entries.map((_, index) => index + 1);
+    }
+
+    const { valid, rejected } = deck.validate(entries);
+    return {
+        items: valid,
+        rejected: rejected.map(({ index, errors }) => ({ row: rowNumbers[index] ?? index + 1, errors })),
+        total: rowNumbers.length
+    };
+}
+
+/**
+ * Import a deck for a user. Nothing is stored unless every entry is valid.
+ * @param client Database client
+ * @param collectionName Collection to import into, events or questions
+ * @param userId User the imported items are created by
+ * @param content Deck file content, see parseDeck
+ * @param options Format, append or replace, and whether this is a dry run
+ * @returns Object containing success status and the import report, with row errors if any entry was invalid
+ */
+export async function importDeck(
+    client: DatabaseClient,
+    collectionName: string,
+    userId: string,
+    content: unknown,
+    options: ImportOptions
+): Promise<{ success: boolean; data: any }> {
+    let parsed: ReturnType<typeof parseDeck>;
+    try {
+        parsed = parseDeck(collectionName, options.format, content);
+    } catch (error) {
+        return {
+            success: false,
+            data: { error: `Could not read ${options.format} content: ${error instanceof Error ? error.message : error}` }
+        };
+    }
+
+    const report = {
+        collection: collectionName,
+        mode: options.mode,
+        dryRun: Boolean(options.dryRun),
+        total: parsed.total,
+        validCount: parsed.items.length,
+        rejected: parsed.rejected
+    };
+
+    if (parsed.rejected.length > 0) {
+        return {
+            success: false,
+            data: { error: `${parsed.rejected.length} of ${parsed.total} ${collectionName} are invalid, nothing was imported`, ...report }
+        };
+    }
+    if (parsed.items.length === 0) {
+        return {
+            success: false,
+            data: { error: `No ${collectionName} to import`, ...report }
+        };
+    }
+    if (options.dryRun) {
+        return { success: true, data: report };
+    }
+
+    const items = parsed.items.map(data => ({ data }));
+    const result = options.mode === 'replace'
+        ? await replaceItemsByUser(client, collectionName, userId, items)
+        : await createItems(client, collectionName, userId, items);
+
+    return {
+        success: result.success,
+        data: { ...report, ...result.data }
+    };
+}
+
+/**
+ * Export the items of a collection, in id order
+ * @param client Database client
+ * @param collectionName Collection to export, events or questions
+ * @param options Format and optional creator filter
+ * @returns The file content
+ */
+export async function exportDeck(
+    client: DatabaseClient,
+    collectionName: string,
+    options: ExportOptions
+): Promise<string> {
+    const deck = getDeck(collectionName);
+    const repository = client.getItemRepository(collectionName);
+    const items: Array<BaseItem['data']> = [];
+
+    for (let page = 1; ; page++) {
+        const result = await repository.list({
+            createdBy: options.createdBy,
+            sort: 'id',
+            order: 'asc',
+            page,
+            limit: MAX_PAGE_SIZE
+        });
+        items.push(...result.items.map(item => item.data));
+        if (result.items.length < result.limit || items.length >= result.total) {
+            break;
+        }
+    }
+
+    if (options.format === 'json') {
+        return JSON.stringify(items, null, 2) + '\n';
+    }
+
+    return formatCSV(deck.columns, items.map(data => Object.fromEntries(
+        deck.columns.map(column => [column, formatCell(deck, column, (data as Record<string, unknown>)[column])])
+    )));
+}
+
+/**
+ * File name extension and content type of a deck format
+ */
+export function deckFormatInfo(format: DeckFormat): { extension: string; contentType: string } {
+    return format === 'csv'
+        ? { extension: 'csv', contentType: 'text/csv; charset=utf-8' }
+        : { extension: 'json', contentType: 'application/json; charset=utf-8' };
+}
+
+function getDeck(collectionName: string): DeckDefinition {
+    const deck = DECKS[collectionName];
+    if (!deck) {
+        throw new Error(`Unknown collection ${collectionName}, expected one of ${DECK_COLLECTIONS.join(', ')}`);
+    }
+    return deck;
+}
+
+/**
+ * Read a CSV cell into the value of its field. JSON that does not parse is kept as text, for the validator to reject.
+ */
+function parseCell(deck: DeckDefinition, column: string, value: string): unknown {
+    if (!value.trim()) {
+        return value;
+    }
+    if (deck.listColumns.includes(column)) {
+        return value.split(CSV_LIST_SEPARATOR).map(entry => entry.trim());
+    }
+    if (deck.jsonColumns.includes(column)) {
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value;
+        }
+    }
+    return value;
+}
+
+function formatCell(deck: DeckDefinition, column: string, value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (deck.jsonColumns.includes(column)) {
+        return JSON.stringify(value);
+    }
+    return Array.isArray(value) ? value.join(CSV_LIST_SEPARATOR) : String(value);
+}
@@ -0,0 +1,228 @@
+import { BaseItem } from '../models/base';
+import { DrawCandidate, DrawScope, ItemPicker } from '../db/repositories/itemRepository';
+
+export const REPEAT_SCOPES = ['user', 'game'] as const;
+
+export type RepeatScope = typeof REPEAT_SCOPES[number];
+
+/**
+ * What a draw does when nothing is left to draw:
+ * reshuffle_own makes the cards drawn by the requesting user (or in the game) drawable again,
+ * reshuffle_discard does the same for every drawn card of the deck, and stop reports the deck as exhausted.
+ */
+export const EXHAUSTION_MODES = ['reshuffle_own', 'reshuffle_discard', 'stop'] as const;
+
+export type ExhaustionMode = typeof EXHAUSTION_MODES[number];
+
+export const DEFAULT_EXHAUSTION_MODE: ExhaustionMode = 'reshuffle_own';
+
+/**
+ * How a collection chooses among the items that are available to draw, and what happens when none are left
+ */
+export interface DrawPolicy {
+    /**
+     * Target share of draws per item type (data.type), relative to each other.
+     * Shares of types with nothing left are spread over the remaining ones; types left out are only
+     * drawn once none of the listed types are available.
+     */
+    typeRatios?: Record<string, number>;
+    /** Weigh items within their type by data.weight, 1 when not set */
+    cardWeights?: boolean;
+    /** Avoid drawing the type of the previous draw of the same user or game, while another type is left */
+    noRepeatType?: RepeatScope | false;
+    /** What to do when nothing is left to draw, DEFAULT_EXHAUSTION_MODE if not set */
+    onExhausted?: ExhaustionMode;
+    /** Number of most recently drawn cards a reshuffle leaves out, so they do not come straight back */
+    keepOut?: number;
+}
+
+/**
+ * Request parameters that override a collection's policy, as strings from the query
+ */
+export interface DrawPolicyQuery {
+    typeRatios?: string;  // e.g. "chance:2,trade:1"
+    cardWeights?: string;  // "true" or "false"
+    noRepeatType?: string;  // "user", "game" or "false"
+    onExhausted?: string;
+    keepOut?: string;
+}
+
+/**
+ * Read policy overrides from request parameters
+ * @returns The overrides, or an error message for the first invalid parameter
+ */
+export function parseDrawPolicyQuery(query: DrawPolicyQuery): { policy: DrawPolicy } | { error: string } {
+    const policy: DrawPolicy = {};
+
+    if (query.typeRatios !== undefined) {
+        const typeRatios: Record<string, number> = {};
+        for (const entry of query.typeRatios.split(',').filter(entry => entry.trim())) {
+            const [type, ratio] = entry.split(':').map(part => part.trim());
+            const value = Number(ratio);
+            if (!type || ratio === undefined || !Number.isFinite(value) || value < 0) {
+                return { error: `typeRatios must look like "chance:2,trade:1", got "${entry}"` };
+            }
+            typeRatios[type] = value;
+        }
+        policy.typeRatios = typeRatios;
+    }
+
+    if (query.cardWeights !== undefined) {
+        if (query.cardWeights !== 'true' && query.cardWeights !== 'false') {
+            return { error: 'cardWeights must be true or false' };
+        }
+        policy.cardWeights = query.cardWeights === 'true';
+    }
+
+    if (query.noRepeatType !== undefined) {
+        if (query.noRepeatType === 'false') {
+            policy.noRepeatType = false;
+        } else if ((REPEAT_SCOPES as ReadonlyArray<string>).includes(query.noRepeatType)) {
+            policy.noRepeatType = query.noRepeatType as RepeatScope;
+        } else {
+            return { error: `noRepeatType must be one of ${REPEAT_SCOPES.join(', ')} or false` };
+        }
+    }
+
+    if (query.onExhausted !== undefined) {
+        if (!(EXHAUSTION_MODES as ReadonlyArray<string>).includes(query.onExhausted)) {
+            return { error: `onExhausted must be one of ${EXHAUSTION_MODES.join(', ')}` };
+        }
+        policy.onExhausted = query.onExhausted as ExhaustionMode;
+    }
+
+    if (query.keepOut !== undefined) {
+        const keepOut = Number(query.keepOut);
+        if (!Number.isInteger(keepOut) || keepOut < 0) {
+            return { error: 'keepOut must be a non-negative integer' };
+        }
+        policy.keepOut = keepOut;
+    }
+
+    return { policy };
+}
+
+/**
+ * Whose previous draw the no-repeat rule looks at. Without a game, a game scope falls back to the user.
+ * @returns The scope, or undefined when the policy has no no-repeat rule
+ */
+export function repeatScope(policy: DrawPolicy, userId: string, gameId?: string): DrawScope | undefined {
+    if (!policy.noRepeatType) {
+        return undefined;
+    }
+    if (policy.noRepeatType === 'game' && gameId) {
+        return { gameId };
+    }
+    return { userId, ...(gameId && { gameId }) };
+}
+
+/**
+ * Create a picker that applies the policy: first choose a type by its ratio, then an item of that type by weight
+ * @param policy Policy to apply
+ * @param previousType Type of the previous draw in the no-repeat scope, if any
+ * @param random Random number source in [0, 1)
+ */
+export function createPolicyPicker<T extends BaseItem>(
+    policy: DrawPolicy,
+    previousType?: string,
+    random: () => number = Math.random
+): ItemPicker<T> {
+    return candidates => {
+        let indexes = candidates.map((_, index) => index);
+
+        if (policy.noRepeatType && previousType !== undefined) {
+            const otherTypes = indexes.filter(index => itemType(candidates[index].data) !== previousType);
+            if (otherTypes.length > 0) {
+                indexes = otherTypes;
+            }
+        }
+
+        const ratios = policy.typeRatios ?? {};
+        const listed = indexes.filter(index => (ratios[itemType(candidates[index].data) ?? ''] ?? 0) > 0);
+        if (listed.length > 0) {
+            // Available types in first-seen order, so the choice only depends on the candidates and random()
+            const types = [...new Set(listed.map(index => itemType(candidates[index].data)!))];
+            const type = types[weightedIndex(types.map(type => ratios[type]), random)];
+            indexes = listed.filter(index => itemType(candidates[index].data) === type);
+        }
+
+        const weights = indexes.map(index => policy.cardWeights ? cardWeight(candidates[index].data) : 1);
+        return indexes[weightedIndex(weights, random)];
+    };
+}
+
+/**
+ * Work out the order a whole deck is drawn in, by letting the policy pick the next item until none are left.
+ * The no-repeat rule compares each item with the one before it in the order.
+ * @param items Every item of the deck, in ascending id order
+ * @param policy Policy to apply
+ * @param random Random number source, seeded to make the order reproducible
+ */
+export function planDrawOrder<C extends DrawCandidate>(
+    items: ReadonlyArray<C>,
+    policy: DrawPolicy,
+    random: () => number
+): C[] {
+    const remaining = [...items];
+    const order: C[] = [];
+    while (remaining.length > 0) {
+        const previousType = order.length > 0 ? itemType(order[order.length - 1].data) : undefined;
+        const [next] = remaining.splice(createPolicyPicker(policy, previousType, random)(remaining), 1);
+        order.push(next);
+    }
+    return order;
+}
+
+/**
+ * Create a picker that follows a planned order: it always takes the available item that comes first in the order
+ */
+export function createOrderPicker<T extends BaseItem>(order: ReadonlyArray<DrawCandidate<T>>): ItemPicker<T> {
+    const positions = new Map(order.map((item, position) => [item.id, position]));
+    return candidates => {
+        let best = 0;
+        candidates.forEach((candidate, index) => {
+            // Items added after the order was planned go last
+            if ((positions.get(candidate.id) ?? Infinity) < (positions.get(candidates[best].id) ?? Infinity)) {
+                best = index;
+            }
+        });
+        return best;
+    };
+}
+
+/**
+ * Pick an index with probability proportional to its weight; uniformly if no weight is positive
+ */
+function weightedIndex(weights: number[], random: () => number): number {
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (!(total > 0)) {
+        return Math.floor(random() * weights.length);
+    }
+    let target = random() * total;
+    for (let i = 0; i < weights.length; i++) {
+        target -= weights[i];
+        if (target < 0) {
+            return i;
+        }
+    }
+    // Rounding can leave a sliver of the total; give it to the last positive weight
+    for (let i = weights.length - 1; i > 0; i--) {
+        if (weights[i] > 0) {
+            return i;
+        }
+    }
+    return 0;
+}
+
+/**
+ * The type of an item, e.g. an event's chance or auction, if it has one
+ */
+export function itemType(data: BaseItem['data']): string | undefined {
+    const type = (data as Record<string, unknown>).type;
+    return typeof type === 'string' ? type : undefined;
+}
+
+function cardWeight(data: BaseItem['data']): number {
+    const weight = (data as Record<string, unknown>).weight;
+    return typeof weight === 'number' && Number.isFinite(weight) && weight >= 0 ? weight : 1;
+}
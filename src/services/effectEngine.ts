@@ -0,0 +1,200 @@
+import { Event, EventEffect, PAYMENT_EVENT_TYPES } from '../models/event';
+import { Board } from '../models/board';
+import { Holding, PlayerPosition } from '../models/game';
+import { TransactionType } from '../models/ledger';
+import { inferEventDirection } from './itemValidator';
+
+/**
+ * The game an event's effects are resolved against
+ */
+export interface EffectContext {
+    userId: string;  // Player who drew the event
+    amount?: number;  // The event's amount, used by money effects without their own
+    board: Board;
+    players: ReadonlyArray<PlayerPosition>;  // Every player of the game, the drawing player included
+    holdings: ReadonlyArray<Pick<Holding, 'space' | 'ownerId' | 'houses'>>;
+    salary: number;  // Collected for passing GO
+}
+
+/**
+ * Money one player gains or loses
+ */
+export interface Transfer {
+    userId: string;
+    type: TransactionType;
+    amount: number;  // Negative when money leaves the player
+    description?: string;
+}
+
+export interface AppliedEffect {
+    effect: EventEffect;
+    outcome: string;  // What the effect did, e.g. "Moved to Boardwalk"
+}
+
+export interface EffectResolution {
+    applied: AppliedEffect[];
+    transfers: Transfer[];
+    players: PlayerPosition[];  // Players whose position or jail state changed
+}
+
+const HOTEL = 5;
+
+/**
+ * The effects of an event. Events without effects pay or collect their amount in the direction they state.
+ */
+export function eventEffects(data: Event['data']): EventEffect[] {
+    if (data.effects) {
+        return data.effects;
+    }
+    const amount = data.amount ?? data.baseAmount;
+    if (data.type === 'system' || !PAYMENT_EVENT_TYPES.includes(data.type) || !amount) {
+        return [];
+    }
+    // Events stored before direction was required fall back to their wording
+    const direction = data.direction ?? inferEventDirection(data.message);
+    return direction ? [{ kind: direction, amount: Math.abs(amount) }] : [];
+}
+
+/**
+ * Work out what effects do to a game, in order, for the player who drew them.
+ * Nothing is stored; the caller applies the transfers and player changes.
+ * @param effects Effects of the drawn event
+ * @param context Drawing player, players, holdings and board of the game
+ */
+export function resolveEffects(effects: ReadonlyArray<EventEffect>, context: EffectContext): EffectResolution {
+    const { board, userId } = context;
+    const players = new Map(context.players.map(player => [player.userId, { ...player }]));
+    const player = players.get(userId) ?? { userId, position: 0, inJail: false, jailCards: 0 };
+    players.set(userId, player);
+    const others = [...players.values()].filter(other => other.userId !== userId);
+
+    const applied: AppliedEffect[] = [];
+    const transfers: Transfer[] = [];
+    const changed = new Set<string>();
+
+    const moveTo = (target: number, forward: boolean): string => {
+        const passesGo = forward && target <= player.position;
+        player.position = target;
+        changed.add(userId);
+        if (passesGo && context.salary > 0) {
+            transfers.push({ userId, type: 'salary', amount: context.salary, description: `Passed ${board.spaces[0].name}` });
+            return `Moved to ${board.spaces[target].name} and collected ${context.salary} for passing ${board.spaces[0].name}`;
+        }
+        return `Moved to ${board.spaces[target].name}`;
+    };
+    // First space of the given kind or name after the player's position, going around the board
+    const nextSpace = (matches: (index: number) => boolean): number => {
+        for (let step = 1; step <= board.spaces.length; step++) {
+            const index = (player.position + step) % board.spaces.length;
+            if (matches(index)) {
+                return index;
+            }
+        }
+        return -1;
+    };
+
+    for (const effect of effects) {
+        let outcome: string;
+        switch (effect.kind) {
+            case 'pay':
+            case 'collect': {
+                const amount = effect.amount ?? context.amount ?? 0;
+                const sign = effect.kind === 'pay' ? -1 : 1;
+                transfers.push({ userId, type: effect.kind === 'pay' ? 'event_pay' : 'event_collect', amount: sign * amount });
+                outcome = effect.kind === 'pay' ? `Paid ${amount} to the bank` : `Collected ${amount} from the bank`;
+                break;
+            }
+            case 'pay_each_player':
+            case 'collect_from_each_player': {
+                const amount = effect.amount ?? context.amount ?? 0;
+                const sign = effect.kind === 'pay_each_player' ? -1 : 1;
+                transfers.push({
+                    userId,
+                    type: sign < 0 ? 'player_pay' : 'player_collect',
+                    amount: sign * amount * others.length
+                });
+                for (const other of others) {
+                    transfers.push({
+                        userId: other.userId,
+                        type: sign < 0 ? 'player_collect' : 'player_pay',
+                        amount: -sign * amount,
+                        description: sign < 0 ? `Paid by ${userId}` : `Paid to ${userId}`
+                    });
+                }
+                outcome = sign < 0
+                    ? `Paid ${amount} to each of ${others.length} players`
+                    : `Collected ${amount} from each of ${others.length} players`;
+                break;
+            }
+            case 'advance_to':
+            case 'advance_to_nearest': {
+                const target = effect.kind === 'advance_to'
+                    ? nextSpace(index => board.spaces[index].name === effect.space)
+                    : nextSpace(index => board.spaces[index].kind === effect.spaceKind);
+                if (player.inJail) {
+                    outcome = 'Stayed in jail';
+                } else if (target < 0) {
+                    outcome = 'No such space on the board';
+                } else {
+                    outcome = moveTo(target, true);
+                }
+                break;
+            }
+            case 'move': {
+                if (player.inJail) {
+                    outcome = 'Stayed in jail';
+                } else {
+                    const size = board.spaces.length;
+                    const forward = effect.steps > 0 && player.position + effect.steps >= size;
+                    outcome = moveTo(((player.position + effect.steps) % size + size) % size, forward);
+                }
+                break;
+            }
+            case 'go_to_jail': {
+                const jail = board.spaces.findIndex(space => space.kind === 'jail');
+                if (jail < 0) {
+                    outcome = 'The board has no jail';
+                } else if (player.jailCards > 0) {
+                    player.jailCards--;
+                    player.position = jail;
+                    outcome = 'Used a get out of jail card, just visiting';
+                } else {
+                    player.position = jail;
+                    player.inJail = true;
+                    outcome = 'Went to jail';
+                }
+                changed.add(userId);
+                break;
+            }
+            case 'get_out_of_jail': {
+                if (player.inJail) {
+                    player.inJail = false;
+                    outcome = 'Left jail';
+                } else {
+                    player.jailCards++;
+                    outcome = 'Kept a get out of jail card';
+                }
+                changed.add(userId);
+                break;
+            }
+            case 'pay_per_building': {
+                const owned = context.holdings.filter(holding => holding.ownerId === userId);
+                const hotels = owned.filter(holding => holding.houses >= HOTEL).length;
+                const houses = owned.reduce((sum, holding) => sum + (holding.houses < HOTEL ? holding.houses : 0), 0);
+                const amount = houses * effect.perHouse + hotels * effect.perHotel;
+                if (amount > 0) {
+                    transfers.push({ userId, type: 'event_pay', amount: -amount });
+                }
+                outcome = `Paid ${amount} for ${houses} houses and ${hotels} hotels`;
+                break;
+            }
+        }
+        applied.push({ effect, outcome });
+    }
+
+    return {
+        applied,
+        transfers: transfers.filter(transfer => transfer.amount !== 0),
+        players: [...changed].map(id => players.get(id)!)
+    };
+}
@@ -0,0 +1,132 @@
+export type HubMessageType = 'draw' | 'answer' | 'deck-updated' | 'balance' | 'bankrupt' | 'effects' | 'auction' | 'trade';
+
+export interface HubMessage {
+    id: number;
+    type: HubMessageType;
+    userId?: string;
+    gameId?: string;
+    recipients?: string[];  // Other users the message is for, e.g. every participant of an auction
+    data: any;
+    createdAt: Date;
+}
+
+export interface HubFilter {
+    userId?: string;
+    gameId?: string;
+}
+
+export interface HubScope extends HubFilter {
+    recipients?: string[];
+}
+
+type HubListener = (message: HubMessage) => void;
+
+interface Subscription {
+    filter: HubFilter;
+    listener: HubListener;
+}
+
+const DEFAULT_REPLAY_SIZE = 1000;
+
+export class GameEventHub {
+    private static instance: GameEventHub | null = null;
+    private subscriptions = new Set<Subscription>();
+    private history: HubMessage[] = [];
+    private lastId: number = 0;
+
+    private constructor(private readonly replaySize: number) {}
+
+    /**
+     * Get the singleton instance of GameEventHub
+     */
+    public static getInstance(): GameEventHub {
+        if (!GameEventHub.instance) {
+            const replaySize = parseInt(process.env.SSE_REPLAY_SIZE || '', 10);
+            GameEventHub.instance = new GameEventHub(replaySize > 0 ? replaySize : DEFAULT_REPLAY_SIZE);
+        }
+        return GameEventHub.instance;
+    }
+
+    /**
+     * Publish a message to every matching subscriber and keep it for replay
+     * @param type Message type, sent as the SSE `event` field
+     * @param data Message payload
+     * @param scope User and game the message belongs to, and other users it is for, used for filtering
+     * @returns The published message
+     */
+    public publish(type: HubMessageType, data: any, scope: HubScope = {}): HubMessage {
+        const message: HubMessage = {
+            id: ++this.lastId,
+            type,
+            ...(scope.userId !== undefined && { userId: scope.userId }),
+            ...(scope.gameId !== undefined && { gameId: scope.gameId }),
+            ...(scope.recipients !== undefined && { recipients: scope.recipients }),
+            data,
+            createdAt: new Date()
+        };
+
+        this.history.push(message);
+        if (this.history.length > this.replaySize) {
+            this.history.shift();
+        }
+
+        for (const { filter, listener } of this.subscriptions) {
+            if (matches(message, filter)) {
+                try {
+                    listener(message);
+                } catch (error) {
+                    console.error('Event hub listener failed:', error);
+                }
+            }
+        }
+
+        return message;
+    }
+
+    /**
+     * Subscribe to published messages
+     * @param filter Only messages for this user and/or game are delivered
+     * @param listener Called for each matching message
+     * @returns Function that removes the subscription
+     */
+    public subscribe(filter: HubFilter, listener: HubListener): () => void {
+        const subscription: Subscription = { filter, listener };
+        this.subscriptions.add(subscription);
+        return () => {
+            this.subscriptions.delete(subscription);
+        };
+    }
+
+    /**
+     * Get the retained messages published after the given id
+     * @param lastEventId Id of the last message the client received
+     * @param filter Only messages for this user and/or game are returned
+     */
+    public replay(lastEventId: number, filter: HubFilter): HubMessage[] {
+        return this.history.filter(message => message.id > lastEventId && matches(message, filter));
+    }
+
+    /**
+     * Number of currently connected subscribers
+     */
+    public subscriberCount(): number {
+        return this.subscriptions.size;
+    }
+}
+
+function matches(message: HubMessage, filter: HubFilter): boolean {
+    if (filter.userId !== undefined && message.userId !== filter.userId && !message.recipients?.includes(filter.userId)) {
+        return false;
+    }
+    if (filter.gameId !== undefined && message.gameId !== filter.gameId) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Format a message as a Server-Sent Events frame
+ */
+export function formatSSE(message: HubMessage): string {
+    return `id: ${message.id}\nevent: ${message.type}\ndata: ${JSON.stringify(message.data)}\n\n`;
+}
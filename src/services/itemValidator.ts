@@ -0,0 +1,423 @@
+import {
+    EFFECT_KINDS,
+    EffectKind,
+    Event,
+    EVENT_DIRECTIONS,
+    EventDirection,
+    GAME_EVENT_TYPES,
+    GameEventType,
+    MONEY_EFFECT_KINDS,
+    PAYMENT_EVENT_TYPES
+} from '../models/event';
+import { Question, QUESTION_DIFFICULTIES } from '../models/question';
+import { QUESTION_PAYOUTS } from '../config/economy';
+import { Board, SPACE_KINDS, SpaceKind } from '../models/board';
+import { getBoard } from '../config/board';
+import { matchSpace } from './board';
+
+export type EventData = Event['data'];
+export type QuestionData = Question['data'];
+
+export interface ItemRejection {
+    index: number;
+    entry: unknown;
+    errors: string[];
+}
+
+export interface ValidationResult<D> {
+    valid: D[];
+    rejected: ItemRejection[];
+}
+
+type FieldRule =
+    | { kind: 'string'; required: boolean }
+    | { kind: 'number'; required: boolean }
+    | { kind: 'integer'; required: boolean }
+    | { kind: 'stringArray'; required: boolean; minLength: number }
+    | { kind: 'enum'; required: boolean; values: ReadonlyArray<string> }
+    | { kind: 'effects'; required: boolean };
+
+// Fields each effect kind takes besides its kind; other fields are dropped
+const EFFECT_FIELDS: Record<EffectKind, ReadonlyArray<string>> = {
+    pay: ['amount'],
+    collect: ['amount'],
+    pay_each_player: ['amount'],
+    collect_from_each_player: ['amount'],
+    advance_to: ['space'],
+    advance_to_nearest: ['spaceKind'],
+    move: ['steps'],
+    go_to_jail: [],
+    get_out_of_jail: [],
+    pay_per_building: ['perHouse', 'perHotel']
+};
+
+const NUMERIC_EFFECT_FIELDS = ['amount', 'steps', 'perHouse', 'perHotel'];
+
+/**
+ * Validation rules for one item model.
+ * `fields` has one rule per field of the model data, so adding a field to the model fails to compile
+ * until it is covered here.
+ */
+interface ItemSchema<D> {
+    name: string;
+    fields: { [K in keyof D]-?: FieldRule };
+    prepare?: (entry: Record<string, unknown>) => Record<string, unknown>;  // Normalize an entry before field checks
+    check?: (item: D) => string[];  // Rules spanning several fields
+}
+
+/**
+ * Event rules; property and effect space names are matched to the spaces of the board
+ */
+const eventSchema = (board: Board): ItemSchema<EventData> => ({
+    name: 'Event',
+    fields: {
+        message: { kind: 'string', required: true },
+        type: { kind: 'enum', required: true, values: GAME_EVENT_TYPES },
+        amount: { kind: 'number', required: false },
+        property: { kind: 'string', required: false },
+        baseAmount: { kind: 'number', required: false },
+        weight: { kind: 'number', required: false },
+        direction: { kind: 'enum', required: false, values: EVENT_DIRECTIONS },
+        effects: { kind: 'effects', required: false }
+    },
+    prepare: entry => {
+        const prepared = { ...entry };
+        // Messages like "Pay a fine of $100" say which way the money goes
+        const { direction, message, property, effects } = entry;
+        const noDirection = direction === undefined || direction === null || direction === '';
+        if (noDirection && !Array.isArray(effects) && typeof message === 'string') {
+            const inferred = inferEventDirection(message);
+            if (inferred) {
+                prepared.direction = inferred;
+            }
+        }
+        // Spell the property as on the board, e.g. "boardwalk" or "Illinois Ave" to "Illinois Avenue"
+        if (typeof property === 'string') {
+            const match = matchSpace(board, property);
+            if (match && !match.exact) {
+                prepared.property = match.space.name;
+                if (typeof message === 'string') {
+                    prepared.message = message.split(property).join(match.space.name);
+                }
+            }
+        }
+        if (Array.isArray(effects)) {
+            prepared.effects = effects.map(effect => {
+                const match = isObject(effect) && typeof effect.space === 'string'
+                    ? matchSpace(board, effect.space, true)
+                    : undefined;
+                return match ? { ...effect as Record<string, unknown>, space: match.space.name } : effect;
+            });
+        }
+        return prepared;
+    },
+    check: event => {
+        const errors: string[] = [];
+        if (event.property !== undefined && !matchSpace(board, event.property)?.exact) {
+            errors.push(`"property" must be a property on the ${board.name} board, got "${event.property}"`);
+        }
+        if (event.weight !== undefined && event.weight < 0) {
+            errors.push(`"weight" must not be negative, got ${event.weight}`);
+        }
+        const hasAmount = event.amount !== undefined || event.baseAmount !== undefined;
+        if (hasAmount && !event.direction && !event.effects && PAYMENT_EVENT_TYPES.includes(event.type as GameEventType)) {
+            errors.push(
+                `"direction" is required for ${event.type} events with an amount and no effects, one of ${EVENT_DIRECTIONS.join(', ')}`
+            );
+        }
+        (event.effects as unknown as Array<Record<string, unknown>> | undefined)?.forEach((effect, index) => {
+            errors.push(...effectErrors(effect, `effects[${index}]`, board, hasAmount));
+        });
+        return errors;
+    }
+});
+
+const QUESTION_SCHEMA: ItemSchema<QuestionData> = {
+    name: 'Question',
+    fields: {
+        message: { kind: 'string', required: true },
+        choices: { kind: 'stringArray', required: true, minLength: 2 },
+        answer: { kind: 'integer', required: true },
+        explanation: { kind: 'string', required: false },
+        difficulty: { kind: 'enum', required: true, values: QUESTION_DIFFICULTIES },
+        reward: { kind: 'number', required: false },
+        penalty: { kind: 'number', required: false }
+    },
+    prepare: entry => {
+        // Models sometimes give the answer as the text of the correct choice
+        const { answer, choices } = entry;
+        if (typeof answer === 'string' && !/^\d+$/.test(answer.trim()) && Array.isArray(choices)) {
+            const index = choices.findIndex(choice =>
+                typeof choice === 'string' && choice.trim().toLowerCase() === answer.trim().toLowerCase()
+            );
+            return index >= 0 ? { ...entry, answer: index } : entry;
+        }
+        return entry;
+    },
+    check: question => question.answer < 0 || question.answer >= question.choices.length
+        ? [`"answer" must be the index of one of the ${question.choices.length} choices, got ${question.answer}`]
+        : []
+};
+
+/**
+ * Remove a surrounding markdown code fence (```json ... ```) from model output
+ */
+export function stripCodeFences(content: string): string {
+    const trimmed = content.trim();
+    const fenced = trimmed.match(/^```[\w-]*\s*\n?([\s\S]*?)\n?```$/);
+    return fenced ? fenced[1].trim() : trimmed;
+}
+
+/**
+ * Parse model output into a JSON value, tolerating code fences
+ * @throws SyntaxError if the content is not valid JSON
+ */
+export function parseModelJSON(content: string): unknown {
+    return JSON.parse(stripCodeFences(content));
+}
+
+/**
+ * Validate generated events against the Event['data'] shape.
+ * Values that are unambiguous are coerced (e.g. "$2,400" to 2400, "Community Chest" to "community_chest",
+ * "Illinois Ave" to "Illinois Avenue"), everything else is rejected with the reasons why.
+ * @param raw Parsed model output, expected to be an array of events
+ * @param board Board the events' properties must be on
+ */
+export function validateEvents(raw: unknown, board: Board = getBoard()): ValidationResult<EventData> {
+    return validateItems(raw, eventSchema(board));
+}
+
+/**
+ * Validate generated questions against the Question['data'] shape
+ * @param raw Parsed model output, expected to be an array of questions
+ * @param defaults Values used for fields the model left out, e.g. the requested difficulty
+ */
+export function validateQuestions(raw: unknown, defaults: Partial<QuestionData> = {}): ValidationResult<QuestionData> {
+    const withDefaults = Array.isArray(raw)
+        ? raw.map(entry => isObject(entry) ? { ...defaults, ...stripEmpty(entry) } : entry)
+        : raw;
+    return validateItems(withDefaults, QUESTION_SCHEMA);
+}
+
+/**
+ * Validate questions written by people (admin edits, imports).
+ * Questions without payouts get the defaults for their difficulty.
+ */
+export function validateQuestionsWithPayouts(raw: unknown): ValidationResult<QuestionData> {
+    const result = validateQuestions(raw);
+    return {
+        ...result,
+        valid: result.valid.map(question => ({ ...QUESTION_PAYOUTS[question.difficulty], ...question }))
+    };
+}
+
+/**
+ * Tell from an English event message whether the player pays or collects its amount
+ * @returns The direction, or undefined when the message has no or conflicting money words
+ */
+export function inferEventDirection(message: string): EventDirection | undefined {
+    const pays = /\b(pay|pays|paid|fine|fined|tax|donate|lose|loses)\b/i.test(message);
+    const collects = /\b(collect|collects|receive|receives|win|wins|earn|earns|dividend)\b/i.test(message);
+    if (pays === collects) {
+        return undefined;
+    }
+    return pays ? 'pay' : 'collect';
+}
+
+/**
+ * Format rejections as a list the model can act on when asked to correct its output
+ */
+export function formatRejections(rejected: ItemRejection[]): string {
+    return rejected
+        .map(({ index, errors }) => `${index < 0 ? 'Response' : `Item ${index}`}: ${errors.join('; ')}`)
+        .join('\n');
+}
+
+function validateItems<D>(raw: unknown, schema: ItemSchema<D>): ValidationResult<D> {
+    if (!Array.isArray(raw)) {
+        return {
+            valid: [],
+            rejected: [{ index: -1, entry: raw, errors: [`Response must be a JSON array of ${schema.name} objects`] }]
+        };
+    }
+
+    const result: ValidationResult<D> = { valid: [], rejected: [] };
+
+    raw.forEach((entry, index) => {
+        if (!isObject(entry)) {
+            result.rejected.push({ index, entry, errors: [`${schema.name} must be a JSON object`] });
+            return;
+        }
+
+        const prepared = schema.prepare ? schema.prepare(entry) : entry;
+        const errors: string[] = [];
+        const item: Record<string, unknown> = {};
+
+        for (const [field, rule] of Object.entries(schema.fields) as Array<[string, FieldRule]>) {
+            const value = prepared[field];
+            if (value === undefined || value === null || value === '') {
+                if (rule.required) {
+                    errors.push(`"${field}" is required`);
+                }
+                continue;
+            }
+
+            const coerced = coerceField(value, rule);
+            if (coerced === undefined) {
+                errors.push(describeRule(field, rule, value));
+            } else {
+                item[field] = coerced;
+            }
+        }
+
+        if (errors.length === 0 && schema.check) {
+            errors.push(...schema.check(item as D));
+        }
+
+        if (errors.length > 0) {
+            result.rejected.push({ index, entry, errors });
+        } else {
+            result.valid.push(item as D);
+        }
+    });
+
+    return result;
+}
+
+function coerceField(value: unknown, rule: FieldRule): unknown {
+    switch (rule.kind) {
+        case 'string':
+            return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+        case 'number':
+        case 'integer': {
+            let parsed: number | undefined;
+            if (typeof value === 'number') {
+                parsed = value;
+            } else if (typeof value === 'string') {
+                const cleaned = value.replace(/[$,\s]/g, '');
+                parsed = cleaned ? Number(cleaned) : undefined;
+            }
+            if (parsed === undefined || !Number.isFinite(parsed)) {
+                return undefined;
+            }
+            return rule.kind === 'integer' && !Number.isInteger(parsed) ? undefined : parsed;
+        }
+
+        case 'stringArray': {
+            if (!Array.isArray(value) || value.length < rule.minLength) {
+                return undefined;
+            }
+            const strings = value.map(element =>
+                typeof element === 'number' ? String(element) : typeof element === 'string' ? element.trim() : ''
+            );
+            return strings.every(Boolean) ? strings : undefined;
+        }
+
+        case 'enum': {
+            if (typeof value !== 'string') {
+                return undefined;
+            }
+            const normalized = normalizeName(value);
+            return rule.values.includes(normalized) ? normalized : undefined;
+        }
+
+        case 'effects':
+            return Array.isArray(value) && value.every(isObject) ? value.map(normalizeEffect) : undefined;
+    }
+}
+
+/**
+ * Normalize the kind and numbers of an effect and drop the fields its kind does not take
+ */
+function normalizeEffect(effect: Record<string, unknown>): Record<string, unknown> {
+    const kind = typeof effect.kind === 'string' ? normalizeName(effect.kind) : effect.kind;
+    const fields = EFFECT_FIELDS[kind as EffectKind];
+    const normalized: Record<string, unknown> = { kind };
+    for (const [field, value] of Object.entries(effect)) {
+        if (field === 'kind' || (fields && !fields.includes(field)) || value === undefined || value === null || value === '') {
+            continue;
+        }
+        if (NUMERIC_EFFECT_FIELDS.includes(field)) {
+            normalized[field] = coerceField(value, { kind: 'number', required: false }) ?? value;
+        } else if (field === 'spaceKind' && typeof value === 'string') {
+            normalized[field] = normalizeName(value);
+        } else {
+            normalized[field] = typeof value === 'string' ? value.trim() : value;
+        }
+    }
+    return normalized;
+}
+
+/**
+ * Check one effect against the effect vocabulary and the board
+ * @param at Where the effect is, for error messages
+ * @param eventHasAmount Whether money effects without an amount can use the event's amount
+ */
+function effectErrors(effect: Record<string, unknown>, at: string, board: Board, eventHasAmount: boolean): string[] {
+    const kind = effect.kind as EffectKind;
+    if (!EFFECT_KINDS.includes(kind)) {
+        return [`"${at}.kind" must be one of ${EFFECT_KINDS.join(', ')}, got ${JSON.stringify(effect.kind)}`];
+    }
+    const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+    if (MONEY_EFFECT_KINDS.includes(kind)) {
+        if (effect.amount === undefined) {
+            return eventHasAmount ? [] : [`"${at}" needs an "amount", since the event has none`];
+        }
+        return isAmount(effect.amount) ? [] : [`"${at}.amount" must be a non-negative number, got ${JSON.stringify(effect.amount)}`];
+    }
+    switch (kind) {
+        case 'advance_to':
+            return typeof effect.space === 'string' && matchSpace(board, effect.space, true)?.exact
+                ? []
+                : [`"${at}.space" must be a space on the ${board.name} board, got ${JSON.stringify(effect.space)}`];
+        case 'advance_to_nearest':
+            return SPACE_KINDS.includes(effect.spaceKind as SpaceKind) && board.spaces.some(space => space.kind === effect.spaceKind)
+                ? []
+                : [`"${at}.spaceKind" must be a kind of space on the ${board.name} board, got ${JSON.stringify(effect.spaceKind)}`];
+        case 'move':
+            return Number.isInteger(effect.steps) && effect.steps !== 0
+                ? []
+                : [`"${at}.steps" must be a non-zero integer, got ${JSON.stringify(effect.steps)}`];
+        case 'pay_per_building':
+            return isAmount(effect.perHouse) && isAmount(effect.perHotel)
+                ? []
+                : [`"${at}" needs non-negative "perHouse" and "perHotel" amounts`];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Lower case with underscores, e.g. "Community Chest" to "community_chest"
+ */
+function normalizeName(value: string): string {
+    return value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function describeRule(field: string, rule: FieldRule, value: unknown): string {
+    const received = JSON.stringify(value);
+    switch (rule.kind) {
+        case 'string':
+            return `"${field}" must be a non-empty string, got ${received}`;
+        case 'number':
+            return `"${field}" must be a number, got ${received}`;
+        case 'integer':
+            return `"${field}" must be an integer, got ${received}`;
+        case 'stringArray':
+            return `"${field}" must be an array of at least ${rule.minLength} non-empty strings, got ${received}`;
+        case 'enum':
+            return `"${field}" must be one of ${rule.values.join(', ')}, got ${received}`;
+        case 'effects':
+            return `"${field}" must be an array of effect objects, each with a "kind" of ${EFFECT_KINDS.join(', ')}, got ${received}`;
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stripEmpty(entry: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined && value !== null && value !== ''));
+}
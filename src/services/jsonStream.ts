@@ -0,0 +1,87 @@
+/**
+ * Splits a JSON array that arrives in pieces, e.g. a streamed model answer, into the source text of its elements.
+ * Each element is returned as soon as it is complete. Text before the array, such as a markdown code fence, is skipped.
+ */
+export class JsonArraySplitter {
+    private depth = 0;  // 1 inside the top-level array, more inside its elements
+    private inString = false;
+    private escaped = false;
+    private element = '';
+    private ended = false;
+
+    /**
+     * Add the next piece of text
+     * @returns The elements completed by this piece, in order
+     */
+    public push(chunk: string): string[] {
+        const elements: string[] = [];
+        const finish = () => {
+            const text = this.element.trim();
+            if (text) {
+                elements.push(text);
+            }
+            this.element = '';
+        };
+
+        for (const char of chunk) {
+            if (this.ended) {
+                break;
+            }
+            if (this.depth === 0) {
+                if (char === '[') {
+                    this.depth = 1;
+                }
+                continue;
+            }
+
+            if (this.inString) {
+                this.element += char;
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (char === '\\') {
+                    this.escaped = true;
+                } else if (char === '"') {
+                    this.inString = false;
+                }
+                continue;
+            }
+
+            // Separators and the end of the array finish numbers, strings and literals
+            if (this.depth === 1 && (char === ',' || char === ']')) {
+                finish();
+                if (char === ']') {
+                    this.ended = true;
+                }
+                continue;
+            }
+
+            this.element += char;
+            if (char === '"') {
+                this.inString = true;
+            } else if (char === '{' || char === '[') {
+                this.depth++;
+            } else if (char === '}' || char === ']') {
+                this.depth--;
+                // Objects and arrays are complete as soon as they close
+                if (this.depth === 1) {
+                    finish();
+                }
+            }
+        }
+        return elements;
+    }
+
+    /**
+     * Text of the element that was still incomplete when the pieces stopped, e.g. an answer cut off at the token limit
+     */
+    public get pending(): string | undefined {
+        return this.element.trim() || undefined;
+    }
+
+    /**
+     * Whether the top-level array has started
+     */
+    public get started(): boolean {
+        return this.depth > 0 || this.ended;
+    }
+}
@@ -1,50 +1,111 @@
-import { OpenAI } from 'openai';
+import {
+    EventData,
+    formatRejections,
+    ItemRejection,
+    parseModelJSON,
+    QuestionData,
+    validateEvents,
+    validateQuestions,
+    ValidationResult
+} from './itemValidator';
+import { AMOUNT_PLACEHOLDER, applyAmountVariation } from './amountVariation';
+import { AmountVariationPolicy, DEFAULT_AMOUNT_VARIATION, QUESTION_PAYOUTS } from '../config/economy';
+import { QuestionDifficulty } from '../models/question';
+import { Board } from '../models/board';
+import { GameMemory } from '../models/chatMemory';
+import { getBoard } from '../config/board';
+import { ownableSpaces } from './board';
+import { ChatMessage, GenerationTask, LLMProvider } from './providers/types';
+import { JsonArraySplitter } from './jsonStream';
 
-interface OpenAIConfig {
-    apiKey: string;
-    baseURL: string;
-    model: string;
+interface ChatBotConfig {
+    provider: LLMProvider;  // Where generated content comes from
+    maxAttempts?: number;  // How many times to ask the model before giving up on invalid output
+    amountVariation?: AmountVariationPolicy;  // How final amounts are derived from baseAmount
+    board?: Board;  // Board whose properties events may name, the configured board if not set
 }
 
+export interface GenerationResult<D> {
+    success: boolean;
+    data: D[];
+    rejected: ItemRejection[];
+}
+
+export type GameEventResult = GenerationResult<EventData>;
+export type QuestionResult = GenerationResult<QuestionData>;
+
+/**
+ * Deck and game the generated events are for
+ */
+export interface EventContext {
+    theme?: string;
+    language?: string;
+    memory?: GameMemory;  // What earlier generations in the game asked for and produced
+}
+
+export interface QuestionRequest {
+    topic: string;
+    difficulty: QuestionDifficulty;
+    language: string;
+    count: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
 export class MonopolyChatBot {
     private static instance: MonopolyChatBot | null = null;
-    private openaiClient: OpenAI | null = null;
-    private model: string = '';
+    private provider: LLMProvider | null = null;
+    private maxAttempts: number = DEFAULT_MAX_ATTEMPTS;
+    private amountVariation: AmountVariationPolicy = DEFAULT_AMOUNT_VARIATION;
+    private board: Board | null = null;
 
     private readonly SYSTEM_PROMPT = `You are a Monopoly game master assistant. Your task is to help create engaging and fun Monopoly game events and scenarios.
 Your response must be a valid JSON array containing multiple event messages. Each event should follow this TypeScript interface:
 
 interface Event {
-    message: string;  // The event message
+    message: string;  // The event message, with ${AMOUNT_PLACEHOLDER} where the monetary amount appears
     type: 'chance' | 'community_chest' | 'trade' | 'auction' | 'property';  // Type of Monopoly event
-    amount?: number;  // Monetary amount with random variation
-    property?: string;  // Optional property name involved
-    baseAmount?: number;  // Original amount before variation
+    property?: string;  // Optional property involved, named exactly as in the board properties list
+    baseAmount?: number;  // Monetary amount of the event
+    direction?: 'pay' | 'collect';  // Whether the player who draws the event pays the amount or collects it
+    effects?: Effect[];  // What the event does to the player who draws it, when it is more than paying or collecting
 };
 
-Amount Calculation Rules:
+type Effect =
+    | { kind: 'pay' | 'collect' | 'pay_each_player' | 'collect_from_each_player'; amount?: number }  // amount defaults to baseAmount
+    | { kind: 'advance_to'; space: string }  // A space named exactly as on the board, e.g. "GO" or a board property
+    | { kind: 'advance_to_nearest'; spaceKind: 'railroad' | 'utility' }
+    | { kind: 'move'; steps: number }  // Negative steps move back
+    | { kind: 'go_to_jail' }
+    | { kind: 'get_out_of_jail' }
+    | { kind: 'pay_per_building'; perHouse: number; perHotel: number };
+
+Amount Rules:
 1. If a specific amount is mentioned in the user's message, use that as the baseAmount
 2. If no amount is mentioned, use 2000 as the baseAmount
-3. For the final amount:
-   - Generate a random multiplier from these options: 0.6, 0.8, 1.0, 1.2, 1.4
-   - Multiply the baseAmount by this multiplier
-   - Round to the nearest whole number
-4. Include both the final amount and baseAmount in the response
+3. Do not vary or calculate amounts yourself; the game server derives the final amount from baseAmount
+4. Write ${AMOUNT_PLACEHOLDER} in the message wherever the amount is shown, never the number itself
+5. Omit baseAmount for events that involve no money
+6. Give a direction for every chance, community_chest and property event with a baseAmount and no effects
 
 Example response format:
 [
     {
-        "message": "Advance to Boardwalk! Pay a luxury tax of $2400",
+        "message": "Advance to Boardwalk! Pay a luxury tax of $${AMOUNT_PLACEHOLDER}",
         "type": "chance",
         "property": "Boardwalk",
-        "amount": 2400,
-        "baseAmount": 2000
+        "baseAmount": 2000,
+        "direction": "pay"
     },
     {
-        "message": "Property auction on Park Place starting at $1200",
+        "message": "Go directly to jail. Do not pass GO",
+        "type": "chance",
+        "effects": [{ "kind": "go_to_jail" }]
+    },
+    {
+        "message": "Property auction on Park Place starting at $${AMOUNT_PLACEHOLDER}",
         "type": "auction",
         "property": "Park Place",
-        "amount": 1200,
         "baseAmount": 2000
     }
 ]
@@ -53,11 +114,42 @@ Guidelines:
 1. Always return 2-4 events in the array
 2. Each message should be clear, concise, and actionable
 3. Include a mix of different event types
-4. Events should be thematically related to the user's input
+4. Events should be thematically related to the user's input and to the deck theme, if one is given
 5. Do not include any metadata or formatting outside the JSON structure
-6. Respond in the same language as the user's input
-7. Always apply the amount calculation rules to monetary values
-8. Include the amount variation in the message naturally`;
+6. Respond in the deck language if one is given, otherwise in the same language as the user's input
+7. Always follow the amount rules for monetary values
+8. Only mention properties from the board properties list, spelled exactly as listed
+9. Add effects when the event moves the player, sends them to jail, involves the other players or depends on buildings
+10. When game memory is given, continue its storyline, fit the game state and never repeat an earlier event`;
+
+    private readonly QUESTION_PROMPT = `You are a quiz master for a Monopoly party game. Your task is to write multiple choice quiz questions.
+Your response must be a valid JSON array of questions. Each question should follow this TypeScript interface:
+
+interface Question {
+    message: string;  // The question text
+    choices: string[];  // 3-4 possible answers
+    answer: number;  // Zero-based index of the correct choice
+    explanation: string;  // One sentence explaining the correct answer
+    difficulty: 'easy' | 'medium' | 'hard';
+};
+
+Example response format:
+[
+    {
+        "message": "Which property is the most expensive on the classic board?",
+        "choices": ["Park Place", "Boardwalk", "Marvin Gardens", "Illinois Avenue"],
+        "answer": 1,
+        "explanation": "Boardwalk costs $400, more than any other property.",
+        "difficulty": "easy"
+    }
+]
+
+Guidelines:
+1. Return exactly the requested number of questions about the requested topic
+2. Match the requested difficulty
+3. Exactly one choice must be correct, and the choices must not repeat
+4. Write the questions, choices and explanations in the requested language
+5. Do not include any metadata or formatting outside the JSON structure`;
 
     private constructor() {}
 
@@ -72,78 +164,240 @@ Guidelines:
     }
 
     /**
-     * Initialize the OpenAI client with the provided configuration
-     * @param config OpenAI configuration object
-     * @throws Error if required configuration is missing
+     * Initialize the bot with the provider that generates its content
+     * @param config Bot configuration object
      */
-    public initialize(config: OpenAIConfig): void {
-        if (!config.apiKey) {
-            throw new Error('Missing apiKey in OpenAI configuration');
+    public initialize(config: ChatBotConfig): void {
+        this.provider = config.provider;
+        this.maxAttempts = config.maxAttempts && config.maxAttempts > 0 ? config.maxAttempts : DEFAULT_MAX_ATTEMPTS;
+        this.amountVariation = config.amountVariation ?? DEFAULT_AMOUNT_VARIATION;
+        this.board = config.board ?? null;
+    }
+
+    /**
+     * Create multiple game events using the configured provider.
+     * Output is validated against the Event model; when entries are rejected the model is asked
+     * to correct them, up to the configured number of attempts.
+     * @param message User message to generate events from
+     * @param context Theme and language of the deck the events are for, and the memory of the game they are for
+     * @returns Object with success status, valid events and the reasons entries were rejected
+     * @throws Error if the bot is not initialized
+     */
+    public async createGameEvent(message: string, context: EventContext = {}): Promise<GameEventResult> {
+        const board = this.board ?? getBoard();
+        const memory = context.memory ? [this.memoryPrompt(context.memory)] : [];
+        const result = await this.generate(
+            'events',
+            this.SYSTEM_PROMPT,
+            this.eventPrompt(message, context, board),
+            raw => validateEvents(raw, board),
+            memory
+        );
+        return {
+            ...result,
+            data: result.data.map(event => applyAmountVariation(event, this.amountVariation))
+        };
+    }
+
+    /**
+     * Create game events like createGameEvent, handing out each event as soon as the model has written it.
+     * Entries are validated one by one; invalid ones are reported instead of re-prompted,
+     * since the events before them have already been handed out.
+     * @param message User message to generate events from
+     * @param context Theme and language of the deck the events are for, and the memory of the game they are for
+     * @param onEvent Called with each valid event in order, and awaited before the next one is handled
+     * @returns Object with success status, all valid events and the reasons entries were rejected
+     * @throws Error if the bot is not initialized
+     */
+    public async streamGameEvent(
+        message: string,
+        context: EventContext,
+        onEvent: (event: EventData) => Promise<void>
+    ): Promise<GameEventResult> {
+        if (!this.provider) {
+            throw new Error('MonopolyChatBot not initialized. Call initialize() first.');
         }
 
-        if (!config.baseURL) {
-            throw new Error('Missing baseURL in OpenAI configuration');
+        const board = this.board ?? getBoard();
+        const request = {
+            task: 'events' as const,
+            messages: [
+                { role: 'system' as const, content: this.SYSTEM_PROMPT },
+                ...(context.memory ? [{ role: 'system' as const, content: this.memoryPrompt(context.memory) }] : []),
+                { role: 'user' as const, content: this.eventPrompt(message, context, board) }
+            ]
+        };
+        const result: GameEventResult = { success: false, data: [], rejected: [] };
+        const splitter = new JsonArraySplitter();
+        let content = '';
+        let index = 0;
+
+        const handle = async (entry: unknown) => {
+            const { valid, rejected } = validateEvents([entry], board);
+            result.rejected.push(...rejected.map(rejection => ({ ...rejection, index })));
+            for (const event of valid) {
+                const varied = applyAmountVariation(event, this.amountVariation);
+                result.data.push(varied);
+                await onEvent(varied);
+            }
+            index++;
+        };
+
+        try {
+            const pieces = this.provider.stream ? this.provider.stream(request) : [await this.provider.complete(request)];
+            for await (const piece of pieces) {
+                content += piece;
+                for (const text of splitter.push(piece)) {
+                    let entry: unknown;
+                    try {
+                        entry = JSON.parse(text);
+                    } catch (error) {
+                        result.rejected.push({ index: index++, entry: text, errors: ['Entry is not valid JSON'] });
+                        continue;
+                    }
+                    await handle(entry);
+                }
+            }
+        } catch (error) {
+            console.error(`${this.provider.name} provider error:`, error);
+            throw error;
         }
 
-        if (!config.model) {
-            throw new Error('Missing model in OpenAI configuration');
+        const truncated = splitter.pending;
+        if (truncated !== undefined) {
+            result.rejected.push({ index: index++, entry: truncated, errors: ['Entry is incomplete, the response ended in the middle of it'] });
+        }
+        // An answer that is not a JSON array is rejected as a whole, like createGameEvent does
+        if (!splitter.started) {
+            try {
+                result.rejected.push(...validateEvents(parseModelJSON(content), board).rejected);
+            } catch (error) {
+                console.warn(`Failed to parse ${this.provider.name} response:`, content);
+                result.rejected.push({ index: -1, entry: content, errors: ['Response is not valid JSON'] });
+            }
+        }
+        if (result.rejected.length > 0) {
+            console.warn('Streamed events rejected:', formatRejections(result.rejected));
         }
 
-        this.openaiClient = new OpenAI({
-            apiKey: config.apiKey,
-            baseURL: config.baseURL
-        });
+        return { ...result, success: result.data.length > 0 };
+    }
 
-        this.model = config.model;
+    /**
+     * Create multiple choice quiz questions, validated like createGameEvent
+     * @param request Topic, difficulty, language and number of questions to generate
+     * @returns Object with success status, valid questions and the reasons entries were rejected
+     * @throws Error if the bot is not initialized
+     */
+    public async createQuestions(request: QuestionRequest): Promise<QuestionResult> {
+        const message = [
+            `Topic: ${request.topic}`,
+            `Difficulty: ${request.difficulty}`,
+            `Language: ${request.language}`,
+            `Number of questions: ${request.count}`
+        ].join('\n');
+
+        const result = await this.generate(
+            'questions',
+            this.QUESTION_PROMPT,
+            message,
+            raw => validateQuestions(raw, { difficulty: request.difficulty })
+        );
+        return {
+            ...result,
+            // Payouts are set by the server from the difficulty, never by the model
+            data: result.data.map(question => ({ ...question, ...QUESTION_PAYOUTS[question.difficulty] }))
+        };
     }
 
     /**
-     * Create multiple game events using OpenAI
-     * @param message User message to generate events from
-     * @returns Object with success status and array of events
-     * @throws Error if OpenAI client is not initialized
+     * The user message asking for events: the request itself, the deck and the board's properties
      */
-    public async createGameEvent(message: string): Promise<{ 
-        success: boolean; 
-        data: Array<{ message: string; type: string; amount?: number; property?: string; baseAmount?: number; }> 
-    }> {
-        if (!this.openaiClient) {
+    private eventPrompt(message: string, context: EventContext, board: Board): string {
+        return [
+            message,
+            ...(context.theme ? [`Deck theme: ${context.theme}`] : []),
+            ...(context.language ? [`Deck language: ${context.language}`] : []),
+            `Board properties: ${ownableSpaces(board).map(space => space.name).join('; ')}`
+        ].join('\n');
+    }
+
+    /**
+     * Describe a game's memory for the model
+     */
+    private memoryPrompt(memory: GameMemory): string {
+        const list = (lines: string[]) => lines.length > 0 ? lines.map(line => `- ${line}`).join('\n') : '- none yet';
+        return [
+            'Game memory:',
+            ...(memory.state ? [`Game state: ${memory.state}`] : []),
+            'Earlier requests in this game:',
+            list(memory.prompts),
+            'Events already generated in this game:',
+            list(memory.events)
+        ].join('\n');
+    }
+
+    /**
+     * Ask the model for a JSON array and validate it, re-prompting with the validation errors
+     * until the output is valid or the attempts are used up
+     * @param context Further system messages, e.g. the game memory
+     * @returns The first fully valid result, otherwise the attempt with the most valid entries
+     */
+    private async generate<D>(
+        task: GenerationTask,
+        systemPrompt: string,
+        message: string,
+        validate: (raw: unknown) => ValidationResult<D>,
+        context: ReadonlyArray<string> = []
+    ): Promise<GenerationResult<D>> {
+        if (!this.provider) {
             throw new Error('MonopolyChatBot not initialized. Call initialize() first.');
         }
 
+        const messages: ChatMessage[] = [
+            { role: 'system', content: systemPrompt },
+            ...context.map(content => ({ role: 'system' as const, content })),
+            { role: 'user', content: message }
+        ];
+        let best: GenerationResult<D> = { success: false, data: [], rejected: [] };
+
         try {
-            const completion = await this.openaiClient.chat.completions.create({
-                model: this.model,
-                messages: [
-                    { role: 'system', content: this.SYSTEM_PROMPT },
-                    { role: 'user', content: message }
-                ]
-            });
-
-            const content = completion.choices[0]?.message?.content || '';
-            try {
-                const events = JSON.parse(content);
-                if (Array.isArray(events)) {
-                    return {
-                        success: true,
-                        data: events
-                    };
-                } else {
-                    console.warn('Unexpected response format:', content);
-                    return {
+            for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+                const content = await this.provider.complete({ task, messages });
+                let result: GenerationResult<D>;
+                try {
+                    const { valid, rejected } = validate(parseModelJSON(content));
+                    result = { success: valid.length > 0, data: valid, rejected };
+                } catch (error) {
+                    console.warn(`Failed to parse ${this.provider.name} response:`, content);
+                    result = {
                         success: false,
-                        data: [{ message: 'Invalid game events format', type: 'system' }]
+                        data: [],
+                        rejected: [{ index: -1, entry: content, errors: ['Response is not valid JSON'] }]
                     };
                 }
-            } catch (error) {
-                console.error('Failed to parse OpenAI response:', error);
-                return {
-                    success: false,
-                    data: [{ message: 'Failed to parse game events', type: 'system' }]
-                };
+
+                if (result.data.length > best.data.length || attempt === 1) {
+                    best = result;
+                }
+                if (result.rejected.length === 0) {
+                    return result;
+                }
+
+                console.warn(`Generated items rejected on attempt ${attempt}/${this.maxAttempts}:`, formatRejections(result.rejected));
+                messages.push(
+                    { role: 'assistant', content },
+                    {
+                        role: 'user',
+                        content: `Your response did not match the required format:\n${formatRejections(result.rejected)}\n` +
+                            'Return the complete corrected JSON array only.'
+                    }
+                );
             }
+
+            return best;
         } catch (error) {
-            console.error('OpenAI API error:', error);
+            console.error(`${this.provider.name} provider error:`, error);
             throw error;
         }
     }
@@ -152,6 +406,6 @@ Guidelines:
      * Check if the bot is initialized and ready to use
      */
     public isInitialized(): boolean {
-        return this.openaiClient !== null;
+        return this.provider !== null;
     }
 }
@@ -0,0 +1,29 @@
+import { LLMProvider } from './types';
+import { OpenAIProvider } from './openaiProvider';
+import { TemplateProvider } from './templateProvider';
+
+export type LLMProviderType = 'openai' | 'template';
+
+export interface LLMProviderConfig {
+    type: LLMProviderType;
+    apiKey?: string;
+    baseURL?: string;
+    model?: string;
+}
+
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+    switch (config.type) {
+        case 'openai':
+            return new OpenAIProvider({
+                apiKey: config.apiKey || '',
+                baseURL: config.baseURL || '',
+                model: config.model || ''
+            });
+
+        case 'template':
+            return new TemplateProvider();
+
+        default:
+            throw new Error(`Unsupported LLM provider: ${config.type}`);
+    }
+}
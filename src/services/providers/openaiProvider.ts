@@ -0,0 +1,63 @@
+import { OpenAI } from 'openai';
+import { CompletionRequest, LLMProvider } from './types';
+
+export interface OpenAIProviderConfig {
+    apiKey: string;
+    baseURL: string;
+    model: string;
+}
+
+/**
+ * Provider for OpenAI and OpenAI-compatible chat completion APIs
+ */
+export class OpenAIProvider implements LLMProvider {
+    public readonly name = 'openai';
+    private client: OpenAI;
+    private model: string;
+
+    /**
+     * @param config OpenAI configuration object
+     * @throws Error if required configuration is missing
+     */
+    constructor(config: OpenAIProviderConfig) {
+        if (!config.apiKey) {
+            throw new Error('Missing apiKey in OpenAI configuration');
+        }
+
+        if (!config.baseURL) {
+            throw new Error('Missing baseURL in OpenAI configuration');
+        }
+
+        if (!config.model) {
+            throw new Error('Missing model in OpenAI configuration');
+        }
+
+        this.client = new OpenAI({
+            apiKey: config.apiKey,
+            baseURL: config.baseURL
+        });
+        this.model = config.model;
+    }
+
+    async complete(request: CompletionRequest): Promise<string> {
+        const completion = await this.client.chat.completions.create({
+            model: this.model,
+            messages: request.messages
+        });
+        return completion.choices[0]?.message?.content || '';
+    }
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+        const stream = await this.client.chat.completions.create({
+            model: this.model,
+            messages: request.messages,
+            stream: true
+        });
+        for await (const chunk of stream) {
+            const content = chunk.choices[0]?.delta?.content;
+            if (content) {
+                yield content;
+            }
+        }
+    }
+}
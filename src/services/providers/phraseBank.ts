@@ -0,0 +1,101 @@
+import { EventDirection, EventEffect, GameEventType } from '../../models/event';
+import { QuestionDifficulty } from '../../models/question';
+
+export interface EventTemplate {
+    type: GameEventType;
+    message: string;  // {theme}, {property} and {amount} are filled in by the template provider
+    withProperty?: boolean;
+    withAmount?: boolean;
+    direction?: EventDirection;  // Set for payment events with an amount
+    effects?: EventEffect[];  // A space of '{property}' is filled in like the message
+}
+
+export const EVENT_TEMPLATES: ReadonlyArray<EventTemplate> = [
+    { type: 'chance', message: 'A {theme} festival blocks your way. Pay ${amount} for a detour', withAmount: true, direction: 'pay' },
+    { type: 'chance', message: 'You win the {theme} lottery! Collect ${amount}', withAmount: true, direction: 'collect' },
+    { type: 'chance', message: 'Advance to {property} to join the {theme} parade', withProperty: true, effects: [{ kind: 'advance_to', space: '{property}' }] },
+    { type: 'chance', message: 'The {theme} police caught you. Go directly to jail', effects: [{ kind: 'go_to_jail' }] },
+    { type: 'chance', message: 'Lost in the {theme} crowd. Go back 3 spaces', effects: [{ kind: 'move', steps: -3 }] },
+    { type: 'chance', message: 'Your {theme} buildings need repairs. Pay $250 per house and $1000 per hotel', effects: [{ kind: 'pay_per_building', perHouse: 250, perHotel: 1000 }] },
+    { type: 'chance', message: 'Caught speeding through the {theme} district. Pay a fine of ${amount}', withAmount: true, direction: 'pay' },
+    { type: 'community_chest', message: 'Your {theme} club pays a dividend. Collect ${amount}', withAmount: true, direction: 'collect' },
+    { type: 'community_chest', message: 'Donate ${amount} to the {theme} charity drive', withAmount: true, direction: 'pay' },
+    { type: 'community_chest', message: 'The neighbours loved your {theme} party. Collect ${amount} in gifts', withAmount: true, direction: 'collect' },
+    { type: 'community_chest', message: 'It is your {theme} birthday. Collect ${amount} from every player', withAmount: true, effects: [{ kind: 'collect_from_each_player' }] },
+    { type: 'trade', message: 'A {theme} collector offers ${amount} for {property}', withProperty: true, withAmount: true },
+    { type: 'trade', message: 'Swap {property} with any player for their best {theme} souvenir', withProperty: true },
+    { type: 'auction', message: 'The {theme} society auctions {property}, starting at ${amount}', withProperty: true, withAmount: true },
+    { type: 'auction', message: 'Bidding war! {property} goes under the hammer at the {theme} gala for ${amount}', withProperty: true, withAmount: true },
+    { type: 'property', message: '{property} is renovated in {theme} style. Pay ${amount} for repairs', withProperty: true, withAmount: true, direction: 'pay' },
+    { type: 'property', message: '{theme} tourists flock to {property}. Its owner collects ${amount}', withProperty: true, withAmount: true, direction: 'collect' }
+];
+
+export const DEFAULT_THEME = 'city';
+
+export const PROPERTY_NAMES: ReadonlyArray<string> = [
+    'Mediterranean Avenue', 'Baltic Avenue', 'Oriental Avenue', 'Vermont Avenue', 'Connecticut Avenue',
+    'St. Charles Place', 'States Avenue', 'Virginia Avenue', 'St. James Place', 'Tennessee Avenue',
+    'New York Avenue', 'Kentucky Avenue', 'Indiana Avenue', 'Illinois Avenue', 'Atlantic Avenue',
+    'Ventnor Avenue', 'Marvin Gardens', 'Pacific Avenue', 'North Carolina Avenue', 'Pennsylvania Avenue',
+    'Park Place', 'Boardwalk'
+];
+
+export interface QuestionTemplate {
+    message: string;
+    choices: string[];
+    answer: number;
+    explanation: string;
+    difficulty: QuestionDifficulty;
+}
+
+export const QUESTION_TEMPLATES: ReadonlyArray<QuestionTemplate> = [
+    {
+        message: 'How much do you collect for passing GO?',
+        choices: ['$100', '$200', '$300', '$400'],
+        answer: 1,
+        explanation: 'Passing GO pays a salary of $200.',
+        difficulty: 'easy'
+    },
+    {
+        message: 'How many houses must be on a property before you can build a hotel?',
+        choices: ['2', '3', '4', '5'],
+        answer: 2,
+        explanation: 'A hotel replaces four houses.',
+        difficulty: 'easy'
+    },
+    {
+        message: 'How many spaces are on a classic Monopoly board?',
+        choices: ['36', '40', '44', '48'],
+        answer: 1,
+        explanation: 'The board has 40 spaces including the corners.',
+        difficulty: 'medium'
+    },
+    {
+        message: 'Which color group has only two properties besides dark blue?',
+        choices: ['Brown', 'Orange', 'Green', 'Red'],
+        answer: 0,
+        explanation: 'Brown (Mediterranean and Baltic) and dark blue (Park Place and Boardwalk) have two properties each.',
+        difficulty: 'medium'
+    },
+    {
+        message: 'How many doubles in a row send you to jail?',
+        choices: ['2', '3', '4', '5'],
+        answer: 1,
+        explanation: 'Rolling doubles three times in a row sends you directly to jail.',
+        difficulty: 'medium'
+    },
+    {
+        message: 'What is the rent on Boardwalk with a hotel?',
+        choices: ['$1400', '$1700', '$2000', '$2500'],
+        answer: 2,
+        explanation: 'Boardwalk with a hotel charges $2000 rent.',
+        difficulty: 'hard'
+    },
+    {
+        message: 'What fraction of a property\'s price does the bank lend when you mortgage it?',
+        choices: ['A quarter', 'Half', 'Three quarters', 'All of it'],
+        answer: 1,
+        explanation: 'A mortgage pays out half the printed price.',
+        difficulty: 'hard'
+    }
+];
@@ -0,0 +1,104 @@
+import { AMOUNT_PLACEHOLDER } from '../amountVariation';
+import { QUESTION_DIFFICULTIES, QuestionDifficulty } from '../../models/question';
+import { CompletionRequest, LLMProvider } from './types';
+import { DEFAULT_THEME, EVENT_TEMPLATES, PROPERTY_NAMES, QUESTION_TEMPLATES } from './phraseBank';
+
+const DEFAULT_BASE_AMOUNT = 2000;
+const MIN_EVENTS = 2;
+const MAX_EVENTS = 4;
+
+const STOP_WORDS = new Set([
+    'about', 'after', 'also', 'create', 'event', 'events', 'from', 'game', 'have', 'into', 'make', 'please',
+    'some', 'that', 'their', 'them', 'there', 'these', 'this', 'with', 'would', 'monopoly'
+]);
+
+/**
+ * Offline provider that fills templates from a phrase bank instead of calling a model.
+ * Output has the same JSON format as a model answer, so it goes through the same validation.
+ */
+export class TemplateProvider implements LLMProvider {
+    public readonly name = 'template';
+
+    /**
+     * @param random Random number source in [0, 1)
+     */
+    constructor(private readonly random: () => number = Math.random) {}
+
+    async complete(request: CompletionRequest): Promise<string> {
+        const prompt = request.messages.find(message => message.role === 'user')?.content ?? '';
+        return JSON.stringify(request.task === 'questions' ? this.questions(prompt) : this.events(prompt));
+    }
+
+    private events(prompt: string) {
+        const boardLine = /^Board properties:\s*(.+)$/m;
+        const theme = prompt.match(/^Deck theme:\s*(.+)$/m)?.[1].trim() || extractTheme(prompt.replace(boardLine, ''));
+        const boardProperties = prompt.match(boardLine)?.[1].split(';').map(name => name.trim()).filter(Boolean);
+        const properties = boardProperties?.length ? boardProperties : PROPERTY_NAMES;
+        const amountMatch = prompt.replace(/,/g, '').match(/\d+(\.\d+)?/);
+        const baseAmount = amountMatch ? Number(amountMatch[0]) : DEFAULT_BASE_AMOUNT;
+        const count = MIN_EVENTS + Math.floor(this.random() * (MAX_EVENTS - MIN_EVENTS + 1));
+
+        // Take one template per type first so the batch mixes event types
+        const templates = this.shuffle([...EVENT_TEMPLATES]);
+        const picked = templates.filter((template, index) =>
+            templates.findIndex(other => other.type === template.type) === index
+        ).slice(0, count);
+
+        return picked.map(template => {
+            const property = template.withProperty ? this.pick(properties) : undefined;
+            return {
+                message: template.message
+                    .replace('{theme}', theme)
+                    .replace('{property}', property ?? '')
+                    .replace('{amount}', AMOUNT_PLACEHOLDER),
+                type: template.type,
+                ...(property && { property }),
+                ...(template.withAmount && { baseAmount }),
+                ...(template.direction && { direction: template.direction }),
+                ...(template.effects && {
+                    effects: template.effects.map(effect =>
+                        'space' in effect ? { ...effect, space: effect.space.replace('{property}', property ?? '') } : effect
+                    )
+                })
+            };
+        });
+    }
+
+    private questions(prompt: string) {
+        const difficulty = prompt.match(/^Difficulty:\s*(\w+)/m)?.[1] as QuestionDifficulty | undefined;
+        const count = parseInt(prompt.match(/^Number of questions:\s*(\d+)/m)?.[1] || '', 10) || 1;
+
+        const matching = QUESTION_TEMPLATES.filter(question =>
+            !difficulty || !QUESTION_DIFFICULTIES.includes(difficulty) || question.difficulty === difficulty
+        );
+        return this.shuffle([...(matching.length > 0 ? matching : QUESTION_TEMPLATES)]).slice(0, count);
+    }
+
+    private pick<T>(values: ReadonlyArray<T>): T {
+        return values[Math.floor(this.random() * values.length)];
+    }
+
+    private shuffle<T>(values: T[]): T[] {
+        for (let i = values.length - 1; i > 0; i--) {
+            const j = Math.floor(this.random() * (i + 1));
+            [values[i], values[j]] = [values[j], values[i]];
+        }
+        return values;
+    }
+}
+
+/**
+ * Pick the words of the user's message that carry its theme
+ */
+function extractTheme(prompt: string): string {
+    const words = prompt
+        .split(/[^\p{L}\p{N}'-]+/u)
+        .filter(word => word.length >= 4 && !/^\d/.test(word) && !STOP_WORDS.has(word.toLowerCase()));
+
+    if (words.length > 0) {
+        return words.slice(0, 3).join(' ');
+    }
+    // Scripts without spaces, e.g. Chinese, come through as one short chunk
+    const trimmed = prompt.trim();
+    return trimmed ? trimmed.slice(0, 20) : DEFAULT_THEME;
+}
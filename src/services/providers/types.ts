@@ -0,0 +1,23 @@
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+// What the bot is asking the provider to generate; lets non-LLM providers pick the right output format
+export type GenerationTask = 'events' | 'questions';
+
+export interface CompletionRequest {
+    task: GenerationTask;
+    messages: ChatMessage[];
+}
+
+/**
+ * A source of model output for MonopolyChatBot.
+ * Providers return the raw text of the answer; parsing and validation are done by the bot.
+ */
+export interface LLMProvider {
+    readonly name: string;
+    complete(request: CompletionRequest): Promise<string>;
+    // Yields the answer in pieces as it is generated; the bot falls back to complete() for providers without it
+    stream?(request: CompletionRequest): AsyncIterable<string>;
+}
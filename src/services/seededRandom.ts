@@ -0,0 +1,24 @@
+/**
+ * Create a random number source in [0, 1) that always yields the same sequence for the same seed.
+ * Uses a 32-bit string hash (FNV-1a) to seed mulberry32, so it gives the same numbers on every platform.
+ * @param seed Any string, e.g. a game id or a seed given in a bug report
+ */
+export function createSeededRandom(seed: string): () => number {
+    let state = hashSeed(seed);
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function hashSeed(seed: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQLiteClient } from '../src/db/database';
+import { AuctionView, closeAuction, NewAuction, openAuction, placeBid } from '../src/db/auctions';
+import { findHolding } from '../src/db/gameState';
+import { listBalances, postTransaction } from '../src/db/ledger';
+import { STARTING_BALANCE } from '../src/config/economy';
+
+function auction(property: string, endsAt: Date = new Date(Date.now() + 60_000)): NewAuction {
+    return { gameId: 'game-1', property, openedBy: 'alice', itemId: '1', startingBid: 100, endsAt };
+}
+
+describe('openAuction', () => {
+    let client: SQLiteClient;
+
+    beforeEach(async () => {
+        client = new SQLiteClient(':memory:');
+        await client.connect();
+    });
+    afterEach(() => client.disconnect());
+
+    it('returns the running auction of a property instead of opening another', async () => {
+        const [first, second] = await Promise.all([openAuction(client, auction('Boardwalk')), openAuction(client, auction('Boardwalk'))]);
+
+        assert.deepEqual([first.opened, second.opened].sort(), [false, true]);
+        assert.equal(first.auction.id, second.auction.id);
+        assert.equal((await openAuction(client, auction('Park Place'))).opened, true);
+        assert.equal((await openAuction(client, { ...auction('Boardwalk'), gameId: 'game-2' })).opened, true);
+    });
+
+    it('opens a new auction once the previous one has closed', async () => {
+        const { auction: first } = await openAuction(client, auction('Boardwalk', new Date(Date.now() - 1000)));
+        assert.equal((await closeAuction(client, first.id))?.auction.status, 'unsold');
+
+        const reopened = await openAuction(client, auction('Boardwalk'));
+
+        assert.equal(reopened.opened, true);
+        assert.notEqual(reopened.auction.id, first.id);
+    });
+});
+
+describe('closeAuction', () => {
+    let client: SQLiteClient;
+
+    beforeEach(async () => {
+        client = new SQLiteClient(':memory:');
+        await client.connect();
+    });
+    afterEach(() => client.disconnect());
+
+    /**
+     * Open an auction of Boardwalk sold by carol, let bob bid and wait for the auction to end
+     */
+    async function auctionWithBid(amount: number): Promise<AuctionView> {
+        const { auction: opened } = await openAuction(client, { ...auction('Boardwalk', new Date(Date.now() + 50)), sellerId: 'carol' });
+        const bid = await placeBid(client, opened.id, 'bob', amount, new Date());
+        assert.ok(bid);
+        await new Promise(resolve => setTimeout(resolve, 60));
+        return bid;
+    }
+
+    async function balances(): Promise<number[]> {
+        const { data } = await listBalances(client, 'game-1', ['bob', 'carol']);
+        return data.balances.map((balance: { balance: number }) => balance.balance);
+    }
+
+    it('charges the high bidder, pays the seller and hands over the property', async () => {
+        const { id } = await auctionWithBid(300);
+
+        const settlement = await closeAuction(client, id);
+
+        assert.equal(settlement?.auction.status, 'sold');
+        assert.deepEqual(settlement?.ledger.map(posting => posting.transaction.type), ['auction_pay', 'auction_collect']);
+        assert.deepEqual(await balances(), [STARTING_BALANCE - 300, STARTING_BALANCE + 300]);
+        assert.equal((await findHolding(client, 'game-1', 'Boardwalk'))?.ownerId, 'bob');
+        assert.equal(await closeAuction(client, id), null);
+    });
+
+    it('closes unsold when the high bidder can no longer pay', async () => {
+        const { id } = await auctionWithBid(300);
+        await postTransaction(client, { gameId: 'game-1', userId: 'bob', type: 'event_pay', amount: -(STARTING_BALANCE - 200) });
+
+        const settlement = await closeAuction(client, id);
+
+        assert.equal(settlement?.auction.status, 'unsold');
+        assert.deepEqual(settlement?.ledger, []);
+        assert.deepEqual(await balances(), [200, STARTING_BALANCE]);
+        assert.equal(await findHolding(client, 'game-1', 'Boardwalk'), null);
+    });
+});
@@ -0,0 +1,46 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { requireAdmin } from '../src/middleware/auth';
+
+/**
+ * Run requireAdmin on a request with the given Authorization header
+ * @returns The status sent, or 'next' if the request was let through
+ */
+function check(authorization?: string): number | 'next' {
+    let outcome: number | 'next' | undefined;
+    const req = { get: (header: string) => header === 'Authorization' ? authorization : undefined } as Request;
+    const res = { status: (code: number) => ({ json: () => outcome = code }) } as unknown as Response;
+    requireAdmin(req, res, () => outcome = 'next');
+    return outcome!;
+}
+
+describe('requireAdmin', () => {
+    const environment = { ...process.env };
+    afterEach(() => {
+        process.env = { ...environment };
+    });
+
+    it('lets only requests with the configured token through', () => {
+        process.env.ADMIN_TOKEN = 'secret';
+
+        assert.equal(check('Bearer secret'), 'next');
+        assert.equal(check('Bearer wrong'), 401);
+        assert.equal(check(), 401);
+    });
+
+    it('refuses every request while no token is configured', () => {
+        delete process.env.ADMIN_TOKEN;
+        delete process.env.ADMIN_AUTH_DISABLED;
+
+        assert.equal(check(), 403);
+        assert.equal(check('Bearer '), 403);
+    });
+
+    it('opens the routes without a token only when explicitly disabled', () => {
+        delete process.env.ADMIN_TOKEN;
+        process.env.ADMIN_AUTH_DISABLED = 'true';
+
+        assert.equal(check(), 'next');
+    });
+});
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQLiteClient } from '../src/db/database';
+import { copyCollections } from '../src/db/copy';
+import { createDeck, scanDecks } from '../src/db/decks';
+import { Event } from '../src/models/event';
+
+describe('copyCollections', () => {
+    let source: SQLiteClient;
+    let target: SQLiteClient;
+
+    beforeEach(async () => {
+        source = new SQLiteClient(':memory:');
+        target = new SQLiteClient(':memory:');
+        await source.connect();
+        await target.connect();
+    });
+    afterEach(async () => {
+        await source.disconnect();
+        await target.disconnect();
+    });
+
+    it('copies the decks and moves the items to their new deck ids', async () => {
+        // Give the target a different id sequence, as a fresh database of another backend would have
+        const { data: unrelated } = await createDeck(target, 'carol', { name: 'Unrelated' });
+        const backend = target.backend();
+        assert.equal(backend.type, 'sqlite');
+        await backend.db.run('DELETE FROM decks WHERE id = ?', [unrelated.id]);
+
+        const { data: deck } = await createDeck(source, 'alice', { name: 'Tokyo', theme: 'Tokyo night', baseRatio: 0.5 });
+        const events = source.getItemRepository<Event>('events');
+        await events.insert([{ data: { message: 'base', type: 'chance' } }]);
+        await events.insert([{ data: { message: 'themed', type: 'chance' }, deckId: deck.id }], 'alice');
+
+        const reports = await copyCollections(source, target, ['events']);
+
+        assert.deepEqual(reports.map(report => [report.collection, report.copied, report.verified]), [
+            ['decks', 1, true],
+            ['events', 2, true]
+        ]);
+        const [copiedDeck] = await scanDecks(target);
+        assert.notEqual(copiedDeck.id, deck.id);
+        assert.equal(copiedDeck.name, 'Tokyo');
+        assert.equal(copiedDeck.owner, 'alice');
+        const themed = await target.getItemRepository<Event>('events').listDeck(copiedDeck.id);
+        assert.deepEqual(themed.map(item => item.data.message), ['themed']);
+    });
+
+    it('resumes without copying the decks again', async () => {
+        const { data: deck } = await createDeck(source, 'alice', { name: 'Tokyo' });
+        await source.getItemRepository<Event>('events').insert([{ data: { message: 'themed', type: 'chance' }, deckId: deck.id }]);
+        await copyCollections(source, target, []);
+
+        const reports = await copyCollections(source, target, ['events']);
+
+        assert.deepEqual(reports.map(report => [report.collection, report.resumedAt, report.copied, report.verified]), [
+            ['decks', 1, 0, true],
+            ['events', 0, 1, true]
+        ]);
+        assert.equal((await scanDecks(target)).length, 1);
+    });
+});
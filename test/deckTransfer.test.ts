@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQLiteClient } from '../src/db/database';
+import { exportDeck, parseDeck } from '../src/services/deckTransfer';
+import { Event } from '../src/models/event';
+
+describe('event deck CSV', () => {
+    let client: SQLiteClient;
+
+    beforeEach(async () => {
+        client = new SQLiteClient(':memory:');
+        await client.connect();
+    });
+    afterEach(() => client.disconnect());
+
+    it('exports effects as JSON and imports them back', async () => {
+        await client.getItemRepository<Event>('events').insert([{
+            data: {
+                message: 'Advance to Boardwalk, then pay $50 to each player',
+                type: 'chance',
+                effects: [{ kind: 'advance_to', space: 'Boardwalk' }, { kind: 'pay_each_player', amount: 50 }]
+            }
+        }]);
+
+        const csv = await exportDeck(client, 'events', { format: 'csv' });
+        const { items, rejected } = parseDeck('events', 'csv', csv);
+
+        assert.deepEqual(rejected, []);
+        assert.deepEqual((items[0] as Event['data']).effects, [
+            { kind: 'advance_to', space: 'Boardwalk' },
+            { kind: 'pay_each_player', amount: 50 }
+        ]);
+    });
+
+    it('rejects rows whose effects are not valid', () => {
+        const csv = [
+            'message,type,effects',
+            '"Go somewhere",chance,"[{""kind"":""advance_to"",""space"":""Nowhere""}]"',
+            '"Broken",chance,"[{""kind"":"',
+            '"Fine",chance,"[{""kind"":""go_to_jail""}]"'
+        ].join('\n');
+
+        const { items, rejected } = parseDeck('events', 'csv', csv);
+
+        assert.equal(items.length, 1);
+        assert.deepEqual(rejected.map(row => row.row), [2, 3]);
+        assert.match(rejected[0].errors.join(), /effects\[0\]\.space/);
+        assert.match(rejected[1].errors.join(), /"effects" must be an array of effect objects/);
+    });
+});
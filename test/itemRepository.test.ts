@@ -0,0 +1,307 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MongoClient } from 'mongodb';
+import { MongoDBClient, SQLiteClient } from '../src/db/database';
+import { ItemRepository, NewItem } from '../src/db/repositories/itemRepository';
+import { MemoryItemRepository } from '../src/db/repositories/memoryItemRepository';
+import { Event } from '../src/models/event';
+
+/**
+ * A backend the shared suite runs against. open() returns a repository over an empty events collection.
+ */
+interface Backend {
+    name: string;
+    skip?: string;  // Why the backend cannot run here
+    open(): Promise<{ repository: ItemRepository<Event>; close(): Promise<void> }>;
+}
+
+const COLLECTION = 'events';
+const MONGO_URI = process.env.TEST_MONGODB_URI;
+const MONGO_DB = 'soundmonopoly_test';
+
+const BACKENDS: Backend[] = [
+    {
+        name: 'memory',
+        open: async () => ({ repository: new MemoryItemRepository<Event>(COLLECTION), close: async () => {} })
+    },
+    {
+        name: 'sqlite',
+        open: async () => {
+            const client = new SQLiteClient(':memory:');
+            await client.connect();
+            return { repository: client.getItemRepository<Event>(COLLECTION), close: () => client.disconnect() };
+        }
+    },
+    {
+        name: 'mongodb',
+        // Replacing items runs a multi-document transaction, so the server must be a replica set
+        skip: MONGO_URI ? undefined : 'set TEST_MONGODB_URI to a replica set to run the MongoDB repository tests',
+        open: async () => {
+            const admin = new MongoClient(MONGO_URI!);
+            await admin.connect();
+            await admin.db(MONGO_DB).dropDatabase();
+            await admin.close();
+
+            const client = new MongoDBClient(MONGO_URI!, MONGO_DB);
+            await client.connect();
+            return { repository: client.getItemRepository<Event>(COLLECTION), close: () => client.disconnect() };
+        }
+    }
+];
+
+function event(message: string, type: Event['data']['type'] = 'chance'): { data: Event['data'] } {
+    return { data: { message, type } };
+}
+
+function messages(items: ReadonlyArray<{ data: { message: string } }>): string[] {
+    return items.map(item => item.data.message).sort();
+}
+
+/**
+ * Draw until the repository has nothing left for the user, returning the drawn messages
+ */
+async function drawAll(repository: ItemRepository<Event>, userId: string, gameId?: string): Promise<string[]> {
+    const drawn: string[] = [];
+    for (let item = await repository.draw(userId, { gameId }); item; item = await repository.draw(userId, { gameId })) {
+        drawn.push(item.data.message);
+    }
+    return drawn.sort();
+}
+
+for (const backend of BACKENDS) {
+    describe(`${backend.name} item repository`, { skip: backend.skip }, () => {
+        let repository: ItemRepository<Event>;
+        let close: () => Promise<void>;
+
+        beforeEach(async () => {
+            ({ repository, close } = await backend.open());
+        });
+        afterEach(() => close());
+
+        it('inserts items and finds them by id', async () => {
+            const ids = await repository.insert([event('a'), event('b')], 'alice');
+
+            assert.equal(ids.length, 2);
+            assert.equal(await repository.count(), 2);
+            const found = await repository.findById(ids[1]);
+            assert.equal(found?.data.message, 'b');
+            assert.equal(found?.used, false);
+            assert.equal(found?.createdBy, 'alice');
+        });
+
+        it('seeds only an empty collection', async () => {
+            assert.equal(await repository.seed([event('a')]), true);
+            assert.equal(await repository.seed([event('b')]), false);
+            assert.equal(await repository.count(), 1);
+        });
+
+        it('draws every item once and then nothing', async () => {
+            await repository.insert([event('a'), event('b'), event('c')]);
+
+            assert.deepEqual(await drawAll(repository, 'alice'), ['a', 'b', 'c']);
+            assert.equal(await repository.draw('bob'), null);
+        });
+
+        it('marks drawn items as used by the drawing user', async () => {
+            const [id] = await repository.insert([event('a')]);
+
+            const drawn = await repository.draw('alice');
+
+            assert.equal(drawn?.id, id);
+            assert.equal(drawn?.used, true);
+            assert.equal(drawn?.assignedTo, 'alice');
+            assert.equal((await repository.findById(id))?.used, true);
+        });
+
+        it('offers candidates in ascending id order and draws the picked one', async () => {
+            const ids = await repository.insert([event('a'), event('b'), event('c')]);
+            let offered: string[] = [];
+
+            const drawn = await repository.draw('alice', {
+                pick: candidates => {
+                    offered = candidates.map(candidate => candidate.id);
+                    return 1;
+                }
+            });
+
+            assert.deepEqual(offered, ids);
+            assert.equal(drawn?.id, ids[1]);
+        });
+
+        it('draws each item once per game, independently of other games', async () => {
+            await repository.insert([event('a'), event('b')]);
+
+            assert.deepEqual(await drawAll(repository, 'alice', 'game-1'), ['a', 'b']);
+            assert.deepEqual(await drawAll(repository, 'bob', 'game-2'), ['a', 'b']);
+            // Game draws leave the items available outside games
+            assert.deepEqual(await drawAll(repository, 'carol'), ['a', 'b']);
+        });
+
+        it('never deals an item twice to parallel draws', async () => {
+            await repository.insert(Array.from({ length: 20 }, (_, index) => event(`card-${index}`)));
+
+            const draws = await Promise.all(Array.from({ length: 30 }, (_, index) => repository.draw(`player-${index}`)));
+
+            const dealt = draws.filter(item => item !== null).map(item => item!.id);
+            assert.equal(dealt.length, 20);
+            assert.equal(new Set(dealt).size, 20);
+        });
+
+        it('never deals an item twice to parallel draws in one game', async () => {
+            await repository.insert(Array.from({ length: 20 }, (_, index) => event(`card-${index}`)));
+
+            const draws = await Promise.all(
+                Array.from({ length: 30 }, (_, index) => repository.draw(`player-${index}`, { gameId: 'game-1' }))
+            );
+
+            const dealt = draws.filter(item => item !== null).map(item => item!.id);
+            assert.equal(dealt.length, 20);
+            assert.equal(new Set(dealt).size, 20);
+        });
+
+        it('retries parallel draws that all pick the same item', async () => {
+            await repository.insert(Array.from({ length: 5 }, (_, index) => event(`card-${index}`)));
+            const pickFirst = () => 0;
+
+            const [global, inGame] = await Promise.all([
+                Promise.all(Array.from({ length: 5 }, (_, index) => repository.draw(`player-${index}`, { pick: pickFirst }))),
+                Promise.all(Array.from({ length: 5 }, (_, index) => repository.draw(`player-${index}`, { gameId: 'game-1', pick: pickFirst })))
+            ]);
+
+            assert.equal(new Set(global.map(item => item?.id)).size, 5);
+            assert.equal(new Set(inGame.map(item => item?.id)).size, 5);
+        });
+
+        it('keeps the base deck and named decks apart', async () => {
+            await repository.insert([event('base')]);
+            await repository.insert([{ ...event('deck'), deckId: 'deck-1' }]);
+
+            assert.equal((await repository.draw('alice'))?.data.message, 'base');
+            assert.equal(await repository.draw('alice'), null);
+            const fromDeck = await repository.draw('alice', { deckId: 'deck-1' });
+            assert.equal(fromDeck?.data.message, 'deck');
+            assert.equal(fromDeck?.deckId, 'deck-1');
+            assert.deepEqual(messages(await repository.listDeck('deck-1')), ['deck']);
+        });
+
+        it('remembers the last drawn item per user and per game', async () => {
+            await repository.insert([event('a'), event('b')]);
+
+            const first = await repository.draw('alice');
+            assert.equal((await repository.lastDrawn({ userId: 'alice' }))?.id, first?.id);
+            assert.equal(await repository.lastDrawn({ userId: 'bob' }), null);
+
+            const inGame = await repository.draw('bob', { gameId: 'game-1' });
+            assert.equal((await repository.lastDrawn({ gameId: 'game-1' }))?.id, inGame?.id);
+            assert.equal((await repository.lastDrawn({ gameId: 'game-1', userId: 'bob' }))?.id, inGame?.id);
+            assert.equal(await repository.lastDrawn({ gameId: 'game-1', userId: 'alice' }), null);
+        });
+
+        it('resets drawn items, keeping the most recent ones out', async () => {
+            await repository.insert([event('a'), event('b'), event('c')]);
+            await drawAll(repository, 'alice');
+            const last = await repository.lastDrawn({ userId: 'alice' });
+
+            assert.equal(await repository.reset({ keepOut: 1 }), 2);
+            const redrawn = await drawAll(repository, 'bob');
+            assert.equal(redrawn.length, 2);
+            assert.ok(!redrawn.includes(last!.data.message));
+        });
+
+        it('resets only the draws of one user or one game', async () => {
+            await repository.insert([event('a'), event('b')]);
+            await repository.draw('alice');
+            await repository.draw('bob');
+            await drawAll(repository, 'carol', 'game-1');
+
+            assert.equal(await repository.reset({ userId: 'alice' }), 1);
+            assert.equal(await repository.reset({ gameId: 'game-1' }), 2);
+            assert.deepEqual(await drawAll(repository, 'dave', 'game-1'), ['a', 'b']);
+        });
+
+        it('lists items with filters and pages', async () => {
+            await repository.insert([event('a', 'chance'), event('b', 'auction'), event('c', 'chance')], 'alice');
+            await repository.insert([event('d', 'chance')], 'bob');
+
+            const chances = await repository.list({ type: 'chance', sort: 'id', order: 'asc', limit: 2 });
+            assert.equal(chances.total, 3);
+            assert.deepEqual(chances.items.map(item => item.data.message), ['a', 'c']);
+
+            const secondPage = await repository.list({ type: 'chance', sort: 'id', order: 'asc', limit: 2, page: 2 });
+            assert.deepEqual(secondPage.items.map(item => item.data.message), ['d']);
+
+            const byBob = await repository.list({ createdBy: 'bob' });
+            assert.deepEqual(messages(byBob.items), ['d']);
+        });
+
+        it('updates, marks used and deletes items', async () => {
+            const [a, b] = await repository.insert([event('a'), event('b')], 'alice');
+            await repository.insert([event('c')], 'bob');
+
+            const updated = await repository.update(a, { data: event('changed').data, used: true });
+            assert.equal(updated?.data.message, 'changed');
+            assert.equal(updated?.used, true);
+
+            assert.equal(await repository.markAllUsed(), 2);
+            assert.equal(await repository.delete(b), true);
+            assert.equal(await repository.delete(b), false);
+            assert.equal(await repository.deleteByCreator('alice'), 1);
+            assert.equal(await repository.count(), 1);
+        });
+
+        it('replaces a creator\'s items in a deck and keeps the previous version', async () => {
+            await repository.insert([event('old-1'), event('old-2')], 'alice');
+            await repository.insert([event('other')], 'bob');
+
+            const result = await repository.replaceByCreator('alice', [event('new')]);
+
+            assert.equal(result.deletedCount, 2);
+            assert.equal(result.insertedIds.length, 1);
+            assert.deepEqual(messages((await repository.list({ createdBy: 'alice' })).items), ['new']);
+            assert.deepEqual(messages((await repository.list({ createdBy: 'bob' })).items), ['other']);
+            const previous = await repository.findPreviousVersion('alice');
+            assert.deepEqual(messages(previous!.items), ['old-1', 'old-2']);
+        });
+
+        it('keeps a previous version per deck and restores each deck on its own', async () => {
+            await repository.insert([event('base-old')], 'alice');
+            await repository.insert([{ ...event('deck-old'), deckId: 'deck-1' }], 'alice');
+            await repository.replaceByCreator('alice', [event('base-new')]);
+            await repository.replaceByCreator('alice', [event('deck-new')], 'deck-1');
+
+            // Restoring is replacing the deck with its previous version, as restoreItemsByUser does
+            const restore = async (deckId?: string) => {
+                const previous = await repository.findPreviousVersion('alice', deckId);
+                return repository.replaceByCreator('alice', previous!.items as NewItem<Event>[], deckId);
+            };
+
+            await restore(undefined);
+            assert.deepEqual(messages(await repository.listDeck()), ['base-old']);
+            assert.deepEqual(messages(await repository.listDeck('deck-1')), ['deck-new']);
+
+            await restore('deck-1');
+            assert.deepEqual(messages(await repository.listDeck('deck-1')), ['deck-old']);
+            assert.deepEqual(messages(await repository.listDeck()), ['base-old']);
+
+            // Each restore kept the replaced items, so it can be undone per deck too
+            assert.deepEqual(messages((await repository.findPreviousVersion('alice'))!.items), ['base-new']);
+            assert.deepEqual(messages((await repository.findPreviousVersion('alice', 'deck-1'))!.items), ['deck-new']);
+            assert.equal(await repository.findPreviousVersion('alice', 'deck-2'), null);
+        });
+
+        it('copies snapshots with their draw state and scans them in order', async () => {
+            const ids = await repository.insertSnapshots([
+                { ...event('a'), used: true, assignedTo: 'alice', createdBy: 'bob', createdAt: new Date('2024-01-01T00:00:00Z') },
+                { ...event('b'), used: false, deckId: 'deck-1' }
+            ]);
+
+            const scanned = await repository.scan(0, 10);
+            assert.deepEqual(scanned.map(item => item.id), ids);
+            assert.equal(scanned[0].used, true);
+            assert.equal(scanned[0].assignedTo, 'alice');
+            assert.equal(scanned[0].createdBy, 'bob');
+            assert.equal(scanned[1].deckId, 'deck-1');
+            assert.deepEqual((await repository.scan(1, 10)).map(item => item.id), [ids[1]]);
+        });
+    });
+}
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonArraySplitter } from '../src/services/jsonStream';
+
+/**
+ * Feed the text to a splitter in pieces of the given size
+ */
+function split(text: string, size: number): { elements: string[]; splitter: JsonArraySplitter } {
+    const splitter = new JsonArraySplitter();
+    const elements: string[] = [];
+    for (let offset = 0; offset < text.length; offset += size) {
+        elements.push(...splitter.push(text.slice(offset, offset + size)));
+    }
+    return { elements, splitter };
+}
+
+/**
+ * Split the text at every piece size, so every character is a chunk boundary at least once
+ */
+function splitEverywhere(text: string): string[][] {
+    return Array.from({ length: text.length }, (_, index) => split(text, index + 1).elements);
+}
+
+describe('JsonArraySplitter', () => {
+    it('returns each element as soon as it is complete', () => {
+        const splitter = new JsonArraySplitter();
+
+        assert.deepEqual(splitter.push('[{"a": 1}, {"b"'), ['{"a": 1}']);
+        assert.deepEqual(splitter.push(': 2}'), ['{"b": 2}']);
+        assert.deepEqual(splitter.push(']'), []);
+        assert.equal(splitter.pending, undefined);
+    });
+
+    it('skips text around the array, such as a code fence', () => {
+        const { elements } = split('```json\n[{"a": 1}]\n```\nMore text [2]', 4);
+
+        assert.deepEqual(elements, ['{"a": 1}']);
+    });
+
+    it('keeps brackets, braces and commas inside strings', () => {
+        const text = '[{"message": "Pay [all], {or} nothing"}, "a,b]"]';
+
+        for (const elements of splitEverywhere(text)) {
+            assert.deepEqual(elements, ['{"message": "Pay [all], {or} nothing"}', '"a,b]"']);
+        }
+    });
+
+    it('keeps escaped quotes and backslashes inside strings', () => {
+        const text = '[{"message": "Say \\"hi\\" \\\\"}, {"message": "a\\\\\\"]"}]';
+
+        for (const elements of splitEverywhere(text)) {
+            assert.deepEqual(elements.map(element => JSON.parse(element).message), ['Say "hi" \\', 'a\\"]']);
+        }
+    });
+
+    it('returns nested arrays and objects whole', () => {
+        const text = '[{"effects": [{"kind": "move", "steps": [1, [2]]}]}, [[1], [2, {"x": []}]], 3, true, null]';
+
+        for (const elements of splitEverywhere(text)) {
+            assert.deepEqual(elements.map(element => JSON.parse(element)), JSON.parse(text));
+        }
+    });
+
+    it('ignores everything after the end of the array', () => {
+        const { elements } = split('[1, 2] [3]', 1);
+
+        assert.deepEqual(elements, ['1', '2']);
+    });
+
+    it('reports an element cut off by the end of the input', () => {
+        const { elements, splitter } = split('[{"message": "Done"}, {"message": "Cut o', 5);
+
+        assert.deepEqual(elements, ['{"message": "Done"}']);
+        assert.equal(splitter.pending, '{"message": "Cut o');
+        assert.equal(splitter.started, true);
+    });
+
+    it('has not started before the array opens', () => {
+        const splitter = new JsonArraySplitter();
+
+        assert.deepEqual(splitter.push('Here are your events: '), []);
+        assert.equal(splitter.started, false);
+        assert.equal(splitter.pending, undefined);
+    });
+});
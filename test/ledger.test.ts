@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQLiteClient } from '../src/db/database';
+import { listBalances, listTransactions, postInTransaction, postTransaction } from '../src/db/ledger';
+import { runTransaction } from '../src/db/transaction';
+import { STARTING_BALANCE } from '../src/config/economy';
+
+describe('postTransaction', () => {
+    let client: SQLiteClient;
+
+    beforeEach(async () => {
+        client = new SQLiteClient(':memory:');
+        await client.connect();
+    });
+    afterEach(() => client.disconnect());
+
+    it('opens the balance, applies the amount and reports a bankruptcy once', async () => {
+        const paid = await postTransaction(client, { gameId: 'game-1', userId: 'alice', type: 'event_pay', amount: -STARTING_BALANCE - 100 });
+        const again = await postTransaction(client, { gameId: 'game-1', userId: 'alice', type: 'event_pay', amount: -10 });
+
+        assert.equal(paid.balance.balance, -100);
+        assert.deepEqual([paid.bankrupted, again.bankrupted], [true, false]);
+        assert.equal(again.balance.bankrupt, true);
+        const { data } = await listTransactions(client, 'game-1');
+        assert.deepEqual(data.transactions.map((transaction: { type: string }) => transaction.type), ['opening', 'event_pay', 'event_pay']);
+    });
+
+    it('leaves the balance and the ledger untouched when the surrounding transaction fails', async () => {
+        await assert.rejects(runTransaction(client, async scope => {
+            await postInTransaction(scope, { gameId: 'game-1', userId: 'alice', type: 'event_pay', amount: -100 });
+            throw new Error('rolled back');
+        }), /rolled back/);
+
+        const { data } = await listTransactions(client, 'game-1');
+        assert.equal(data.total, 0);
+        assert.deepEqual((await listBalances(client, 'game-1', ['alice'])).data.balances, [{ userId: 'alice', balance: STARTING_BALANCE, bankrupt: false }]);
+    });
+});
@@ -0,0 +1,112 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { MonopolyChatBot } from '../src/services/openai';
+import { OpenAIProvider } from '../src/services/providers/openaiProvider';
+import { EventData } from '../src/services/itemValidator';
+
+/**
+ * A chat completions server that streams the pieces of one answer as server-sent events.
+ * Before sending a piece, it waits for the gate given with it, if any.
+ */
+class MockChatServer {
+    private server = http.createServer((req, res) => this.answer(req, res));
+    public pieces: Array<{ text: string; gate?: Promise<void> }> = [];
+    public requests: any[] = [];
+
+    async start(): Promise<string> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v1`;
+    }
+
+    async stop(): Promise<void> {
+        await new Promise(resolve => this.server.close(resolve));
+    }
+
+    private answer(req: http.IncomingMessage, res: http.ServerResponse): void {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', async () => {
+            this.requests.push(JSON.parse(body));
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            for (const { text, gate } of this.pieces) {
+                await gate;
+                const chunk = {
+                    id: 'chatcmpl-test',
+                    object: 'chat.completion.chunk',
+                    created: 0,
+                    model: 'test',
+                    choices: [{ index: 0, delta: { content: text }, finish_reason: null }]
+                };
+                res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+            }
+            res.end('data: [DONE]\n\n');
+        });
+    }
+}
+
+/**
+ * Cut text into pieces of a few characters, as a model streams its tokens
+ */
+function pieces(text: string, size: number = 7): Array<{ text: string }> {
+    return Array.from({ length: Math.ceil(text.length / size) }, (_, index) => ({ text: text.slice(index * size, (index + 1) * size) }));
+}
+
+describe('MonopolyChatBot.streamGameEvent', () => {
+    const server = new MockChatServer();
+    const chatBot = MonopolyChatBot.getInstance();
+
+    before(async () => {
+        const baseURL = await server.start();
+        chatBot.initialize({ provider: new OpenAIProvider({ apiKey: 'test', baseURL, model: 'test' }) });
+    });
+    after(() => server.stop());
+
+    it('delivers each valid event before the answer is complete and reports the invalid ones', { timeout: 10_000 }, async () => {
+        let firstDelivered!: () => void;
+        const delivered = new Promise<void>(resolve => firstDelivered = resolve);
+        server.pieces = [
+            ...pieces('```json\n[{"message": "Go to jail [do not pass GO]", "type": "chance", "effects": [{"kind": "go_to_jail"}]},'),
+            // The rest of the answer is only sent once the first event has been handed over
+            { text: ' {"message": "Nope", "type": "unknown"},', gate: delivered },
+            ...pieces(' {"message": "Say \\"cheese\\"", "type": "chance", "effects": [{"kind": "get_out_of_jail"}]}]\n```')
+        ];
+        const events: EventData[] = [];
+
+        const result = await chatBot.streamGameEvent('Prison break', {}, async event => {
+            events.push(event);
+            firstDelivered();
+        });
+
+        assert.equal(server.requests.at(-1).stream, true);
+        assert.equal(result.success, true);
+        assert.deepEqual(events.map(event => event.message), ['Go to jail [do not pass GO]', 'Say "cheese"']);
+        assert.deepEqual(result.data, events);
+        assert.deepEqual(result.rejected.map(rejection => rejection.index), [1]);
+    });
+
+    it('rejects an event cut off by the end of the answer', async () => {
+        server.pieces = pieces('[{"message": "Go to jail", "type": "chance", "effects": [{"kind": "go_to_jail"}]}, {"message": "Advance to Boa');
+        const events: EventData[] = [];
+
+        const result = await chatBot.streamGameEvent('Prison break', {}, async event => {
+            events.push(event);
+        });
+
+        assert.deepEqual(events.map(event => event.message), ['Go to jail']);
+        assert.equal(result.rejected.length, 1);
+        assert.equal(result.rejected[0].index, 1);
+        assert.equal(result.rejected[0].entry, '{"message": "Advance to Boa');
+        assert.match(result.rejected[0].errors[0], /incomplete/);
+    });
+
+    it('rejects an answer that is not a JSON array', async () => {
+        server.pieces = pieces('Sorry, I cannot help with that.');
+
+        const result = await chatBot.streamGameEvent('Prison break', {}, async () => {});
+
+        assert.equal(result.success, false);
+        assert.deepEqual(result.rejected.map(rejection => rejection.index), [-1]);
+    });
+});
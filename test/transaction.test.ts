@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Database } from 'sqlite';
+import { SQLiteClient } from '../src/db/database';
+import { withTransaction } from '../src/db/transaction';
+
+describe('withTransaction', () => {
+    let client: SQLiteClient;
+    let db: Database;
+
+    beforeEach(async () => {
+        client = new SQLiteClient(':memory:');
+        await client.connect();
+        const backend = client.backend();
+        assert.equal(backend.type, 'sqlite');
+        db = backend.db;
+        await db.exec('CREATE TABLE notes (text TEXT NOT NULL)');
+    });
+    afterEach(() => client.disconnect());
+
+    it('keeps statements issued outside a transaction out of its rollback', async () => {
+        let started!: () => void;
+        const running = new Promise<void>(resolve => started = resolve);
+        let release!: () => void;
+        const released = new Promise<void>(resolve => release = resolve);
+
+        const failed = withTransaction(db, async () => {
+            await db.run(`INSERT INTO notes (text) VALUES ('inside')`);
+            started();
+            await released;
+            throw new Error('rolled back');
+        });
+        await running;
+        const outside = db.run(`INSERT INTO notes (text) VALUES ('outside')`);
+        release();
+
+        await assert.rejects(failed, /rolled back/);
+        await outside;
+        assert.deepEqual(await db.all('SELECT text FROM notes'), [{ text: 'outside' }]);
+    });
+
+    it('runs statements issued after a transaction has ended outside of later ones', async () => {
+        let afterwards!: Promise<unknown>;
+        await withTransaction(db, async () => {
+            // Scheduled from inside the transaction, but runs once it has committed
+            setImmediate(() => afterwards = db.run(`INSERT INTO notes (text) VALUES ('later')`));
+        });
+        const failed = withTransaction(db, async () => {
+            await new Promise(resolve => setImmediate(resolve));
+            throw new Error('rolled back');
+        });
+
+        await assert.rejects(failed, /rolled back/);
+        await afterwards;
+        assert.deepEqual(await db.all('SELECT text FROM notes'), [{ text: 'later' }]);
+    });
+});